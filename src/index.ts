@@ -27,6 +27,7 @@ export {
 } from './common/codec'
 export { verifyHashBytes, signHashBytes } from './common/signature'
 export { IdentityTemplate } from './wallet/model'
+export { IdentitySigner, registerIdentityMethods, MethodRegistrar, IdentityMethodsOptions } from './wallet/signer'
 export { Digest } from './common/digest'
 export { generateKey, generateIv, exportKey, importKey, digest, encrypt, decrypt } from './common/crypto'
 
@@ -54,10 +55,38 @@ export * from './shared/types/crypto';
 export * from './shared/types/pairing';
 export * from './shared/types/relay';
 export * from './shared/types/session';
+export * from './shared/types/storage';
+export * from './shared/types/jsonrpc';
+export * from './shared/types/lifecycle';
 
 export * from './shared/client/dapp';
 export * from './shared/client/wallet';
 
+export * from './shared/store/KeyChain';
+export * from './shared/store/WatermarkStore';
+
+export * from './shared/relay/memory';
+export * from './shared/relay/websocket';
+export * from './shared/relay/server';
+export * from './shared/relay/broadcast';
+export * from './shared/relay/postmessage';
+export * from './shared/relay/reliable';
+export * from './shared/relay/multi';
+
+export * from './shared/storage/memory';
+export * from './shared/storage/local';
+export * from './shared/storage/indexeddb';
+export * from './shared/storage/file';
+export * from './shared/storage/default';
+export * from './shared/storage/prefixed';
+
 export * from './shared/utils/pairing-uri';
+export * from './shared/utils/local-frame';
+export * from './shared/utils/jsonrpc';
+export * from './shared/utils/lifecycle';
+export * from './shared/utils/expiry';
+export * from './shared/utils/heartbeat';
+export * from './shared/utils/errors';
+export * from './shared/utils/method-registry';
 
 export * from './wallet/auth'
\ No newline at end of file
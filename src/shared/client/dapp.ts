@@ -2,28 +2,51 @@ import { EventEmitter } from 'events';
 import { CryptoManager } from '../core/CryptoManager';
 import { SessionManager } from '../core/SessionManager';
 import { PairingManager } from '../core/PairingManager';
-import { IRelay, RelayConfig, RelayProtocol } from '../types/relay';
+import { IRelay, RelayConfig, RelayProtocol, ReliableRelayOptions, DeliveryReport, RelayConnectionState, RelayStateChange } from '../types/relay';
 import {
   SessionData,
   SessionRequest,
   SessionErrorCode,
   SessionError,
   SessionMetadata,
-  SessionNamespaces
+  SessionNamespaces,
+  SessionEventData,
+  AccountsChangedEvent,
+  ChainChangedEvent,
+  SessionChangeRejected,
+  SessionProposal,
+  SessionStatus
 } from '../types/session';
-import { CreatePairingResult, Pairing } from '../types/pairing';
+import { Pairing, PairingRejectedError } from '../types/pairing';
+import { IKeyChain } from '../types/crypto';
+import { IKeyValueStorage } from '../types/storage';
+import { KeyChain } from '../store/KeyChain';
+import { PairingStore } from '../store/PairingStore';
+import { SessionStore } from '../store/SessionStore';
+import { createDefaultStorage } from '../storage/default';
+import { LEGACY_CLIENT_STORAGE_KEYS, PrefixedStorage } from '../storage/prefixed';
 import { WakuRelay } from '../relay/waku';
-import { PairingEvent, SessionEvent } from '../types/common';
+import { ReliableRelay } from '../relay/reliable';
+import { MultiRelay } from '../relay/multi';
+import { ChainEvent, ExpiringEvent, ExpiryOptions, HeartbeatOptions, PairingEvent, PeerLivenessEvent, RelayEvent, SessionEvent } from '../types/common';
 
 /**
  * DApp Client 配置
  */
 export interface DappClientConfig {
   metadata: SessionMetadata;
-  relayConfig: RelayConfig;
+  relayConfig?: RelayConfig;
+  relay?: IRelay;                    // 注入的 Relay（优先于 relayConfig）
+  relays?: IRelay[];                 // 多个 Relay，第一个为主 relay，其余用于故障切换
+  reliability?: ReliableRelayOptions; // 启用确认、重试和离线发件箱（双方都需启用）
   requiredNamespaces?: SessionNamespaces;
   optionalNamespaces?: SessionNamespaces;
-  requestTimeout?: number;
+  requestTimeout?: number;           // 请求的默认超时（毫秒，默认 60 秒）
+  expiry?: ExpiryOptions;            // 过期提醒和自动续期
+  heartbeat?: HeartbeatOptions;      // 为 Pairing 和 Session 自动启动心跳
+  keychain?: IKeyChain;              // 密钥链（默认构建在 storage 之上）
+  storage?: IKeyValueStorage;        // 键值存储（默认 localStorage，不可用时使用内存）
+  storageNamespace?: string;         // 存储键的命名空间（默认 'dapp'），同源的客户端需使用不同的命名空间
 }
 
 /**
@@ -43,6 +66,26 @@ export interface ConnectionURI {
 export interface ConnectOptions {
   pairingTopic?: string;  // 使用现有的 Pairing
   skipProposal?: boolean; // 跳过自动提议 Session
+  requiredNamespaces?: SessionNamespaces; // 覆盖配置中的命名空间
+  optionalNamespaces?: SessionNamespaces;
+  signal?: AbortSignal;   // 取消连接，清理待批准的 Pairing 和提议
+}
+
+/**
+ * 连接结果
+ */
+export interface ConnectResult extends ConnectionURI {
+  approval: () => Promise<SessionData>; // 等待 Session 建立
+}
+
+/**
+ * 按 topic 限定的事件名，如 `session_updated:<topic>`
+ *
+ * DappClient 转发的事件同时以原事件名和限定事件名发出，
+ * 连接多个钱包时可只监听某个 Session 或 Pairing 的事件
+ */
+export function scopedEvent(event: string, topic: string): string {
+  return `${event}:${topic}`;
 }
 
 /**
@@ -59,15 +102,28 @@ export class DappClient extends EventEmitter {
   private requestTimeout: number;
   private initialized = false;
 
-  // 当前活跃的 Session
+  // 默认 Session（未指定 topic 时使用），可连接多个钱包
   private activeSession?: SessionData;
-  // 当前的 Pairing
+  // 默认 Pairing（提议 Session 时未指定 pairingTopic 时使用）
   private activePairing?: Pairing;
 
   constructor(config: DappClientConfig) {
     super();
-    // 创建 Waku Relay
-    this.relay = new WakuRelay(config.relayConfig);
+    // 升级前未加命名空间的数据迁移到命名空间下
+    const storage = new PrefixedStorage(
+      config.storage || createDefaultStorage(),
+      config.storageNamespace ?? 'dapp',
+      LEGACY_CLIENT_STORAGE_KEYS
+    );
+
+    // 使用注入的 Relay，否则创建 Waku Relay
+    if (config.relay) {
+      this.relay = config.relay;
+    } else if (config.relays && config.relays.length > 0) {
+      this.relay = config.relays.length === 1 ? config.relays[0] : new MultiRelay(config.relays);
+    } else {
+      this.relay = new WakuRelay(config.relayConfig, storage);
+    }
 
     this.metadata = config.metadata;
     this.requiredNamespaces = config.requiredNamespaces;
@@ -75,9 +131,21 @@ export class DappClient extends EventEmitter {
     this.requestTimeout = config.requestTimeout || 60000;
 
     // 初始化管理器
-    this.cryptoManager = new CryptoManager();
-    this.sessionManager = new SessionManager(this.metadata, this.cryptoManager);
-    this.pairingManager = new PairingManager(this.relay, this.metadata, this.cryptoManager);
+    this.cryptoManager = new CryptoManager(config.keychain || new KeyChain({ storage }));
+    // 可靠传输的帧和 ack 使用 topic 的对称密钥加密
+    if (config.reliability && !(this.relay instanceof ReliableRelay)) {
+      this.relay = new ReliableRelay(this.relay, config.reliability, this.cryptoManager);
+    }
+    this.sessionManager = new SessionManager(this.metadata, this.cryptoManager, new SessionStore(storage), {
+      ...config.expiry,
+      heartbeat: config.heartbeat
+    });
+    this.pairingManager = new PairingManager(
+      this.relay, this.metadata, this.cryptoManager, new PairingStore(storage), {
+        ...config.expiry,
+        heartbeat: config.heartbeat
+      }
+    );
     this.sessionManager.setPairingManager(this.pairingManager, false);
     this.setupEventHandlers();
   }
@@ -109,26 +177,60 @@ export class DappClient extends EventEmitter {
    * 设置事件处理器
    */
   private setupEventHandlers(): void {
+    // Relay 连接状态和投递状态
+    if (this.relay instanceof EventEmitter) {
+      this.relay.on(RelayEvent.STATE_CHANGED, (change: RelayStateChange) => {
+        this.emit(RelayEvent.STATE_CHANGED, change);
+      });
+      this.relay.on(RelayEvent.DELIVERY_STATUS, (report: DeliveryReport) => {
+        this.emit(RelayEvent.DELIVERY_STATUS, report);
+      });
+    }
+
     // Pairing 事件
     this.pairingManager.on(PairingEvent.DELETED, (data: any) => {
       console.log('[DappClient] Pairing deleted:', data.topic);
-      this.emit(PairingEvent.DELETED, data);
+      if (this.activePairing?.topic === data.topic) {
+        this.activePairing = undefined;
+      }
+      this.emitScoped(PairingEvent.DELETED, data);
     });
 
     this.pairingManager.on(PairingEvent.APPROVED, (pairing: any) => {
       console.log('[DappClient] Pairing approved:', pairing.topic);
-      this.emit(PairingEvent.APPROVED, pairing);
+      this.emitScoped(PairingEvent.APPROVED, pairing);
     });
 
     this.pairingManager.on(PairingEvent.REJECTED, (data: any) => {
       console.log('[DappClient] Pairing rejected:', data.topic);
-      this.emit(PairingEvent.REJECTED, data);
+      this.emitScoped(PairingEvent.REJECTED, data);
+    });
+
+    this.pairingManager.on(PairingEvent.EXPIRED, (data: any) => {
+      console.log('[DappClient] Pairing expired:', data.topic);
+      if (this.activePairing?.topic === data.topic) {
+        this.activePairing = undefined;
+      }
+      this.emitScoped(PairingEvent.EXPIRED, data);
+    });
+
+    this.pairingManager.on(PairingEvent.EXPIRING, (data: ExpiringEvent) => {
+      console.log('[DappClient] Pairing expiring:', data.topic);
+      this.emitScoped(PairingEvent.EXPIRING, data);
+    });
+
+    this.pairingManager.on(PairingEvent.EXTENDED, (pairing: Pairing) => {
+      console.log('[DappClient] Pairing extended:', pairing.topic);
+      if (this.activePairing?.topic === pairing.topic) {
+        this.activePairing = pairing;
+      }
+      this.emitScoped(PairingEvent.EXTENDED, pairing);
     });
 
     this.sessionManager.on(SessionEvent.SETTLED, (session: SessionData) => {
       console.log('[DappClient] Session settled:', session.topic);
       this.activeSession = session;
-      this.emit(SessionEvent.SETTLED, session);
+      this.emitScoped(SessionEvent.SETTLED, session);
     });
 
     this.sessionManager.on(SessionEvent.REJECTED, (session: SessionData) => {
@@ -136,7 +238,7 @@ export class DappClient extends EventEmitter {
       if (this.activeSession?.topic === session.topic) {
         this.activeSession = undefined;
       }
-      this.emit(SessionEvent.REJECTED, session);
+      this.emitScoped(SessionEvent.REJECTED, session);
     });
 
     this.sessionManager.on(SessionEvent.UPDATED, (session: SessionData) => {
@@ -144,7 +246,7 @@ export class DappClient extends EventEmitter {
       if (this.activeSession?.topic === session.topic) {
         this.activeSession = session;
       }
-      this.emit(SessionEvent.UPDATED, session);
+      this.emitScoped(SessionEvent.UPDATED, session);
     });
 
     this.sessionManager.on(SessionEvent.EXTENDED, (session: SessionData) => {
@@ -152,33 +254,71 @@ export class DappClient extends EventEmitter {
       if (this.activeSession?.topic === session.topic) {
         this.activeSession = session;
       }
-      this.emit(SessionEvent.EXTENDED, session);
+      this.emitScoped(SessionEvent.EXTENDED, session);
     });
 
     this.sessionManager.on(SessionEvent.DELETED, (data: any) => {
       console.log('[DappClient] Session deleted:', data.topic);
       if (this.activeSession?.topic === data.topic) {
-        this.activeSession = undefined;
+        this.activeSession = this.getSessions()[0];
+      }
+      this.emitScoped(SessionEvent.DELETED, data);
+    });
+
+    this.sessionManager.on(SessionEvent.EXPIRED, (data: any) => {
+      console.log('[DappClient] Session expired:', data.topic);
+      if (this.activeSession?.topic === data.topic) {
+        this.activeSession = this.getSessions()[0];
       }
-      this.emit(SessionEvent.DELETED, data);
+      this.emitScoped(SessionEvent.EXPIRED, data);
+    });
+
+    this.sessionManager.on(SessionEvent.EXPIRING, (data: ExpiringEvent) => {
+      console.log('[DappClient] Session expiring:', data.topic);
+      this.emitScoped(SessionEvent.EXPIRING, data);
+    });
+
+    // 钱包失联时可提示用户重新打开钱包
+    this.sessionManager.on(SessionEvent.PEER_UNRESPONSIVE, (data: PeerLivenessEvent) => {
+      console.warn('[DappClient] Wallet unresponsive:', data.topic);
+      this.emitScoped(SessionEvent.PEER_UNRESPONSIVE, data);
+    });
+
+    this.sessionManager.on(SessionEvent.PEER_RESPONSIVE, (data: PeerLivenessEvent) => {
+      console.log('[DappClient] Wallet responsive again:', data.topic);
+      this.emitScoped(SessionEvent.PEER_RESPONSIVE, data);
     });
 
     this.sessionManager.on(SessionEvent.REQUEST, (request: any) => {
       console.log('[DappClient] Session request:', request.id);
-      this.emit(SessionEvent.REQUEST, request);
+      this.emitScoped(SessionEvent.REQUEST, request);
     });
 
-    this.sessionManager.on(SessionEvent.EVENT_RECEIVED, (event: any) => {
+    this.sessionManager.on(SessionEvent.EVENT_RECEIVED, (event: SessionEventData) => {
       console.log('[DappClient] Session event:', event.event.name);
-      this.emit(SessionEvent.EVENT_RECEIVED, event);
+      this.emitScoped(SessionEvent.EVENT_RECEIVED, event);
+      this.emitChainEvent(event);
+    });
+
+    this.sessionManager.on(SessionEvent.CHANGE_REJECTED, (data: SessionChangeRejected) => {
+      console.warn('[DappClient] Session change rejected:', data.method);
+      this.emitScoped(SessionEvent.CHANGE_REJECTED, data);
     });
   }
 
   /**
    * 创建连接 URI
+   *
+   * 返回的 approval() 在 Session 建立后 resolve，被拒绝、过期、超时或取消时
+   * 以 SessionError 拒绝（USER_REJECTED、PROPOSAL_EXPIRED、RESPONSE_TIMEOUT、USER_CANCELLED，
+   * 其他失败为 UNKNOWN_ERROR，cause 为原始错误）
    */
-  async connect(options?: ConnectOptions): Promise<ConnectionURI> {
+  async connect(options?: ConnectOptions): Promise<ConnectResult> {
     this.ensureInitialized();
+    if (options?.signal?.aborted) {
+      throw new SessionError(SessionErrorCode.USER_CANCELLED, 'Connection cancelled');
+    }
+
     try {
       // 如果提供了 pairingTopic，使用现有的 Pairing
       if (options?.pairingTopic) {
@@ -189,11 +329,13 @@ export class DappClient extends EventEmitter {
 
         this.activePairing = pairing;
 
+        const approval = this.awaitSession(pairing.topic, undefined, options);
         return {
           uri: '', // 已有 Pairing 不需要 URI
           topic: pairing.topic,
           version: 2,
           relay: pairing.relay,
+          approval: () => approval
         };
       }
 
@@ -217,51 +359,130 @@ export class DappClient extends EventEmitter {
       console.log('[DappClient] Connection URI created:', connectionURI.uri);
       this.emit('display_uri', connectionURI);
 
-      // 异步等待批准（不阻塞返回）
-      this.handlePairingApproval(result).catch(error => {
-        console.error('[DappClient] Pairing approval error:', error);
-        this.emit('pairing_error', error);
-      });
-
-      return connectionURI;
+      // 等待批准（不阻塞返回）
+      const approval = this.awaitSession(result.topic, result.approval(), options);
+      return { ...connectionURI, approval: () => approval };
     } catch (error) {
       console.error('[DappClient] Failed to create connection:', error);
       throw error;
     }
   }
 
- /**
- * 处理 Pairing 批准
- */
-  private async handlePairingApproval(result: CreatePairingResult): Promise<void> {
-    try {
-      const pairing = await result.approval();
-      console.log('[DappClient] Pairing approved:', pairing.topic);
+  /**
+   * 等待 Pairing 批准、提议 Session 并等待 Session 建立
+   *
+   * @param pairingApproval - 新建 Pairing 的批准 Promise（使用已有 Pairing 时为空）
+   */
+  private awaitSession(
+    pairingTopic: string,
+    pairingApproval: Promise<Pairing> | undefined,
+    options?: ConnectOptions
+  ): Promise<SessionData> {
+    const signal = options?.signal;
+    let pairingPending = !!pairingApproval;
+    let proposalId: number | undefined;
+
+    // 取消时清理仍在等待的 Pairing 或提议
+    const cancel = () => {
+      if (pairingPending) {
+        this.pairingManager.delete(pairingTopic, 'Connection cancelled').catch(error => {
+          console.error('[DappClient] Failed to delete pending pairing:', error);
+        });
+      } else if (proposalId !== undefined) {
+        this.sessionManager.cancelProposal(proposalId).catch(error => {
+          console.error('[DappClient] Failed to cancel proposal:', error);
+        });
+      }
+    };
+
+    const run = async (): Promise<SessionData> => {
+      signal?.addEventListener('abort', cancel, { once: true });
+      try {
+        if (pairingApproval) {
+          let pairing: Pairing;
+          try {
+            pairing = await pairingApproval;
+          } catch (error) {
+            console.error('[DappClient] Pairing approval failed:', error);
+            if (this.activePairing?.topic === pairingTopic) {
+              this.activePairing = undefined;
+            }
+            this.emit('pairing_error', error);
+            throw error;
+          }
+          pairingPending = false;
+          console.log('[DappClient] Pairing approved:', pairing.topic);
+          this.activePairing = pairing;
+        }
+
+        if (options?.skipProposal || !(options?.requiredNamespaces || this.requiredNamespaces)) {
+          throw new SessionError(SessionErrorCode.INVALID_PROPOSAL, 'No session proposed');
+        }
+        if (signal?.aborted) {
+          throw new SessionError(SessionErrorCode.USER_CANCELLED, 'Connection cancelled');
+        }
 
-      this.activePairing = pairing;
-      this.emit(PairingEvent.APPROVED, pairing);
+        // Pairing 建立后，自动提议 Session
+        const proposal = await this.proposeSession({
+          pairingTopic,
+          requiredNamespaces: options?.requiredNamespaces,
+          optionalNamespaces: options?.optionalNamespaces
+        });
+        proposalId = proposal.proposalId;
+        if (signal?.aborted) {
+          cancel();
+        }
 
-      // Pairing 建立后，自动提议 Session
-      if (this.requiredNamespaces) {
-        await this.proposeSession();
+        return await this.sessionManager.waitForApproval(proposal.proposalId);
+      } catch (error) {
+        throw this.toSessionError(error, signal);
+      } finally {
+        signal?.removeEventListener('abort', cancel);
       }
-    } catch (error) {
-      console.error('[DappClient] Pairing approval failed:', error);
-      this.activePairing = undefined;
-      throw error;
+    };
+
+    const approval = run();
+    // 调用方可能不等待结果
+    approval.catch(() => undefined);
+    return approval;
+  }
+
+  /**
+   * 将连接过程中的错误转换为 SessionError
+   */
+  private toSessionError(error: any, signal?: AbortSignal): SessionError {
+    if (signal?.aborted) {
+      return new SessionError(SessionErrorCode.USER_CANCELLED, 'Connection cancelled');
+    }
+    if (error instanceof SessionError) {
+      return error;
     }
+
+    // 钱包明确拒绝 Pairing
+    if (error instanceof PairingRejectedError) {
+      return new SessionError(SessionErrorCode.USER_REJECTED, error.message, error.reason.data);
+    }
+
+    // 其他失败（如发布失败、Pairing 过期）保留原始错误
+    const sessionError = new SessionError(SessionErrorCode.UNKNOWN_ERROR, error?.message || String(error));
+    sessionError.cause = error;
+    return sessionError;
   }
 
   /**
    * 提议 Session
+   *
+   * @param params.pairingTopic - 使用的 Pairing（默认当前 Pairing）
    */
   async proposeSession(params?: {
+    pairingTopic?: string;
     requiredNamespaces?: SessionNamespaces;
     optionalNamespaces?: SessionNamespaces;
-  }): Promise<void> {
+  }): Promise<SessionProposal> {
     this.ensureInitialized();
 
-    if (!this.activePairing) {
+    const pairingTopic = params?.pairingTopic || this.activePairing?.topic;
+    if (!pairingTopic) {
       throw new Error('No active pairing. Call connect() or pair() first.');
     }
 
@@ -273,36 +494,44 @@ export class DappClient extends EventEmitter {
     } 
     // 提议 Session
     const proposal = await this.sessionManager.propose({
-      pairingTopic: this.activePairing.topic,
+      pairingTopic,
       requiredNamespaces,
       optionalNamespaces,
-      relays: [{
-        protocol: this.relay.getProtocol().protocol
-      }]
+      relays: this.relay.getProtocols ? this.relay.getProtocols() : [this.relay.getProtocol()]
     });
 
     console.log('[DappClient] Session proposed:', proposal.proposalId);
+    return proposal;
   }
 
   /**
    * 发送请求
+   *
+   * @param params.topic - 目标 Session（默认当前 Session）
+   * @param params.timeout - 超时（毫秒，默认 requestTimeout）
+   * @param params.signal - 取消请求，Wallet 会收到取消通知
+   * @throws SessionError 钱包返回错误时 code 为对应的 SessionErrorCode，rpcCode 和 data 为原始值
    */
   async request<T = any>(params: {
+    topic?: string;
     chainId: string;
     method: string;
     params: any[];
+    timeout?: number;
+    signal?: AbortSignal;
   }): Promise<T> {
     this.ensureInitialized();
 
-    if (!this.activeSession) {
-      throw new Error('No active session. Connect first.');
-    }
+    const session = this.requireSession(params.topic);
     // 发送请求
     const result = await this.sessionManager.request({
-      topic: this.activeSession.topic,
+      topic: session.topic,
       chainId: params.chainId,
       method: params.method,
       params: params.params
+    }, {
+      timeout: params.timeout ?? this.requestTimeout,
+      signal: params.signal
     });
 
     return result as T;
@@ -310,10 +539,26 @@ export class DappClient extends EventEmitter {
 
   /**
    * 断开连接
+   *
+   * @param topic - 只断开指定的 Session，保留 Pairing 和其他 Session；
+   *                不指定时断开当前 Session 和当前 Pairing
    */
-  async disconnect(): Promise<void> {
+  async disconnect(topic?: string): Promise<void> {
     this.ensureInitialized();
 
+    if (topic) {
+      const session = this.requireSession(topic);
+      await this.sessionManager.disconnect({
+        topic: session.topic,
+        reason: { code: 6000, message: 'User disconnected' }
+      });
+      if (this.activeSession?.topic === topic) {
+        this.activeSession = this.getSessions()[0];
+      }
+      console.log('[DappClient] Session disconnected:', topic);
+      return;
+    }
+
     if (this.activeSession) {
       await this.sessionManager.disconnect({
         topic: this.activeSession.topic,
@@ -331,15 +576,14 @@ export class DappClient extends EventEmitter {
 
   /**
    * Ping Session
+   *
+   * @returns 往返时间（毫秒）
    */
-  async ping(): Promise<void> {
+  async ping(topic?: string): Promise<number> {
     this.ensureInitialized();
 
-    if (!this.activeSession) {
-      throw new Error('No active session');
-    }
-
-    await this.sessionManager.ping(this.activeSession.topic);
+    const session = this.requireSession(topic);
+    return this.sessionManager.ping(session.topic);
   }
 
   /**
@@ -349,17 +593,60 @@ export class DappClient extends EventEmitter {
     return this.activeSession ? { ...this.activeSession } : undefined;
   }
 
+  /**
+   * 获取所有未过期的 Session（最新的在前）
+   */
+  getSessions(): SessionData[] {
+    return this.sessionManager.getAll()
+      .filter(s => s.status === SessionStatus.SETTLED && Date.now() < s.expiry * 1000)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  getSession(topic: string): SessionData | undefined {
+    return this.getSessions().find(s => s.topic === topic);
+  }
+
+  /**
+   * 获取所有活跃的 Pairing（最新的在前）
+   */
+  async getPairings(): Promise<Pairing[]> {
+    const pairings = await this.pairingManager.getActive();
+    return pairings.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * 设置默认 Session，未指定 topic 的方法都作用于它
+   */
+  selectSession(topic: string): SessionData {
+    this.activeSession = this.requireSession(topic);
+    return { ...this.activeSession };
+  }
+
+  /**
+   * 设置默认 Pairing，之后的 Session 提议都使用它
+   */
+  async selectPairing(topic: string): Promise<Pairing> {
+    const pairing = (await this.getPairings()).find(p => p.topic === topic);
+    if (!pairing) {
+      throw new Error(`Pairing not found: ${topic}`);
+    }
+
+    this.activePairing = pairing;
+    return pairing;
+  }
+
   /**
    * 获取账户
    */
-  getAccounts(chainId?: string): string[] {
-    if (!this.activeSession) {
+  getAccounts(chainId?: string, topic?: string): string[] {
+    const session = this.resolveSession(topic);
+    if (!session) {
       return [];
     }
 
     const accounts: string[] = [];
 
-    for (const [key, namespace] of Object.entries(this.activeSession.namespaces)) {
+    for (const [key, namespace] of Object.entries(session.namespaces)) {
       if (namespace.accounts) {
         if (chainId) {
           // 过滤特定链的账户
@@ -377,14 +664,15 @@ export class DappClient extends EventEmitter {
   /**
    * 获取支持的链
    */
-  getChains(): string[] {
-    if (!this.activeSession) {
+  getChains(topic?: string): string[] {
+    const session = this.resolveSession(topic);
+    if (!session) {
       return [];
     }
 
     const chains: string[] = [];
 
-    for (const namespace of Object.values(this.activeSession.namespaces)) {
+    for (const namespace of Object.values(session.namespaces)) {
       if (namespace.chains) {
         chains.push(...namespace.chains);
       }
@@ -396,13 +684,14 @@ export class DappClient extends EventEmitter {
   /**
    * 获取支持的方法
    */
-  getMethods(chainId?: string): string[] {
-    if (!this.activeSession) {
+  getMethods(chainId?: string, topic?: string): string[] {
+    const session = this.resolveSession(topic);
+    if (!session) {
       return [];
     }
 
     const methods: string[] = [];
-    for (const [key, namespace] of Object.entries(this.activeSession.namespaces)) {
+    for (const [key, namespace] of Object.entries(session.namespaces)) {
       if (!chainId || namespace.chains?.some(c => c === chainId)) {
         methods.push(...namespace.methods);
       }
@@ -414,28 +703,37 @@ export class DappClient extends EventEmitter {
   /**
    * 检查 Session 是否活跃
    */
-  isConnected(): boolean {
-    if (!this.activeSession) {
+  isConnected(topic?: string): boolean {
+    const session = this.resolveSession(topic);
+    if (!session) {
       return false;
     }
 
-    return Date.now() < this.activeSession.expiry * 1000;
+    // 钱包连续多次未响应心跳时视为未连接
+    return Date.now() < session.expiry * 1000 &&
+      this.sessionManager.isPeerResponsive(session.topic);
+  }
+
+  /**
+   * 获取 Relay 连接状态
+   */
+  getConnectionState(): RelayConnectionState {
+    if (this.relay.getState) {
+      return this.relay.getState();
+    }
+    return this.relay.isConnected() ? RelayConnectionState.CONNECTED : RelayConnectionState.DISCONNECTED;
   }
 
   /**
    * 恢复活跃的 Session
    */
   private async restoreActiveSession(): Promise<void> {
-    const sessions = this.sessionManager.getAll();
-
-    // 找到最新的活跃 Session
-    const activeSessions = sessions
-      .filter(s => Date.now() < s.expiry * 1000)
-      .sort((a, b) => b.createdAt - a.createdAt);
+    // 最新的活跃 Session 作为默认 Session，其余仍可通过 topic 使用
+    const activeSessions = this.getSessions();
 
     if (activeSessions.length > 0) {
       this.activeSession = activeSessions[0];
-      console.log('[DappClient] Restored active session:', this.activeSession.topic);
+      console.log(`[DappClient] Restored ${activeSessions.length} sessions, default:`, this.activeSession.topic);
     }
 
     // 恢复 Pairing
@@ -450,6 +748,57 @@ export class DappClient extends EventEmitter {
     }
   }
 
+  /**
+   * 指定 topic 时查找对应 Session，否则使用默认 Session
+   */
+  private resolveSession(topic?: string): SessionData | undefined {
+    return topic ? this.getSession(topic) : this.activeSession;
+  }
+
+  private requireSession(topic?: string): SessionData {
+    const session = this.resolveSession(topic);
+    if (!session) {
+      throw new Error(topic ? `Session not found: ${topic}` : 'No active session. Connect first.');
+    }
+    return session;
+  }
+
+  /**
+   * 同时发出原事件和按 topic 限定的事件
+   */
+  private emitScoped(event: string, data: any): void {
+    this.emit(event, data);
+    if (data?.topic) {
+      this.emit(scopedEvent(event, data.topic), data);
+    }
+  }
+
+  /**
+   * 将 Session 事件转换为类型化的链事件
+   */
+  private emitChainEvent(event: SessionEventData): void {
+    switch (event.event.name) {
+      case ChainEvent.ACCOUNTS_CHANGED: {
+        const data: AccountsChangedEvent = {
+          topic: event.topic,
+          chainId: event.chainId,
+          accounts: event.event.data
+        };
+        this.emitScoped(ChainEvent.ACCOUNTS_CHANGED, data);
+        break;
+      }
+
+      case ChainEvent.CHAIN_CHANGED: {
+        const data: ChainChangedEvent = {
+          topic: event.topic,
+          chainId: event.event.data ?? event.chainId
+        };
+        this.emitScoped(ChainEvent.CHAIN_CHANGED, data);
+        break;
+      }
+    }
+  }
+
   /**
    * 确保已初始化
    */
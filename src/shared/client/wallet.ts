@@ -2,7 +2,7 @@ import { EventEmitter } from 'events';
 import { CryptoManager } from '../core/CryptoManager';
 import { SessionManager } from '../core/SessionManager';
 import { PairingManager } from '../core/PairingManager';
-import { IRelay, RelayConfig } from '../types/relay';
+import { IRelay, RelayConfig, ReliableRelayOptions, DeliveryReport, RelayConnectionState, RelayStateChange } from '../types/relay';
 import {
   SessionData,
   SessionMetadata,
@@ -12,11 +12,35 @@ import {
   RejectSessionParams,
   SessionRequest,
   SessionResponse,
+  SessionChangeRejected,
+  RequestCancelled,
+  MethodHandler,
+  MethodHandlerOptions,
+  MethodRegistryOptions,
+  SessionErrorCode
 } from '../types/session';
 import { Pairing } from '../types/pairing';
-import { ICryptoManager } from '../types/crypto';
+import { ICryptoManager, IKeyChain } from '../types/crypto';
+import { IKeyValueStorage } from '../types/storage';
+import { KeyChain } from '../store/KeyChain';
+import { PairingStore } from '../store/PairingStore';
+import { SessionStore } from '../store/SessionStore';
+import { createDefaultStorage } from '../storage/default';
+import { LEGACY_CLIENT_STORAGE_KEYS, PrefixedStorage } from '../storage/prefixed';
 import { WakuRelay } from '../relay/waku';
-import { PairingEvent, SessionEvent } from '../types/common';
+import { ReliableRelay } from '../relay/reliable';
+import { MultiRelay } from '../relay/multi';
+import { MethodOutcome, MethodRegistry } from '../utils/method-registry';
+import {
+  ExpiringEvent,
+  ExpiryOptions,
+  HeartbeatOptions,
+  PairingEvent,
+  PeerLivenessEvent,
+  Reason,
+  RelayEvent,
+  SessionEvent
+} from '../types/common';
 
 /**
  * Wallet Client 配置
@@ -25,7 +49,16 @@ export interface WalletClientConfig {
   metadata: SessionMetadata;
   supportedNamespaces?: SessionNamespaces;
   accounts?: string[];
-  relayConfig: RelayConfig;
+  relayConfig?: RelayConfig;
+  relay?: IRelay;                    // 注入的 Relay（优先于 relayConfig）
+  relays?: IRelay[];                 // 多个 Relay，第一个为主 relay，其余用于故障切换
+  reliability?: ReliableRelayOptions; // 启用确认、重试和离线发件箱（双方都需启用）
+  expiry?: ExpiryOptions;            // 过期提醒和自动续期
+  heartbeat?: HeartbeatOptions;      // 为 Pairing 和 Session 自动启动心跳
+  methods?: MethodRegistryOptions;   // 方法处理器的确认和未知方法处理
+  keychain?: IKeyChain;              // 密钥链（默认构建在 storage 之上）
+  storage?: IKeyValueStorage;        // 键值存储（默认 localStorage，不可用时使用内存）
+  storageNamespace?: string;         // 存储键的命名空间（默认 'wallet'），同源的客户端需使用不同的命名空间
 }
 
 /**
@@ -48,6 +81,7 @@ export class WalletClient extends EventEmitter {
   private metadata: SessionMetadata;
   private supportedNamespaces?: SessionNamespaces;
   private accounts: string[];
+  private methods: MethodRegistry;
   private initialized = false;
 
   // 待处理的提案和请求
@@ -58,15 +92,42 @@ export class WalletClient extends EventEmitter {
   constructor(config: WalletClientConfig) {
     super();
 
-    this.relay = new WakuRelay(config.relayConfig);
+    // 升级前未加命名空间的数据迁移到命名空间下
+    const storage = new PrefixedStorage(
+      config.storage || createDefaultStorage(),
+      config.storageNamespace ?? 'wallet',
+      LEGACY_CLIENT_STORAGE_KEYS
+    );
+
+    // 使用注入的 Relay，否则创建 Waku Relay
+    if (config.relay) {
+      this.relay = config.relay;
+    } else if (config.relays && config.relays.length > 0) {
+      this.relay = config.relays.length === 1 ? config.relays[0] : new MultiRelay(config.relays);
+    } else {
+      this.relay = new WakuRelay(config.relayConfig, storage);
+    }
     this.metadata = config.metadata;
     this.supportedNamespaces = config.supportedNamespaces;
     this.accounts = config.accounts || [];
+    this.methods = new MethodRegistry(config.methods);
 
     // 初始化管理器
-    this.cryptoManager = new CryptoManager();
-    this.sessionManager = new SessionManager(this.metadata, this.cryptoManager);
-    this.pairingManager = new PairingManager(this.relay, this.metadata, this.cryptoManager);
+    this.cryptoManager = new CryptoManager(config.keychain || new KeyChain({ storage }));
+    // 可靠传输的帧和 ack 使用 topic 的对称密钥加密
+    if (config.reliability && !(this.relay instanceof ReliableRelay)) {
+      this.relay = new ReliableRelay(this.relay, config.reliability, this.cryptoManager);
+    }
+    this.sessionManager = new SessionManager(this.metadata, this.cryptoManager, new SessionStore(storage), {
+      ...config.expiry,
+      heartbeat: config.heartbeat
+    });
+    this.pairingManager = new PairingManager(
+      this.relay, this.metadata, this.cryptoManager, new PairingStore(storage), {
+        ...config.expiry,
+        heartbeat: config.heartbeat
+      }
+    );
     this.sessionManager.setPairingManager(this.pairingManager, true);
     this.setupEventHandlers();
   }
@@ -99,16 +160,46 @@ export class WalletClient extends EventEmitter {
    * 设置事件处理器
    */
   private setupEventHandlers(): void {
+    // Relay 连接状态和投递状态
+    if (this.relay instanceof EventEmitter) {
+      this.relay.on(RelayEvent.STATE_CHANGED, (change: RelayStateChange) => {
+        this.emit(RelayEvent.STATE_CHANGED, change);
+      });
+      this.relay.on(RelayEvent.DELIVERY_STATUS, (report: DeliveryReport) => {
+        this.emit(RelayEvent.DELIVERY_STATUS, report);
+      });
+    }
+
     this.pairingManager.on(PairingEvent.CREATED, (pairing: Pairing) => {
       console.log('[WalletClient] Pairing created:', pairing.topic);
       this.emit(PairingEvent.CREATED, pairing);
     });
 
+    this.pairingManager.on(PairingEvent.ACTIVATED, (pairing: Pairing) => {
+      console.log('[WalletClient] Pairing activated:', pairing.topic);
+      this.emit(PairingEvent.ACTIVATED, pairing);
+    });
+
     this.pairingManager.on(PairingEvent.DELETED, (data: any) => {
       console.log('[WalletClient] Pairing deleted:', data.topic);
       this.emit(PairingEvent.DELETED, data);
     });
 
+    this.pairingManager.on(PairingEvent.EXPIRED, (data: any) => {
+      console.log('[WalletClient] Pairing expired:', data.topic);
+      this.emit(PairingEvent.EXPIRED, data);
+    });
+
+    this.pairingManager.on(PairingEvent.EXPIRING, (data: ExpiringEvent) => {
+      console.log('[WalletClient] Pairing expiring:', data.topic);
+      this.emit(PairingEvent.EXPIRING, data);
+    });
+
+    this.pairingManager.on(PairingEvent.EXTENDED, (pairing: Pairing) => {
+      console.log('[WalletClient] Pairing extended:', pairing.topic);
+      this.emit(PairingEvent.EXTENDED, pairing);
+    });
+
     // Session 提案（使用枚举）
     this.sessionManager.on(SessionEvent.PROPOSAL, (proposal: SessionProposal) => {
       console.log('[WalletClient] Session proposal received:', proposal.proposalId);
@@ -130,21 +221,44 @@ export class WalletClient extends EventEmitter {
       this.emit(SessionEvent.EXTENDED, session);
     });
 
-    // Session 删除（使用枚举）
-    this.sessionManager.on(SessionEvent.DELETED, (data: { topic: string; reason: any }) => {
-      console.log('[WalletClient] Session deleted:', data.topic);
+    // Session 即将过期
+    this.sessionManager.on(SessionEvent.EXPIRING, (data: ExpiringEvent) => {
+      console.log('[WalletClient] Session expiring:', data.topic);
+      this.emit(SessionEvent.EXPIRING, data);
+    });
+
+    // Dapp 失联或恢复
+    for (const event of [SessionEvent.PEER_UNRESPONSIVE, SessionEvent.PEER_RESPONSIVE]) {
+      this.sessionManager.on(event, (data: PeerLivenessEvent) => {
+        console.log(`[WalletClient] Session ${event}:`, data.topic);
+        this.emit(event, data);
+      });
+    }
+
+    // Session 删除或过期（使用枚举）
+    for (const event of [SessionEvent.DELETED, SessionEvent.EXPIRED]) {
+      this.sessionManager.on(event, (data: { topic: string; reason: any }) => {
+        console.log(`[WalletClient] Session ${event}:`, data.topic);
 
-      // 删除 Session
-      this.activeSessions.delete(data.topic);
+        // 删除 Session
+        this.activeSessions.delete(data.topic);
 
-      // 清理相关的待处理请求
-      for (const [id, pending] of this.pendingRequests.entries()) {
-        if (pending.session.topic === data.topic) {
-          this.pendingRequests.delete(id);
+        // 清理相关的待处理请求
+        for (const [id, pending] of this.pendingRequests.entries()) {
+          if (pending.session.topic === data.topic) {
+            this.pendingRequests.delete(id);
+          }
         }
-      }
 
-      this.emit(SessionEvent.DELETED, data);
+        this.emit(event, data);
+      });
+    }
+
+    // Dapp 已确认 Session 建立
+    this.sessionManager.on(SessionEvent.ACKNOWLEDGED, (session: SessionData) => {
+      console.log('[WalletClient] Session acknowledged:', session.topic);
+      this.activeSessions.set(session.topic, session);
+      this.emit(SessionEvent.ACKNOWLEDGED, session);
     });
 
     // Session 请求（使用枚举）
@@ -159,13 +273,21 @@ export class WalletClient extends EventEmitter {
           timestamp: Date.now()
         };
         this.pendingRequests.set(request.id, pending);
-        this.emit(SessionEvent.REQUEST, pending);
+        this.handleRequest(pending);
+      }
+    });
+
+    // Dapp 取消了请求或请求已过期
+    this.sessionManager.on(SessionEvent.REQUEST_CANCELLED, (data: RequestCancelled) => {
+      console.log(`[WalletClient] Session request ${data.reason}:`, data.id);
+      if (this.pendingRequests.delete(data.id)) {
+        this.emit(SessionEvent.REQUEST_CANCELLED, data);
       }
     });
 
     // Session Ping（使用枚举）
-    this.sessionManager.on(SessionEvent.PING, (data: { topic: string; id: number }) => {
-      console.log('[WalletClient] Session ping received:', data.id);
+    this.sessionManager.on(SessionEvent.PING, (data: { topic: string }) => {
+      console.log('[WalletClient] Session ping received:', data.topic);
       this.emit(SessionEvent.PING, data);
     });
 
@@ -174,6 +296,12 @@ export class WalletClient extends EventEmitter {
       console.log('[WalletClient] Session event:', event.event.name);
       this.emit(SessionEvent.EVENT_RECEIVED, event);
     });
+
+    // 拒绝了 Dapp 的更新或延长
+    this.sessionManager.on(SessionEvent.CHANGE_REJECTED, (data: SessionChangeRejected) => {
+      console.warn('[WalletClient] Session change rejected:', data.method);
+      this.emit(SessionEvent.CHANGE_REJECTED, data);
+    });
   }
 
   /**
@@ -193,6 +321,8 @@ export class WalletClient extends EventEmitter {
 
   /**
    * 批准 Session 提案
+   *
+   * 未指定 accounts 的命名空间使用配置的账户（CAIP-10，每条链一个）
    */
   async approveSession(params: {
     proposalId: number;
@@ -211,7 +341,7 @@ export class WalletClient extends EventEmitter {
     // 批准 Session
     const session = await this.sessionManager.approve({
       proposalId: params.proposalId,
-      namespaces: params.namespaces,
+      namespaces: this.withAccounts(params.namespaces),
       relayProtocol: this.relay.getProtocol().protocol
     });
 
@@ -278,13 +408,13 @@ export class WalletClient extends EventEmitter {
 
   /**
    * 拒绝 Session 请求
+   *
+   * error.code 可以是 EIP-1193 / JSON-RPC 错误码或 SessionErrorCode（发送时转换为前者），
+   * code 和 data 会原样传给 Dapp
    */
   async rejectRequest(params: {
     requestId: number;
-    error: {
-      code: number;
-      message: string;
-    };
+    error: Reason;
   }): Promise<void> {
     this.ensureInitialized();
 
@@ -305,6 +435,32 @@ export class WalletClient extends EventEmitter {
     console.log('[WalletClient] Request rejected:', params.requestId);
   }
 
+  /**
+   * 注册方法处理器，收到该方法的请求时自动响应
+   */
+  registerMethod(
+    namespace: string,
+    method: string,
+    handler: MethodHandler,
+    options?: MethodHandlerOptions
+  ): void {
+    this.methods.register(namespace, method, handler, options);
+  }
+
+  /**
+   * 注销方法处理器
+   */
+  unregisterMethod(namespace: string, method: string): boolean {
+    return this.methods.unregister(namespace, method);
+  }
+
+  /**
+   * 获取已注册的方法，按命名空间分组
+   */
+  getRegisteredMethods(): Record<string, string[]> {
+    return this.methods.getMethods();
+  }
+
   /**
    * 更新 Session
    */
@@ -363,12 +519,8 @@ export class WalletClient extends EventEmitter {
       throw new Error(`Session not found: ${params.topic}`);
     }
 
-    // 发送事件
-    this.sessionManager.emit(params.event.name, {
-      topic: params.topic,
-      event: params.event,
-      chainId: params.chainId
-    });
+    // 通过 Session topic 发送事件
+    await this.sessionManager.emitEvent(params);
 
     console.log('[WalletClient] Event emitted:', params.event.name);
   }
@@ -404,7 +556,7 @@ export class WalletClient extends EventEmitter {
   /**
    * Ping Session
    */
-  async ping(topic: string): Promise<void> {
+  async ping(topic: string): Promise<number> {
     this.ensureInitialized();
 
     const session = this.activeSessions.get(topic);
@@ -412,7 +564,7 @@ export class WalletClient extends EventEmitter {
       throw new Error(`Session not found: ${topic}`);
     }
 
-    await this.sessionManager.ping(topic);
+    return this.sessionManager.ping(topic);
   }
 
   /**
@@ -430,9 +582,7 @@ export class WalletClient extends EventEmitter {
         if (namespace.chains) {
           updatedNamespaces[key] = {
             ...namespace,
-            accounts: namespace.chains.flatMap(chain =>
-              accounts.map(acc => `${chain}:${acc}`)
-            )
+            accounts: this.toAccounts(namespace.chains)
           };
         }
       }
@@ -525,6 +675,76 @@ export class WalletClient extends EventEmitter {
     return this.supportedNamespaces ? { ...this.supportedNamespaces } : undefined;
   }
 
+  /**
+   * 获取 Relay 连接状态
+   */
+  getConnectionState(): RelayConnectionState {
+    if (this.relay.getState) {
+      return this.relay.getState();
+    }
+    return this.relay.isConnected() ? RelayConnectionState.CONNECTED : RelayConnectionState.DISCONNECTED;
+  }
+
+  /**
+   * 交给注册的处理器自动响应，没有处理器时发出请求事件由应用处理
+   */
+  private async handleRequest(pending: PendingRequest): Promise<void> {
+    const { request } = pending;
+
+    let outcome: MethodOutcome | undefined;
+    try {
+      outcome = await this.methods.dispatch(request, pending.session);
+    } catch (error) {
+      outcome = {
+        error: {
+          code: SessionErrorCode.UNKNOWN_ERROR,
+          message: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+
+    if (!outcome) {
+      this.emit(SessionEvent.REQUEST, pending);
+      return;
+    }
+
+    // 处理期间请求已被取消或过期
+    if (!this.pendingRequests.delete(request.id)) {
+      return;
+    }
+
+    try {
+      await this.sessionManager.respond({ id: request.id, topic: request.topic, ...outcome });
+      console.log('[WalletClient] Request handled:', request.id, request.method);
+    } catch (error) {
+      console.error(`[WalletClient] Failed to respond request ${request.id}:`, error);
+    }
+  }
+
+  /**
+   * 为没有账户的命名空间填充配置的账户
+   */
+  private withAccounts(namespaces: SessionNamespaces): SessionNamespaces {
+    if (this.accounts.length === 0) {
+      return namespaces;
+    }
+
+    const result: SessionNamespaces = {};
+    for (const [key, namespace] of Object.entries(namespaces)) {
+      result[key] = namespace.accounts || !namespace.chains
+        ? namespace
+        : { ...namespace, accounts: this.toAccounts(namespace.chains) };
+    }
+    return result;
+  }
+
+  /**
+   * CAIP-10 账户：chainId:address
+   */
+  private toAccounts(chains: string[]): string[] {
+    return chains.flatMap(chain => this.accounts.map(account => `${chain}:${account}`));
+  }
+
   /**
    * 恢复活跃的 Sessions
    */
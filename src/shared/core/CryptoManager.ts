@@ -1,12 +1,21 @@
-import { ICryptoManager, KeyPair, EncryptedData } from '../types/crypto';
+import { ICryptoManager, IKeyChain, KeyPair, EncryptedData } from '../types/crypto';
 import { hexToBytes, bytesToHex } from '../utils/helpers';
+import { KeyChain } from '../store/KeyChain';
 
 /**
  * 浏览器环境加密实现
- * 使用 Web Crypto API
+ * 使用 Web Crypto API，密钥材料保存在密钥链中
  */
 export class CryptoManager implements ICryptoManager {
-  private keyPairs: Map<string, KeyPair> = new Map();
+  private keychain: IKeyChain;
+
+  // 密钥链 ID 前缀
+  private static readonly KEY_PAIR_PREFIX = 'keypair:';
+  private static readonly SYM_KEY_PREFIX = 'symkey:';
+
+  constructor(keychain?: IKeyChain) {
+    this.keychain = keychain || new KeyChain();
+  }
 
   /**
    * 生成随机对称密钥（用于初始 Pairing）
@@ -45,8 +54,8 @@ export class CryptoManager implements ICryptoManager {
       privateKey: bytesToHex(new Uint8Array(privateKey)),
     };
 
-    // 缓存密钥对
-    this.keyPairs.set(pair.publicKey, pair);
+    // 保存密钥对
+    await this.setKeyPair(pair.publicKey, pair);
 
     return pair;
   }
@@ -55,25 +64,25 @@ export class CryptoManager implements ICryptoManager {
    * 获取密钥对
    */
   async getKeyPair(publicKey: string): Promise<KeyPair> {
-    const keyPair = this.keyPairs.get(publicKey);
-    if (!keyPair) {
+    const stored = await this.keychain.get(CryptoManager.KEY_PAIR_PREFIX + publicKey);
+    if (!stored) {
       throw new Error(`Key pair not found for public key: ${publicKey}`);
     }
-    return keyPair;
+    return JSON.parse(stored);
   }
 
   /**
    * 设置密钥对
    */
   async setKeyPair(publicKey: string, keyPair: KeyPair): Promise<void> {
-    this.keyPairs.set(publicKey, keyPair);
+    await this.keychain.set(CryptoManager.KEY_PAIR_PREFIX + publicKey, JSON.stringify(keyPair));
   }
 
   /**
    * 删除密钥对
    */
   async deleteKeyPair(publicKey: string): Promise<void> {
-    this.keyPairs.delete(publicKey);
+    await this.keychain.delete(CryptoManager.KEY_PAIR_PREFIX + publicKey);
   }
 
   /**
@@ -122,6 +131,54 @@ export class CryptoManager implements ICryptoManager {
     return bytesToHex(new Uint8Array(exportedKey));
   }
 
+  /**
+   * 从共享密钥派生对称密钥
+   * 使用 HKDF-SHA256，info 用于区分不同用途的密钥
+   */
+  async deriveSymmetricKey(sharedKey: string, info: string): Promise<string> {
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      hexToBytes(sharedKey),
+      'HKDF',
+      false,
+      ['deriveBits']
+    );
+
+    const derived = await crypto.subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode(info),
+      },
+      keyMaterial,
+      256
+    );
+
+    return bytesToHex(new Uint8Array(derived));
+  }
+
+  /**
+   * 获取对称密钥
+   */
+  async getSymKey(topic: string): Promise<string | undefined> {
+    return this.keychain.get(CryptoManager.SYM_KEY_PREFIX + topic);
+  }
+
+  /**
+   * 设置对称密钥
+   */
+  async setSymKey(topic: string, symKey: string): Promise<void> {
+    await this.keychain.set(CryptoManager.SYM_KEY_PREFIX + topic, symKey);
+  }
+
+  /**
+   * 删除对称密钥
+   */
+  async deleteSymKey(topic: string): Promise<void> {
+    await this.keychain.delete(CryptoManager.SYM_KEY_PREFIX + topic);
+  }
+
   /**
    * 加密数据
    */
@@ -224,6 +281,8 @@ export class CryptoManager implements ICryptoManager {
    * 清理
    */
   clear(): void {
-    this.keyPairs.clear();
+    this.keychain.clear().catch(error => {
+      console.error('[CryptoManager] Failed to clear keychain:', error);
+    });
   }
 }
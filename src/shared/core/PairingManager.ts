@@ -10,17 +10,48 @@ import {
   PairingRejectParams,
   PairingDeleteParams,
   PairingUpdateParams,
+  PairingExtendParams,
+  PairingManagerOptions,
   IPairingManager,
   IPairingStore,
   AppMetadata,
   Participant,
+  PairingRejectedError,
 } from '../types/pairing';
 import { PairingStore } from '../store/PairingStore';
 import { PairingURIUtil } from '../utils/pairing-uri';
 import { IRelay, MessageCallback, RelayMessage, RelayProtocol } from '../types/relay';
 import { ICryptoManager } from '../types/crypto';
-import { PairingEvent, SessionEvent } from '../types/common';
-import { SessionMethod } from '../types/session';
+import {
+  ExpiringEvent,
+  HeartbeatOptions,
+  PairingEvent,
+  PeerLivenessEvent,
+  PongEvent,
+  SessionEvent
+} from '../types/common';
+import { SessionError, SessionErrorCode, SessionMethod } from '../types/session';
+import { openMessage, sealMessage } from '../utils/envelope';
+import { applyTransition, initialHistory, PAIRING_TRANSITIONS } from '../utils/lifecycle';
+import { ExpiryScheduler } from '../utils/expiry';
+import { HeartbeatMonitor } from '../utils/heartbeat';
+import {
+  JsonRpcErrorCode,
+  JsonRpcErrorObject,
+  JsonRpcPayload,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcValidationError
+} from '../types/jsonrpc';
+import {
+  formatJsonRpcError,
+  formatJsonRpcRequest,
+  formatJsonRpcResult,
+  getStandardError,
+  isJsonRpcError,
+  isJsonRpcResponse,
+  validateJsonRpcPayload
+} from '../utils/jsonrpc';
 
 /**
  * Pairing 管理器实现
@@ -48,23 +79,73 @@ export class PairingManager extends EventEmitter implements IPairingManager {
   // Topic 订阅回调映射
   private topicCallbacks: Map<string, MessageCallback> = new Map();
 
-  // 对称密钥存储（topic -> symKey）
-  private symKeys: Map<string, string> = new Map();
+  // 等待响应的请求（按 JSON-RPC id）
+  private pendingResponses: Map<number, {
+    topic: string;
+    method: string;
+    timeout: NodeJS.Timeout;
+    sentAt: number;
+    resolve?: (result: any) => void;
+    reject?: (error: Error) => void;
+  }> = new Map();
+
+  // 最近发布的 payload，用于忽略 relay 回传给自己的消息
+  private publishedPayloads: Set<string> = new Set();
+
+  // 过期调度和最近活动时间（topic -> 毫秒时间戳）
+  private expiryScheduler: ExpiryScheduler;
+  private lastActivity: Map<string, number> = new Map();
+  private options: PairingManagerOptions;
+
+  // 心跳和对方响应状态
+  private heartbeat: HeartbeatMonitor;
 
   // 默认配置
   private static readonly DEFAULT_EXPIRY = 30 * 24 * 60 * 60; // 30 天
   private static readonly APPROVAL_TIMEOUT = 5 * 60 * 1000; // 5 分钟
-  private static readonly EXPIRY_CHECK_INTERVAL = 60 * 60 * 1000; // 1 小时
+  private static readonly EXPIRY_WARNING = 60 * 60; // 1 小时
+  private static readonly ACTIVITY_WINDOW = 60 * 60; // 1 小时
+  private static readonly RESPONSE_TIMEOUT = 30 * 1000; // 30 秒
+  private static readonly PING_TIMEOUT = 10 * 1000; // 10 秒
+  private static readonly MAX_PUBLISHED_PAYLOADS = 100;
   private static readonly DEFAULT_RELAY: RelayProtocol = {
     protocol: 'irn'
   };
 
-  constructor(relay: IRelay, appMetadata: AppMetadata, cryptoManager: ICryptoManager, store?: IPairingStore) {
+  constructor(
+    relay: IRelay,
+    appMetadata: AppMetadata,
+    cryptoManager: ICryptoManager,
+    store?: IPairingStore,
+    options?: PairingManagerOptions
+  ) {
     super();
     this.cryptoManager = cryptoManager;
     this.relay = relay;
     this.appMetadata = appMetadata;
     this.store = store || new PairingStore();
+    this.options = options || {};
+    this.expiryScheduler = new ExpiryScheduler({
+      onExpire: topic => this.handleExpiry(topic).catch(error => {
+        console.error('[PairingManager] Failed to expire pairing:', error);
+      }),
+      onExpiring: (topic, expiry) => this.handleExpiring(topic, expiry).catch(error => {
+        console.error('[PairingManager] Failed to handle expiring pairing:', error);
+      })
+    }, this.options.expiryWarning ?? PairingManager.EXPIRY_WARNING);
+    this.heartbeat = new HeartbeatMonitor({
+      ping: (topic, timeout) => this.ping(topic, timeout),
+      onUnresponsive: (topic, missed) => {
+        console.warn(`[PairingManager] Peer unresponsive after ${missed} missed pings: ${topic}`);
+        const event: PeerLivenessEvent = { topic, missed };
+        this.emit(PairingEvent.PEER_UNRESPONSIVE, event);
+      },
+      onResponsive: (topic, missed, latency) => {
+        console.log(`[PairingManager] Peer responsive again: ${topic}`);
+        const event: PeerLivenessEvent = { topic, missed, latency };
+        this.emit(PairingEvent.PEER_RESPONSIVE, event);
+      }
+    });
   }
 
   /**
@@ -82,12 +163,9 @@ export class PairingManager extends EventEmitter implements IPairingManager {
         await this.relay.start();
       }
 
-      // 恢复待处理的 Pairing
+      // 恢复待处理的 Pairing（并调度过期）
       await this.restorePendingPairings();
 
-      // 启动过期检查定时器
-      this.startExpiryTimer();
-
       this.initialized = true;
       console.log('[PairingManager] Initialized');
     } catch (error) {
@@ -105,6 +183,22 @@ export class PairingManager extends EventEmitter implements IPairingManager {
     }
   }
 
+  /**
+   * 确保 URI 中的本机 relay（BroadcastChannel / postMessage）与当前 relay 一致
+   * 本机 relay 无法跨协议或跨频道转发，不一致时配对消息永远不会到达
+   */
+  private ensureRelayCompatible(relay: RelayProtocol): void {
+    const localProtocols = ['broadcastchannel', 'postmessage'];
+    if (!localProtocols.includes(relay.protocol)) {
+      return;
+    }
+
+    const own = this.relay.getProtocol();
+    if (own.protocol !== relay.protocol || (relay.data && own.data !== relay.data)) {
+      throw new Error(`Relay protocol mismatch: expected ${relay.protocol}, got ${own.protocol}`);
+    }
+  }
+
   /**
    * 创建新的 Pairing（DApp 端使用）
    */
@@ -137,6 +231,7 @@ export class PairingManager extends EventEmitter implements IPairingManager {
           appMetadata: undefined
         },
         status: PairingStatus.PENDING,
+        history: initialHistory(PairingStatus.PENDING),
         expiry,
         createdAt: Date.now(),
         updatedAt: Date.now(),
@@ -145,9 +240,10 @@ export class PairingManager extends EventEmitter implements IPairingManager {
 
       // 保存到存储
       await this.store.set(topic, pairing);
+      this.expiryScheduler.schedule(topic, expiry);
 
-      // 保存对称密钥
-      this.symKeys.set(topic, symKey);
+      // 保存对称密钥到密钥链
+      await this.cryptoManager.setSymKey(topic, symKey);
 
       // 订阅 topic
       await this.subscribe(topic);
@@ -165,8 +261,10 @@ export class PairingManager extends EventEmitter implements IPairingManager {
         const timeout = setTimeout(() => {
           if (this.pendingApprovals.has(topic)) {
             this.pendingApprovals.delete(topic);
-            this.cleanupPairing(topic, 'Approval timeout');
-            reject(new Error('Pairing approval timeout'));
+            this.endPairing(topic, PairingStatus.EXPIRED, 'Approval timeout').catch(error => {
+              console.error('[PairingManager] Failed to expire pairing:', error);
+            });
+            reject(new SessionError(SessionErrorCode.RESPONSE_TIMEOUT, 'Pairing approval timeout'));
           }
         }, PairingManager.APPROVAL_TIMEOUT);
 
@@ -174,7 +272,7 @@ export class PairingManager extends EventEmitter implements IPairingManager {
       });
 
       // 发送创建事件
-      this.emit(PairingEvent.CREATED, pairing);
+      this.emitStatusChange(pairing);
 
       console.log(`[PairingManager] Created: ${topic}`);
 
@@ -197,6 +295,7 @@ export class PairingManager extends EventEmitter implements IPairingManager {
     this.ensureInitialized();
     // 解析 URI
     const parsed = PairingURIUtil.decode(params.uri);
+    this.ensureRelayCompatible(parsed.relay);
     // 检查是否已存在
     const existing = await this.store.get(parsed.topic);
     if (existing) {
@@ -207,8 +306,8 @@ export class PairingManager extends EventEmitter implements IPairingManager {
       // 生成密钥对
       const { publicKey, privateKey } = await this.cryptoManager.generateKeyPair();
 
-      // 保存对称密钥
-      this.symKeys.set(parsed.topic, parsed.symKey);
+      // 保存对称密钥到密钥链
+      await this.cryptoManager.setSymKey(parsed.topic, parsed.symKey);
 
       // 订阅 topic
       await this.subscribe(parsed.topic);
@@ -230,6 +329,7 @@ export class PairingManager extends EventEmitter implements IPairingManager {
           appMetadata: undefined
         },
         status: PairingStatus.ACTIVE,
+        history: initialHistory(PairingStatus.ACTIVE),
         expiry,
         createdAt: Date.now(),
         updatedAt: Date.now(),
@@ -238,6 +338,8 @@ export class PairingManager extends EventEmitter implements IPairingManager {
 
       // 保存到存储
       await this.store.set(parsed.topic, pairing);
+      this.expiryScheduler.schedule(parsed.topic, expiry);
+      this.startConfiguredHeartbeat(parsed.topic);
 
       // 发送 approve 消息
       const approveParams: PairingApproveParams = {
@@ -252,13 +354,10 @@ export class PairingManager extends EventEmitter implements IPairingManager {
         }
       };
 
-      await this.publishMessage(parsed.topic, {
-        method: PairingMethod.APPROVE,
-        params: approveParams
-      });
+      await this.sendRequest(parsed.topic, PairingMethod.APPROVE, approveParams);
 
-      // 发送批准事件
-      this.emit(PairingEvent.ACTIVATED, pairing);
+      // 发送激活事件
+      this.emitStatusChange(pairing);
 
       console.log(`[PairingManager] Activated: ${parsed.topic}`);
 
@@ -288,12 +387,13 @@ export class PairingManager extends EventEmitter implements IPairingManager {
 
       // 更新 Pairing
       pairing.peer = params.responder;
-      pairing.status = PairingStatus.ACTIVE;
       pairing.expiry = params.expiry;
-      pairing.updatedAt = Date.now();
+      this.transition(pairing, PairingStatus.ACTIVE);
 
       // 保存更新
       await this.store.set(topic, pairing);
+      this.expiryScheduler.schedule(topic, pairing.expiry);
+      this.startConfiguredHeartbeat(topic);
 
       // 解决等待的 Promise
       const pending = this.pendingApprovals.get(topic);
@@ -304,7 +404,7 @@ export class PairingManager extends EventEmitter implements IPairingManager {
       }
 
       // 发送批准事件
-      this.emit(PairingEvent.APPROVED, pairing);
+      this.emitStatusChange(pairing);
 
       console.log(`[PairingManager] Approved: ${topic}`);
     } catch (error) {
@@ -334,24 +434,18 @@ export class PairingManager extends EventEmitter implements IPairingManager {
         }
       };
 
-      await this.publishMessage(topic, {
-        method: PairingMethod.REJECT,
-        params: rejectParams
-      });
-
-      // 清理 Pairing
-      await this.cleanupPairing(topic, reason);
+      await this.sendRequest(topic, PairingMethod.REJECT, rejectParams);
 
       // 拒绝等待的 Promise
       const pending = this.pendingApprovals.get(topic);
       if (pending) {
         clearTimeout(pending.timeout);
-        pending.reject(new Error(reason));
+        pending.reject(new PairingRejectedError(rejectParams.reason));
         this.pendingApprovals.delete(topic);
       }
 
-      // 发送拒绝事件
-      this.emit(PairingEvent.REJECTED, { topic, reason });
+      // 清理 Pairing 并发送拒绝事件
+      await this.endPairing(topic, PairingStatus.REJECTED, reason);
 
       console.log(`[PairingManager] Rejected: ${topic}`);
     } catch (error) {
@@ -382,20 +476,14 @@ export class PairingManager extends EventEmitter implements IPairingManager {
       };
 
       try {
-        await this.publishMessage(topic, {
-          method: PairingMethod.DELETE,
-          params: deleteParams
-        });
+        await this.sendRequest(topic, PairingMethod.DELETE, deleteParams);
       } catch (error) {
         // 忽略发送失败（对方可能已离线）
         console.warn('[PairingManager] Failed to send delete message:', error);
       }
 
-      // 清理 Pairing
-      await this.cleanupPairing(topic, reason);
-
-      // 发送删除事件
-      this.emit(PairingEvent.DELETED, { topic, reason });
+      // 清理 Pairing 并发送删除事件
+      await this.endPairing(topic, PairingStatus.DELETED, reason);
 
       console.log(`[PairingManager] Deleted: ${topic}`);
     } catch (error) {
@@ -433,10 +521,7 @@ export class PairingManager extends EventEmitter implements IPairingManager {
         appMetadata
       };
 
-      await this.publishMessage(topic, {
-        method: PairingMethod.UPDATE,
-        params: updateParams
-      });
+      await this.sendRequest(topic, PairingMethod.UPDATE, updateParams);
 
       // 发送更新事件
       this.emit(PairingEvent.UPDATED, pairing);
@@ -465,10 +550,7 @@ export class PairingManager extends EventEmitter implements IPairingManager {
       }
 
       // 发送消息
-      await this.publishMessage(topic, {
-        method: method,
-        params: params,
-      });
+      await this.sendRequest(topic, method, params);
 
       console.log(`[PairingManager] Sent ${method} ${params.proposalId} on pairing: ${topic}`);
     } catch (error) {
@@ -478,33 +560,83 @@ export class PairingManager extends EventEmitter implements IPairingManager {
   }
 
   /**
-   * 发送 ping
+   * 延长 Pairing 过期时间（不超过默认有效期）
    */
-  async ping(topic: string): Promise<void> {
+  async extend(topic: string, expiry?: number): Promise<void> {
     this.ensureInitialized();
 
-    try {
-      // 获取 Pairing
-      const pairing = await this.store.get(topic);
-      if (!pairing) {
-        throw new Error('Pairing not found');
-      }
+    const pairing = await this.store.get(topic);
+    if (!pairing) {
+      throw new Error('Pairing not found');
+    }
 
-      if (pairing.status !== PairingStatus.ACTIVE) {
-        throw new Error('Pairing is not active');
-      }
+    if (pairing.status !== PairingStatus.ACTIVE) {
+      throw new Error('Pairing is not active');
+    }
 
-      // 发送 ping 消息
-      await this.publishMessage(topic, {
-        method: PairingMethod.PING,
-        params: {}
-      });
+    pairing.expiry = this.capExpiry(pairing, expiry ?? this.maxExpiry());
+    pairing.updatedAt = Date.now();
+    await this.store.set(topic, pairing);
+    this.expiryScheduler.schedule(topic, pairing.expiry);
 
-      console.log(`[PairingManager] Sent ping: ${topic}`);
-    } catch (error) {
-      console.error('[PairingManager] Failed to ping:', error);
-      throw error;
+    const extendParams: PairingExtendParams = {
+      expiry: pairing.expiry
+    };
+    await this.sendRequest(topic, PairingMethod.EXTEND, extendParams);
+
+    this.emit(PairingEvent.EXTENDED, pairing);
+    console.log(`[PairingManager] Extended: ${topic}`);
+  }
+
+  /**
+   * 发送 ping
+   *
+   * @param timeout - 等待 pong 的超时（毫秒）
+   * @returns 往返时间（毫秒）
+   */
+  async ping(topic: string, timeout: number = PairingManager.PING_TIMEOUT): Promise<number> {
+    this.ensureInitialized();
+
+    // 获取 Pairing
+    const pairing = await this.store.get(topic);
+    if (!pairing) {
+      throw new Error('Pairing not found');
     }
+
+    if (pairing.status !== PairingStatus.ACTIVE) {
+      throw new Error('Pairing is not active');
+    }
+
+    // 发送 ping 消息，等待 pong（JSON-RPC 响应）
+    const request = formatJsonRpcRequest(PairingMethod.PING, {});
+    return new Promise<number>((resolve, reject) => {
+      this.trackResponse(request.id, topic, PairingMethod.PING, { resolve, reject, timeout });
+      this.publishMessage(topic, request)
+        .then(() => console.log(`[PairingManager] Sent ping: ${topic}`))
+        .catch(error => {
+          console.error('[PairingManager] Failed to ping:', error);
+          this.untrackResponse(request.id);
+          reject(error);
+        });
+    });
+  }
+
+  /**
+   * 为 Pairing 启动心跳，连续多次未响应时发出 PEER_UNRESPONSIVE
+   */
+  startHeartbeat(topic: string, options?: HeartbeatOptions): void {
+    this.heartbeat.start(topic, options ?? this.options.heartbeat);
+  }
+
+  stopHeartbeat(topic: string): void {
+    this.heartbeat.stop(topic);
+  }
+
+  /**
+   * 对方是否仍在响应（未连续多次错过 pong）
+   */
+  isPeerResponsive(topic: string): boolean {
+    return this.heartbeat.isResponsive(topic);
   }
 
   /**
@@ -564,18 +696,86 @@ export class PairingManager extends EventEmitter implements IPairingManager {
     }
   }
 
+  /**
+   * 发送 JSON-RPC 请求
+   *
+   * @returns 请求 id
+   */
+  private async sendRequest(topic: string, method: string, params: any): Promise<number> {
+    const request = formatJsonRpcRequest(method, params);
+    await this.publishMessage(topic, request);
+    return request.id;
+  }
+
+  /**
+   * 发送 JSON-RPC 成功响应
+   */
+  private async sendResult(topic: string, id: number, result: any): Promise<void> {
+    await this.publishMessage(topic, formatJsonRpcResult(id, result));
+  }
+
+  /**
+   * 发送 JSON-RPC 错误响应
+   */
+  private async sendError(topic: string, id: number, error: JsonRpcErrorObject): Promise<void> {
+    await this.publishMessage(topic, formatJsonRpcError(id, error));
+  }
+
+  /**
+   * 记录等待响应的请求，超时后丢弃
+   *
+   * @param waiter - 需要等待响应结果时传入，超时后拒绝
+   */
+  private trackResponse(
+    id: number,
+    topic: string,
+    method: string,
+    waiter?: { resolve: (result: any) => void; reject: (error: Error) => void; timeout: number }
+  ): void {
+    const timeout = setTimeout(() => {
+      this.pendingResponses.delete(id);
+      if (method === PairingMethod.PING) {
+        this.heartbeat.recordMiss(topic);
+      }
+      waiter?.reject(new Error(`No response to ${method} on ${topic}`));
+    }, waiter?.timeout ?? PairingManager.RESPONSE_TIMEOUT);
+    this.pendingResponses.set(id, {
+      topic,
+      method,
+      timeout,
+      sentAt: Date.now(),
+      resolve: waiter?.resolve,
+      reject: waiter?.reject
+    });
+  }
+
+  private untrackResponse(id: number): void {
+    const pending = this.pendingResponses.get(id);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pendingResponses.delete(id);
+    }
+  }
+
   /**
    * 发布消息到 topic
    */
-  private async publishMessage(topic: string, message: any): Promise<void> {
+  private async publishMessage(topic: string, message: JsonRpcPayload): Promise<void> {
     try {
-      // 序列化消息
-      const payload = JSON.stringify(message);
+      const symKey = await this.cryptoManager.getSymKey(topic);
+      if (!symKey) {
+        throw new Error(`SymKey not found for topic: ${topic}`);
+      }
+
+      // 使用 pairing 对称密钥加密消息
+      const payload = await sealMessage(this.cryptoManager, symKey, message);
 
       // 发布消息
+      this.rememberPayload(payload);
       await this.relay.publish(topic, payload);
+      this.lastActivity.set(topic, Date.now());
 
-      console.log(`[PairingManager] Published message to ${topic}:`, message.method);
+      console.log(`[PairingManager] Published message to ${topic}:`, 'method' in message ? message.method : message.id);
     } catch (error) {
       console.error(`[PairingManager] Failed to publish message to ${topic}:`, error);
       throw error;
@@ -586,10 +786,12 @@ export class PairingManager extends EventEmitter implements IPairingManager {
    * 处理中继消息
    */
   private async handleRelayMessage(topic: string, payload: string): Promise<void> {
-    try {
-      // 解析消息
-      const message = JSON.parse(payload);
+    // 忽略 relay 回传的自己发出的消息
+    if (this.publishedPayloads.has(payload)) {
+      return;
+    }
 
+    try {
       // 获取 Pairing
       const pairing = await this.store.get(topic);
       if (!pairing) {
@@ -597,7 +799,41 @@ export class PairingManager extends EventEmitter implements IPairingManager {
         return;
       }
 
-      console.log(`[PairingManager] Received message on ${topic}:`, message.method);
+      const symKey = await this.cryptoManager.getSymKey(topic);
+      if (!symKey) {
+        console.warn(`[PairingManager] Dropped message on ${topic}: symKey not found`);
+        return;
+      }
+
+      // 解密消息，认证失败的消息直接丢弃
+      let message: any;
+      try {
+        message = await openMessage(this.cryptoManager, symKey, payload);
+      } catch (error) {
+        console.warn(`[PairingManager] Rejected message on ${topic}:`, error);
+        return;
+      }
+      this.lastActivity.set(topic, Date.now());
+
+      // 校验 JSON-RPC 格式，格式错误的请求回复错误响应
+      let rpc: JsonRpcPayload;
+      try {
+        rpc = validateJsonRpcPayload(message);
+        if (!isJsonRpcResponse(rpc)) {
+          this.validateParams(rpc);
+        }
+      } catch (error) {
+        await this.rejectInvalidMessage(topic, error);
+        return;
+      }
+
+      if (isJsonRpcResponse(rpc)) {
+        await this.handleResponse(topic, rpc);
+        return;
+      }
+
+      console.log(`[PairingManager] Received message on ${topic}:`, rpc.method);
+      message = rpc;
 
       // 根据方法分发处理
       switch (message.method) {
@@ -618,7 +854,11 @@ export class PairingManager extends EventEmitter implements IPairingManager {
           break;
 
         case PairingMethod.PING:
-          await this.handlePing(topic, message.params);
+          await this.handlePing(topic, message.id);
+          break;
+
+        case PairingMethod.EXTEND:
+          await this.handleExtend(topic, message.id, message.params);
           break;
 
         // Session 消息
@@ -634,12 +874,12 @@ export class PairingManager extends EventEmitter implements IPairingManager {
           await this.handleSessionReject(topic, message.params);
           break;
 
-        case PairingEvent.PONG:
-          await this.handlePong(topic, message.params);
-          break;
-
         default:
           console.warn(`[PairingManager] Unknown method: ${message.method}`);
+          await this.sendError(topic, message.id, getStandardError(
+            JsonRpcErrorCode.METHOD_NOT_FOUND,
+            `Unknown method: ${message.method}`
+          ));
       }
     } catch (error) {
       console.error('[PairingManager] Failed to handle relay message:', error);
@@ -669,22 +909,16 @@ export class PairingManager extends EventEmitter implements IPairingManager {
       return;
     }
 
-    // 清理 Pairing
-    await this.cleanupPairing(topic, params.reason.message);
-
     // 拒绝等待的 Promise
     const pending = this.pendingApprovals.get(topic);
     if (pending) {
       clearTimeout(pending.timeout);
-      pending.reject(new Error(params.reason.message));
+      pending.reject(new PairingRejectedError(params.reason));
       this.pendingApprovals.delete(topic);
     }
 
-    // 发送拒绝事件
-    this.emit(PairingEvent.REJECTED, {
-      topic,
-      reason: params.reason.message
-    });
+    // 清理 Pairing 并发送拒绝事件
+    await this.endPairing(topic, PairingStatus.REJECTED, params.reason.message);
 
     console.log(`[PairingManager] Received reject: ${topic}`);
   }
@@ -724,34 +958,54 @@ export class PairingManager extends EventEmitter implements IPairingManager {
     topic: string,
     params: PairingDeleteParams
   ): Promise<void> {
-    // 清理 Pairing
-    await this.cleanupPairing(topic, params.reason.message);
-
-    // 发送删除事件
-    this.emit(PairingEvent.DELETED, {
-      topic,
-      reason: params.reason.message
-    });
+    // 清理 Pairing 并发送删除事件
+    await this.endPairing(topic, PairingStatus.DELETED, params.reason.message);
 
     console.log(`[PairingManager] Received delete: ${topic}`);
   }
 
+  /**
+   * 处理 extend 消息
+   */
+  private async handleExtend(topic: string, id: number, params: PairingExtendParams): Promise<void> {
+    const pairing = await this.store.get(topic);
+    if (!pairing || pairing.status !== PairingStatus.ACTIVE) {
+      await this.sendError(topic, id, getStandardError(JsonRpcErrorCode.INVALID_REQUEST, 'Pairing is not active'));
+      return;
+    }
+
+    let expiry: number;
+    try {
+      expiry = this.capExpiry(pairing, params.expiry);
+    } catch (error: any) {
+      await this.sendError(topic, id, getStandardError(JsonRpcErrorCode.INVALID_PARAMS, error.message));
+      return;
+    }
+
+    pairing.expiry = expiry;
+    pairing.updatedAt = Date.now();
+    await this.store.set(topic, pairing);
+    this.expiryScheduler.schedule(topic, expiry);
+    await this.sendResult(topic, id, true);
+
+    this.emit(PairingEvent.EXTENDED, pairing);
+    console.log(`[PairingManager] Received extend: ${topic}`);
+  }
+
   /**
    * 处理 ping 消息
    */
-  private async handlePing(topic: string, params: any): Promise<void> {
+  private async handlePing(topic: string, id: number): Promise<void> {
     // 获取 Pairing
     const pairing = await this.store.get(topic);
     if (!pairing) {
       return;
     }
 
-    // 发送 pong 响应
-    await this.publishMessage(topic, {
-      method: 'pairing_pong',
-      params: {}
-    });
+    // pong 即 ping 请求的成功响应
+    await this.sendResult(topic, id, true);
 
+    this.emit(PairingEvent.PING, { topic });
     console.log(`[PairingManager] Received ping: ${topic}`);
   }
 
@@ -780,10 +1034,150 @@ export class PairingManager extends EventEmitter implements IPairingManager {
   }
 
   /**
-   * 处理 pong 消息
+   * 处理 JSON-RPC 响应
+   */
+  private async handleResponse(topic: string, response: JsonRpcResponse): Promise<void> {
+    const pending = this.pendingResponses.get(response.id);
+    if (!pending || pending.topic !== topic) {
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pendingResponses.delete(response.id);
+
+    if (isJsonRpcError(response)) {
+      console.warn(`[PairingManager] ${pending.method} failed on ${topic}:`, response.error);
+      pending.reject?.(new Error(response.error.message));
+      return;
+    }
+
+    if (pending.method === PairingMethod.PING) {
+      const latency = Date.now() - pending.sentAt;
+      console.log(`[PairingManager] Received pong in ${latency}ms: ${topic}`);
+      this.heartbeat.recordPong(topic, latency);
+      const event: PongEvent = { topic, latency };
+      this.emit(PairingEvent.PONG, event);
+      pending.resolve?.(latency);
+    }
+  }
+
+  /**
+   * 校验已知方法的参数
+   */
+  private validateParams(request: JsonRpcRequest): void {
+    const params = request.params;
+    let valid = true;
+
+    switch (request.method) {
+      case PairingMethod.APPROVE:
+        valid = typeof params?.responder?.publicKey === 'string' && typeof params?.expiry === 'number';
+        break;
+
+      case PairingMethod.REJECT:
+      case PairingMethod.DELETE:
+        valid = typeof params?.reason?.message === 'string';
+        break;
+
+      case PairingMethod.UPDATE:
+        valid = !!params?.appMetadata;
+        break;
+
+      case PairingMethod.EXTEND:
+        valid = typeof params?.expiry === 'number';
+        break;
+
+      case SessionMethod.PROPOSE:
+      case SessionMethod.SETTLE:
+      case SessionMethod.REJECT:
+        valid = typeof params?.proposalId === 'number';
+        break;
+    }
+
+    if (!valid) {
+      throw new JsonRpcValidationError(
+        JsonRpcErrorCode.INVALID_PARAMS,
+        `Invalid params for ${request.method}`,
+        request.id
+      );
+    }
+  }
+
+  /**
+   * 拒绝格式错误的消息：能识别请求 id 时回复错误响应，格式错误的响应只记录后丢弃
+   */
+  private async rejectInvalidMessage(topic: string, error: unknown): Promise<void> {
+    console.warn(`[PairingManager] Invalid message on ${topic}:`, error);
+
+    if (error instanceof JsonRpcValidationError && error.id !== undefined) {
+      await this.sendError(topic, error.id, getStandardError(error.code, error.message));
+    }
+  }
+
+  /**
+   * 记录发布的 payload
+   */
+  private rememberPayload(payload: string): void {
+    this.publishedPayloads.add(payload);
+    if (this.publishedPayloads.size > PairingManager.MAX_PUBLISHED_PAYLOADS) {
+      this.publishedPayloads.delete(this.publishedPayloads.values().next().value!);
+    }
+  }
+
+  /**
+   * 执行 Pairing 状态转换，非法转换抛出 InvalidTransitionError
    */
-  private async handlePong(topic: string, params: any): Promise<void> {
-    console.log(`[PairingManager] Received pong: ${topic}`);
+  private transition(pairing: Pairing, to: PairingStatus, reason?: string): void {
+    applyTransition('pairing', PAIRING_TRANSITIONS, pairing, to, reason);
+  }
+
+  /**
+   * 每次状态变更发出且只发出一个事件
+   */
+  private emitStatusChange(pairing: Pairing, reason?: string): void {
+    switch (pairing.status) {
+      case PairingStatus.PENDING:
+        this.emit(PairingEvent.CREATED, pairing);
+        break;
+
+      case PairingStatus.ACTIVE:
+        this.emit(pairing.initiator ? PairingEvent.APPROVED : PairingEvent.ACTIVATED, pairing);
+        break;
+
+      case PairingStatus.REJECTED:
+        this.emit(PairingEvent.REJECTED, { topic: pairing.topic, reason, pairing });
+        break;
+
+      case PairingStatus.DELETED:
+        this.emit(PairingEvent.DELETED, { topic: pairing.topic, reason, pairing });
+        break;
+
+      case PairingStatus.EXPIRED:
+        this.emit(PairingEvent.EXPIRED, { topic: pairing.topic, reason, pairing });
+        break;
+    }
+  }
+
+  /**
+   * 结束 Pairing：转换到终止状态、清理资源并发出对应事件
+   */
+  private async endPairing(topic: string, status: PairingStatus, reason: string): Promise<void> {
+    const pairing = await this.store.get(topic);
+    if (!pairing) {
+      return;
+    }
+
+    this.transition(pairing, status, reason);
+
+    // 仍在等待批准时一并拒绝（如删除待批准的 Pairing）
+    const pending = this.pendingApprovals.get(topic);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      pending.reject(new Error(reason));
+      this.pendingApprovals.delete(topic);
+    }
+
+    await this.cleanupPairing(topic, reason);
+    this.emitStatusChange(pairing, reason);
   }
 
   /**
@@ -791,14 +1185,22 @@ export class PairingManager extends EventEmitter implements IPairingManager {
    */
   private async cleanupPairing(topic: string, reason: string): Promise<void> {
     try {
-      // 删除存储
+      const pairing = await this.store.get(topic);
+
+      // 删除存储并取消过期调度
       await this.store.delete(topic);
+      this.expiryScheduler.cancel(topic);
+      this.lastActivity.delete(topic);
+      this.heartbeat.stop(topic);
 
       // 取消订阅
       await this.unsubscribe(topic);
 
-      // 删除对称密钥
-      this.symKeys.delete(topic);
+      // 删除密钥材料
+      await this.cryptoManager.deleteSymKey(topic);
+      if (pairing?.self.publicKey) {
+        await this.cryptoManager.deleteKeyPair(pairing.self.publicKey);
+      }
 
       console.log(`[PairingManager] Cleaned up pairing: ${topic}, reason: ${reason}`);
     } catch (error) {
@@ -816,23 +1218,25 @@ export class PairingManager extends EventEmitter implements IPairingManager {
       for (const pairing of pairings) {
         // 检查是否过期
         if (this.isExpired(pairing)) {
-          await this.cleanupPairing(pairing.topic, 'Expired');
+          await this.endPairing(pairing.topic, PairingStatus.EXPIRED, 'Expired');
           continue;
         }
 
-        // 重新订阅活跃的 Pairing
-        if (pairing.status === PairingStatus.ACTIVE) {
-          // 注意：这里需要从安全存储中恢复 symKey
-          // 实际实现中，symKey 应该被持久化存储
-          // 这里假设 symKey 已经在 this.symKeys 中
-          const symKey = this.symKeys.get(pairing.topic);
+        // 重新订阅活跃和待批准的 Pairing
+        if (pairing.status === PairingStatus.ACTIVE || pairing.status === PairingStatus.PENDING) {
+          // 从密钥链恢复 symKey
+          const symKey = await this.cryptoManager.getSymKey(pairing.topic);
           if (symKey) {
             await this.subscribe(pairing.topic);
+            this.expiryScheduler.schedule(pairing.topic, pairing.expiry);
+            if (pairing.status === PairingStatus.ACTIVE) {
+              this.startConfiguredHeartbeat(pairing.topic);
+            }
             console.log(`[PairingManager] Restored: ${pairing.topic}`);
           } else {
             console.warn(`[PairingManager] Cannot restore ${pairing.topic}: symKey not found`);
             // 如果找不到 symKey，删除这个 pairing
-            await this.cleanupPairing(pairing.topic, 'SymKey not found');
+            await this.endPairing(pairing.topic, PairingStatus.DELETED, 'SymKey not found');
           }
         }
       }
@@ -844,43 +1248,71 @@ export class PairingManager extends EventEmitter implements IPairingManager {
   }
 
   /**
-   * 启动过期检查定时器
+   * 到期回调：确认仍已过期后结束 Pairing
    */
-  private expiryTimer?: NodeJS.Timeout;
+  private async handleExpiry(topic: string): Promise<void> {
+    const pairing = await this.store.get(topic);
+    if (!pairing) {
+      return;
+    }
 
-  private startExpiryTimer(): void {
-    // 清除现有定时器
-    if (this.expiryTimer) {
-      clearInterval(this.expiryTimer);
+    if (!this.isExpired(pairing)) {
+      this.expiryScheduler.schedule(topic, pairing.expiry);
+      return;
     }
 
-    // 每小时检查一次
-    this.expiryTimer = setInterval(async () => {
-      try {
-        const pairings = await this.store.getAll();
+    await this.endPairing(topic, PairingStatus.EXPIRED, 'Expired');
+  }
 
-        for (const pairing of pairings) {
-          if (this.isExpired(pairing)) {
-            await this.delete(pairing.topic, 'Expired');
-          }
-        }
+  /**
+   * 即将过期：开启自动续期且近期有活动时续期，否则发出提醒
+   */
+  private async handleExpiring(topic: string, expiry: number): Promise<void> {
+    const pairing = await this.store.get(topic);
+    if (!pairing || pairing.status !== PairingStatus.ACTIVE) {
+      return;
+    }
+
+    if (this.options.autoExtend && this.isRecentlyActive(topic)) {
+      try {
+        await this.extend(topic);
+        return;
       } catch (error) {
-        console.error('[PairingManager] Failed to check expiry:', error);
+        console.warn(`[PairingManager] Auto extend failed for ${topic}:`, error);
       }
-    }, PairingManager.EXPIRY_CHECK_INTERVAL);
+    }
+
+    const event: ExpiringEvent = { topic, expiry };
+    this.emit(PairingEvent.EXPIRING, event);
+  }
+
+  /**
+   * 配置了心跳时为活跃的 Pairing 启动心跳
+   */
+  private startConfiguredHeartbeat(topic: string): void {
+    if (this.options.heartbeat) {
+      this.heartbeat.start(topic, this.options.heartbeat);
+    }
+  }
 
-    console.log('[PairingManager] Started expiry timer');
+  private isRecentlyActive(topic: string): boolean {
+    const window = this.options.activityWindow ?? PairingManager.ACTIVITY_WINDOW;
+    const last = this.lastActivity.get(topic);
+    return last !== undefined && Date.now() - last <= window * 1000;
+  }
+
+  private maxExpiry(): number {
+    return Math.floor(Date.now() / 1000) + PairingManager.DEFAULT_EXPIRY;
   }
 
   /**
-   * 停止过期检查定时器
+   * 校验延长后的过期时间，超过默认有效期时截断
    */
-  private stopExpiryTimer(): void {
-    if (this.expiryTimer) {
-      clearInterval(this.expiryTimer);
-      this.expiryTimer = undefined;
-      console.log('[PairingManager] Stopped expiry timer');
+  private capExpiry(pairing: Pairing, expiry: number): number {
+    if (expiry < pairing.expiry) {
+      throw new Error(`Expiry must not be earlier than the current expiry: ${expiry}`);
     }
+    return Math.min(expiry, this.maxExpiry());
   }
 
   /**
@@ -898,8 +1330,8 @@ export class PairingManager extends EventEmitter implements IPairingManager {
     try {
       console.log('[PairingManager] Destroying...');
 
-      // 停止过期检查定时器
-      this.stopExpiryTimer();
+      // 取消过期调度
+      this.expiryScheduler.clear();
 
       // 删除所有 Pairing
       const pairings = await this.store.getAll();
@@ -919,8 +1351,13 @@ export class PairingManager extends EventEmitter implements IPairingManager {
       }
       this.pendingApprovals.clear();
 
-      // 清空对称密钥
-      this.symKeys.clear();
+      // 清空等待的响应
+      for (const pending of this.pendingResponses.values()) {
+        clearTimeout(pending.timeout);
+        pending.reject?.(new Error('Client destroyed'));
+      }
+      this.pendingResponses.clear();
+      this.heartbeat.clear();
 
       // 清空回调
       this.topicCallbacks.clear();
@@ -947,15 +1384,15 @@ export class PairingManager extends EventEmitter implements IPairingManager {
   /**
    * 获取对称密钥（用于测试或调试）
    */
-  getSymKey(topic: string): string | undefined {
-    return this.symKeys.get(topic);
+  async getSymKey(topic: string): Promise<string | undefined> {
+    return this.cryptoManager.getSymKey(topic);
   }
 
   /**
    * 设置对称密钥（用于恢复会话）
    */
-  setSymKey(topic: string, symKey: string): void {
-    this.symKeys.set(topic, symKey);
+  async setSymKey(topic: string, symKey: string): Promise<void> {
+    await this.cryptoManager.setSymKey(topic, symKey);
   }
 
   /**
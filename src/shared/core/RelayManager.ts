@@ -1,5 +1,9 @@
 import { IRelay, RelayConfig } from '../types/relay';
 import { WakuRelay } from '../relay/waku';
+import { InMemoryRelay } from '../relay/memory';
+import { WebSocketRelay } from '../relay/websocket';
+import { BroadcastChannelRelay } from '../relay/broadcast';
+import { PostMessageRelay } from '../relay/postmessage';
 
 /**
  * Relay 管理器
@@ -32,12 +36,42 @@ export class RelayManager {
    */
   private async createRelay(): Promise<IRelay> {
     console.log('[RelayManager] Creating relay instance...');
-    // 目前只支持 Waku
-    if (this.config.protocol !== 'waku') {
-      throw new Error(`Unsupported relay protocol: ${this.config.protocol}`);
-    }
+    let relay: IRelay;
+    switch (this.config.protocol) {
+      case 'waku':
+        relay = new WakuRelay(this.config);
+        break;
+
+      case 'memory':
+        relay = new InMemoryRelay();
+        break;
+
+      case 'websocket':
+        relay = new WebSocketRelay(this.config);
+        break;
 
-    const relay = new WakuRelay(this.config);
+      case 'broadcastchannel':
+        relay = new BroadcastChannelRelay(this.config);
+        break;
+
+      case 'postmessage':
+        // 默认与打开当前页面的窗口或父窗口通信
+        if (typeof window === 'undefined') {
+          throw new Error('postMessage relay requires a browser window');
+        }
+        if (!this.config.targetOrigin) {
+          throw new Error('postMessage relay requires an explicit targetOrigin');
+        }
+        relay = new PostMessageRelay({
+          ...this.config,
+          target: window.opener || window.parent,
+          targetOrigin: this.config.targetOrigin
+        });
+        break;
+
+      default:
+        throw new Error(`Unsupported relay protocol: ${this.config.protocol}`);
+    }
     
     // 初始化并启动
     await relay.init();
@@ -20,14 +20,46 @@ import {
   SessionSettle,
   RejectSessionParams,
   SessionReject,
-  SessionNamespaces
+  SessionNamespaces,
+  SessionEventData,
+  SessionChangeRejected,
+  SessionManagerOptions,
+  RequestOptions,
+  RequestCancelled
 } from '../types/session';
 import { SessionStore } from '../store/SessionStore';
 import { ICryptoManager } from '../types/crypto';
 import { IPairingManager } from '../types/pairing';
-import { SessionEvent } from '../types/common';
-import { calcExpiry, generateId } from '../utils/helpers';
-import { METHODS } from 'http';
+import {
+  ExpiringEvent,
+  HeartbeatOptions,
+  PeerLivenessEvent,
+  PongEvent,
+  Reason,
+  SessionEvent
+} from '../types/common';
+import { calcExpiry, calculateExpiry, generateId } from '../utils/helpers';
+import { openMessage, sealMessage } from '../utils/envelope';
+import { ExpiryScheduler } from '../utils/expiry';
+import { fromJsonRpcError, toJsonRpcError } from '../utils/errors';
+import { HeartbeatMonitor } from '../utils/heartbeat';
+import { applyTransition, initialHistory, SESSION_TRANSITIONS } from '../utils/lifecycle';
+import {
+  JsonRpcErrorCode,
+  JsonRpcPayload,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcValidationError
+} from '../types/jsonrpc';
+import {
+  formatJsonRpcError,
+  formatJsonRpcRequest,
+  formatJsonRpcResult,
+  getStandardError,
+  isJsonRpcError,
+  isJsonRpcResponse,
+  validateJsonRpcPayload
+} from '../utils/jsonrpc';
 
 /**
  * Session Manager 实现
@@ -39,12 +71,61 @@ export class SessionManager extends EventEmitter implements ISessionManager {
   private store: ISessionStore;
   private sessionMetadata: SessionMetadata;
 
+  // Session 同步缓存（topic -> session），与 store 保持一致
+  private sessions: Map<string, SessionData> = new Map();
+
   private pendingRequests: Map<number, {
     resolve: (value: any) => void;
     reject: (error: any) => void;
     timeout: NodeJS.Timeout;
   }> = new Map();
 
+  // 收到但尚未响应的请求（Wallet 端，id -> ...），带过期定时器
+  private incomingRequests: Map<number, {
+    topic: string;
+    timeout?: NodeJS.Timeout;
+  }> = new Map();
+
+  // 等待确认的其他请求（ping、update、extend、event、acknowledge）
+  private pendingResponses: Map<number, {
+    topic: string;
+    method: SessionMethod;
+    timeout: NodeJS.Timeout;
+    sentAt: number;
+    resolve?: (result: any) => void;
+    reject?: (error: any) => void;
+  }> = new Map();
+
+  // 最近发布的 payload，用于忽略 relay 回传给自己的消息
+  private publishedPayloads: Set<string> = new Set();
+
+  // 等待 Wallet 批准的提议（Dapp 端，proposalId -> ...）
+  private proposalWaiters: Map<number, {
+    promise: Promise<SessionData>;
+    resolve: (session: SessionData) => void;
+    reject: (error: SessionError) => void;
+    timeout: NodeJS.Timeout;
+  }> = new Map();
+
+  // 未确认 Session 的超时定时器和排队中的请求（topic -> ...）
+  private ackTimers: Map<string, NodeJS.Timeout> = new Map();
+  private ackWaiters: Map<string, Array<{
+    resolve: () => void;
+    reject: (error: any) => void;
+  }>> = new Map();
+  private settleAckTimeout: number;
+  private requestTimeout: number;
+
+  // 过期调度和最近活动时间（topic -> 毫秒时间戳）
+  private expiryScheduler: ExpiryScheduler;
+  private lastActivity: Map<string, number> = new Map();
+  private autoExtend: boolean;
+  private activityWindow: number;
+
+  // 心跳和对方响应状态
+  private heartbeat: HeartbeatMonitor;
+  private heartbeatOptions?: HeartbeatOptions;
+
   private initialized = false;
   private messageCallback: MessageCallback | null = null;
   private cleanupTimer: NodeJS.Timeout | null = null;
@@ -54,16 +135,50 @@ export class SessionManager extends EventEmitter implements ISessionManager {
   private readonly PROPOSAL_EXPIRY = 5 * 60; // 5 分钟
   private readonly REQUEST_TIMEOUT = 5 * 60 * 1000; // 5 分钟
   private readonly CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 小时
+  private readonly SESSION_KEY_INFO = 'wc_session_key'; // Session 密钥派生标签
+  private readonly RESPONSE_TIMEOUT = 30 * 1000; // 30 秒
+  private readonly PING_TIMEOUT = 10 * 1000; // 10 秒
+  private readonly MAX_PUBLISHED_PAYLOADS = 100;
+  private readonly SETTLE_ACK_TIMEOUT = 60 * 1000; // 1 分钟
+  private readonly EXPIRY_WARNING = 60 * 60; // 1 小时
+  private readonly ACTIVITY_WINDOW = 60 * 60; // 1 小时
 
   constructor(
     sessionMetadata: SessionMetadata,
     cryptoManager: ICryptoManager,
     store?: ISessionStore,
+    options?: SessionManagerOptions
   ) {
     super();
     this.sessionMetadata = sessionMetadata;
     this.cryptoManager = cryptoManager;
     this.store = store || new SessionStore();
+    this.settleAckTimeout = options?.settleAckTimeout ?? this.SETTLE_ACK_TIMEOUT;
+    this.requestTimeout = options?.requestTimeout ?? this.REQUEST_TIMEOUT;
+    this.autoExtend = options?.autoExtend ?? false;
+    this.activityWindow = options?.activityWindow ?? this.ACTIVITY_WINDOW;
+    this.expiryScheduler = new ExpiryScheduler({
+      onExpire: topic => this.handleExpiry(topic).catch(error => {
+        console.error('[SessionManager] Failed to expire session:', error);
+      }),
+      onExpiring: (topic, expiry) => this.handleExpiring(topic, expiry).catch(error => {
+        console.error('[SessionManager] Failed to handle expiring session:', error);
+      })
+    }, options?.expiryWarning ?? this.EXPIRY_WARNING);
+    this.heartbeatOptions = options?.heartbeat;
+    this.heartbeat = new HeartbeatMonitor({
+      ping: (topic, timeout) => this.ping(topic, timeout),
+      onUnresponsive: (topic, missed) => {
+        console.warn(`[SessionManager] Peer unresponsive after ${missed} missed pings:`, topic);
+        const event: PeerLivenessEvent = { topic, missed };
+        super.emit(SessionEvent.PEER_UNRESPONSIVE, event);
+      },
+      onResponsive: (topic, missed, latency) => {
+        console.log('[SessionManager] Peer responsive again:', topic);
+        const event: PeerLivenessEvent = { topic, missed, latency };
+        super.emit(SessionEvent.PEER_RESPONSIVE, event);
+      }
+    });
   }
 
   /**
@@ -96,13 +211,16 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 
     this.relay = relay;
 
+    // 从存储加载 Session 到缓存
+    await this.loadSessions();
+
     // 设置消息监听
     await this.setupMessageHandlers();
 
-    // 清理过期的 Session 和提议
+    // 清理过期的提议（Session 由过期调度处理）
     await this.cleanupExpired();
 
-    // 启动清理定时器
+    // 启动提议清理定时器
     this.startCleanupTimer();
 
     this.initialized = true;
@@ -122,10 +240,9 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       // 生成密钥对
       const keyPair = await this.cryptoManager.generateKeyPair();
 
-      // 获取 relay 协议
-      const relay: RelayProtocol = params.relays?.[0] || {
-        protocol: this.relay!.getProtocol().protocol
-      };
+      // 获取 relay 协议列表，第一个为主 relay
+      const relays: RelayProtocol[] = params.relays?.length ? params.relays : this.getLocalProtocols();
+      const relay = relays[0];
 
       // 创建提议
       const proposal: SessionProposal = {
@@ -138,16 +255,23 @@ export class SessionManager extends EventEmitter implements ISessionManager {
         requiredNamespaces: params.requiredNamespaces,
         optionalNamespaces: params.optionalNamespaces,
         relay,                                    // 主 relay
-        relays: params.relays,                    // 备用 relay 列表
+        relays,                                   // 全部 relay（含备用）
         expiryTimestamp: calcExpiry(this.PROPOSAL_EXPIRY)
       };
 
-      // 保存提议
+      // 保存提议，发送前开始等待批准（响应可能先于 forward 返回到达）
       await this.store.setProposal(proposalId, proposal);
+      this.trackProposal(proposal);
 
       // 通过 PairingManager 发送提议（在 Pairing Topic 上）
       if (this.pairingManager) {
-        await this.pairingManager.forward(params.pairingTopic, SessionMethod.PROPOSE, proposal)
+        try {
+          await this.pairingManager.forward(params.pairingTopic, SessionMethod.PROPOSE, proposal)
+        } catch (error: any) {
+          await this.store.deleteProposal(proposalId);
+          this.settleProposal(proposalId, new SessionError(SessionErrorCode.UNKNOWN_ERROR, error.message));
+          throw error;
+        }
       }
 
       console.log('[SessionManager] Session proposed:', proposalId);
@@ -159,6 +283,41 @@ export class SessionManager extends EventEmitter implements ISessionManager {
     }
   }
 
+  /**
+   * 等待提议被批准（Dapp 端）
+   *
+   * @returns 建立的 Session
+   * @throws SessionError USER_REJECTED、PROPOSAL_EXPIRED 或 USER_CANCELLED
+   */
+  async waitForApproval(proposalId: number): Promise<SessionData> {
+    const waiter = this.proposalWaiters.get(proposalId);
+    if (waiter) {
+      return waiter.promise;
+    }
+
+    const session = this.find(s => s.proposalId === proposalId);
+    if (session) {
+      return session;
+    }
+
+    throw new SessionError(
+      SessionErrorCode.PROPOSAL_NOT_FOUND,
+      `Proposal not found: ${proposalId}`
+    );
+  }
+
+  /**
+   * 取消等待中的提议（Dapp 端），之后收到的 settle 会被忽略
+   */
+  async cancelProposal(proposalId: number): Promise<void> {
+    await this.store.deleteProposal(proposalId);
+    this.settleProposal(proposalId, new SessionError(
+      SessionErrorCode.USER_CANCELLED,
+      'Session proposal cancelled'
+    ));
+    console.log('[SessionManager] Session proposal cancelled:', proposalId);
+  }
+
   /**
    * 批准 Session 提议（Wallet 端）
    */
@@ -192,20 +351,25 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       // 生成密钥对
       const keyPair = await this.cryptoManager.generateKeyPair();
 
-      // 生成 Session topic
-      const sessionTopic = await this.cryptoManager.generateSharedKey(
+      // 派生 Session topic 和加密密钥
+      const sharedKey = await this.cryptoManager.generateSharedKey(
         keyPair.privateKey,
         proposal.proposer.publicKey,
       );
+      const { topic: sessionTopic, sessionKey } = await this.deriveSessionKeys(sharedKey);
 
       // 计算过期时间
-      const expiry = calcExpiry(this.SESSION_EXPIRY);
+      const expiry = calculateExpiry(this.SESSION_EXPIRY);
+
+      // 协商双方都支持的 relay
+      const relays = this.negotiateRelays(proposal);
 
       // 创建 Session 数据
       const session: SessionData = {
         topic: sessionTopic,
         pairingTopic: proposal.pairingTopic,
-        relay: proposal.relay,
+        relay: relays[0],
+        relays,
         expiry,
         acknowledged: false,
         controller: keyPair.publicKey,
@@ -221,15 +385,23 @@ export class SessionManager extends EventEmitter implements ISessionManager {
           metadata: proposal.proposer.metadata
         },
         status: SessionStatus.SETTLED,
+        history: initialHistory(SessionStatus.SETTLED),
         createdAt: Date.now(),
         updatedAt: Date.now(),
         proposalId: params.proposalId  // 保存 proposalId 用于追踪
       };
 
-      // 保存 Session
-      await this.store.set(sessionTopic, session);
+      // 保存 Session 和加密密钥
+      await this.saveSession(session);
+      await this.cryptoManager.setSymKey(sessionTopic, sessionKey);
+
+      // Dapp 未在超时前确认则回滚
+      this.scheduleAckTimeout(sessionTopic);
+      this.expiryScheduler.schedule(sessionTopic, expiry);
+      this.startConfiguredHeartbeat(sessionTopic);
 
       // 订阅 Session topic
+      this.relay!.setTopicProtocols?.(sessionTopic, relays);
       if (this.messageCallback) {
         await this.relay!.subscribe(sessionTopic, this.messageCallback);
       }
@@ -239,6 +411,7 @@ export class SessionManager extends EventEmitter implements ISessionManager {
         proposalId: params.proposalId,
         pairingTopic: proposal.pairingTopic,
         relay: session.relay,
+        relays: session.relays,
         namespaces: session.namespaces,
         requiredNamespaces: session.requiredNamespaces,
         optionalNamespaces: session.optionalNamespaces,
@@ -255,6 +428,7 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       await this.store.deleteProposal(params.proposalId);
 
       console.log('[SessionManager] Session approved:', sessionTopic);
+      this.emitStatusChange(session);
 
       return session;
     } catch (error) {
@@ -327,19 +501,20 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       );
     }
 
+    // 只有 controller 可以更新，且不能超出最初请求的范围
+    this.ensureController(session);
+    this.validateNamespaceUpdate(session, params.namespaces);
+
     // 更新命名空间
     session.namespaces = params.namespaces;
     session.updatedAt = Date.now();
 
     // 保存更新
-    await this.store.set(params.topic, session);
+    await this.saveSession(session);
 
     // 发送更新消息
-    await this.sendMessage(params.topic, {
-      method: SessionMethod.UPDATE,
-      params: {
-        namespaces: params.namespaces
-      }
+    await this.sendRequest(params.topic, SessionMethod.UPDATE, {
+      namespaces: params.namespaces
     });
 
     console.log('[SessionManager] Session updated:', params.topic);
@@ -360,19 +535,21 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       );
     }
 
+    // 只有 controller 可以延长，且不超过协议上限
+    this.ensureController(session);
+    const expiry = this.capExpiry(session, params.expiry);
+
     // 更新过期时间
-    session.expiry = params.expiry;
+    session.expiry = expiry;
     session.updatedAt = Date.now();
 
     // 保存更新
-    await this.store.set(params.topic, session);
+    await this.saveSession(session);
+    this.expiryScheduler.schedule(session.topic, expiry);
 
     // 发送延长消息
-    await this.sendMessage(params.topic, {
-      method: SessionMethod.EXTEND,
-      params: {
-        expiry: params.expiry
-      }
+    await this.sendRequest(params.topic, SessionMethod.EXTEND, {
+      expiry
     });
 
     console.log('[SessionManager] Session extended:', params.topic);
@@ -393,35 +570,26 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 
     // 发送断开消息
     try {
-      await this.sendMessage(params.topic, {
-        method: SessionMethod.DELETE,
-        params: {
-          reason: params.reason
-        }
+      await this.sendRequest(params.topic, SessionMethod.DELETE, {
+        reason: params.reason
       });
     } catch (error) {
       console.error('[SessionManager] Failed to send disconnect message:', error);
     }
 
-    // 取消订阅
-    await this.relay!.unsubscribe(params.topic);
-
-    // 更新状态
-    session.status = SessionStatus.DISCONNECTED;
-    session.updatedAt = Date.now();
-    await this.store.set(params.topic, session);
-
-    // 删除 Session
-    await this.store.delete(params.topic);
+    await this.terminateSession(session, SessionStatus.DISCONNECTED, params.reason, SessionErrorCode.USER_DISCONNECTED);
 
     console.log('[SessionManager] Session disconnected:', params.topic);
-    super.emit(SessionEvent.DELETED, { topic: params.topic, reason: params.reason });
   }
 
   /**
    * Ping Session
+   *
+   * @param timeout - 等待 pong 的超时（毫秒）
+   * @returns 往返时间（毫秒）
+   * @throws SessionError(RESPONSE_TIMEOUT) 如果超时未收到 pong
    */
-  async ping(topic: string): Promise<void> {
+  async ping(topic: string, timeout: number = this.PING_TIMEOUT): Promise<number> {
     this.ensureInitialized();
 
     const session = await this.store.get(topic);
@@ -432,23 +600,83 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       );
     }
 
-    const id = generateId();
+    // 发送 Ping 消息，对方的成功响应即 pong
+    return new Promise<number>((resolve, reject) => {
+      this.sendRequest(topic, SessionMethod.PING, {}, undefined, { resolve, reject, timeout })
+        .then(() => console.log('[SessionManager] Session pinged:', topic))
+        .catch(reject);
+    });
+  }
 
-    // 发送 Ping 消息
-    await this.sendMessage(topic, {
-      method: SessionMethod.PING,
-      params: { id }
+  /**
+   * 为 Session 启动心跳，连续多次未响应时发出 PEER_UNRESPONSIVE
+   */
+  startHeartbeat(topic: string, options?: HeartbeatOptions): void {
+    if (!this.sessions.has(topic)) {
+      throw new SessionError(
+        SessionErrorCode.SESSION_NOT_FOUND,
+        `Session not found: ${topic}`
+      );
+    }
+    this.heartbeat.start(topic, options ?? this.heartbeatOptions);
+  }
+
+  stopHeartbeat(topic: string): void {
+    this.heartbeat.stop(topic);
+  }
+
+  /**
+   * 对方是否仍在响应（未连续多次错过 pong）
+   */
+  isPeerResponsive(topic: string): boolean {
+    return this.heartbeat.isResponsive(topic);
+  }
+
+  /**
+   * 配置了心跳时为新建立或恢复的 Session 启动心跳
+   */
+  private startConfiguredHeartbeat(topic: string): void {
+    if (this.heartbeatOptions) {
+      this.heartbeat.start(topic, this.heartbeatOptions);
+    }
+  }
+
+  /**
+   * 向对方发送 Session 事件（如 accountsChanged、chainChanged）
+   */
+  async emitEvent(params: SessionEventData): Promise<void> {
+    this.ensureInitialized();
+
+    const session = await this.store.get(params.topic);
+    if (!session) {
+      throw new SessionError(
+        SessionErrorCode.SESSION_NOT_FOUND,
+        `Session not found: ${params.topic}`
+      );
+    }
+
+    // 事件和链必须在已批准的命名空间内
+    this.validateEvent(session.namespaces, params.event.name, params.chainId);
+
+    await this.sendRequest(params.topic, SessionMethod.EVENT, {
+      event: params.event,
+      chainId: params.chainId
     });
 
-    console.log('[SessionManager] Session pinged:', topic);
+    console.log('[SessionManager] Session event emitted:', params.event.name);
   }
 
   /**
    * 发送请求
    */
-  async request(request: Omit<SessionRequest, 'id'>): Promise<any> {
+  async request(request: Omit<SessionRequest, 'id' | 'expiryTimestamp'>, options?: RequestOptions): Promise<any> {
     this.ensureInitialized();
 
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw new SessionError(SessionErrorCode.USER_CANCELLED, 'Request cancelled');
+    }
+
     const session = await this.store.get(request.topic);
     if (!session) {
       throw new SessionError(
@@ -472,39 +700,63 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 
     if (!isSupported) {
       throw new SessionError(
-        SessionErrorCode.INVALID_METHOD,
+        SessionErrorCode.UNSUPPORTED_METHODS,
         `Method not supported: ${request.method}`
       );
     }
 
+    // Settle 确认完成前请求排队等待
+    if (!session.acknowledged) {
+      await this.waitForAcknowledgement(request.topic, signal);
+    }
+    if (signal?.aborted) {
+      throw new SessionError(SessionErrorCode.USER_CANCELLED, 'Request cancelled');
+    }
+
     const id = generateId();
+    const timeoutMs = options?.timeout ?? this.requestTimeout;
 
     // 创建 Promise 用于等待响应
     return new Promise((resolve, reject) => {
+      const onAbort = () => this.cancelRequest(request.topic, id);
+      const done = () => signal?.removeEventListener('abort', onAbort);
+
       // 设置超时
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(id);
+        done();
         reject(new SessionError(
-          SessionErrorCode.UNKNOWN_ERROR,
+          SessionErrorCode.RESPONSE_TIMEOUT,
           'Request timeout'
         ));
-      }, this.REQUEST_TIMEOUT);
+      }, timeoutMs);
 
       // 保存请求
-      this.pendingRequests.set(id, { resolve, reject, timeout });
+      this.pendingRequests.set(id, {
+        resolve: value => {
+          done();
+          resolve(value);
+        },
+        reject: error => {
+          done();
+          reject(error);
+        },
+        timeout
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
 
-      // 发送请求消息
-      this.sendMessage(request.topic, {
-        method: SessionMethod.REQUEST,
-        params: {
-          id,
+      // 发送请求消息，过期时间随请求发送，Wallet 据此丢弃过期的请求
+      this.sendRequest(request.topic, SessionMethod.REQUEST, {
+        request: {
           method: request.method,
-          params: request.params,
-          chainId: request.chainId
-        }
-      }).catch(error => {
+          params: request.params
+        },
+        chainId: request.chainId,
+        expiryTimestamp: Date.now() + timeoutMs
+      }, id).catch(error => {
         clearTimeout(timeout);
         this.pendingRequests.delete(id);
+        done();
         reject(error);
       });
 
@@ -526,15 +778,22 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       );
     }
 
-    // 发送响应消息
-    await this.sendMessage(response.topic, {
-      method: SessionMethod.RESPONSE,
-      params: {
-        id: response.id,
-        result: response.result,
-        error: response.error
-      }
-    });
+    // 已被取消或过期的请求不再响应
+    const incoming = this.incomingRequests.get(response.id);
+    if (!incoming || incoming.topic !== response.topic) {
+      throw new SessionError(
+        SessionErrorCode.INVALID_REQUEST,
+        `Request not pending: ${response.id}`
+      );
+    }
+    this.removeIncomingRequest(response.id);
+
+    // 发送 JSON-RPC 响应
+    if (response.error) {
+      await this.sendMessage(response.topic, formatJsonRpcError(response.id, toJsonRpcError(response.error)));
+    } else {
+      await this.sendMessage(response.topic, formatJsonRpcResult(response.id, response.result ?? null));
+    }
 
     console.log('[SessionManager] Response sent:', response.id);
   }
@@ -543,17 +802,15 @@ export class SessionManager extends EventEmitter implements ISessionManager {
    * 获取 Session
    */
   get(topic: string): SessionData | undefined {
-    // 同步方法，从内存缓存获取
-    const sessions = (this.store as SessionStore)['sessions'];
-    return sessions?.get(topic);
+    // 同步方法，从缓存获取
+    return this.sessions.get(topic);
   }
 
   /**
    * 获取所有 Session
    */
   getAll(): SessionData[] {
-    const sessions = (this.store as SessionStore)['sessions'];
-    return sessions ? Array.from(sessions.values()) : [];
+    return Array.from(this.sessions.values());
   }
 
   /**
@@ -564,7 +821,35 @@ export class SessionManager extends EventEmitter implements ISessionManager {
   }
 
   /**
-   * 清理过期的 Session 和提议
+   * 从存储加载 Session 到缓存
+   */
+  private async loadSessions(): Promise<void> {
+    const sessions = await this.store.getAll();
+    this.sessions.clear();
+    for (const session of sessions) {
+      this.sessions.set(session.topic, session);
+    }
+    console.log(`[SessionManager] Loaded ${sessions.length} sessions`);
+  }
+
+  /**
+   * 保存 Session（写入存储并更新缓存）
+   */
+  private async saveSession(session: SessionData): Promise<void> {
+    await this.store.set(session.topic, session);
+    this.sessions.set(session.topic, session);
+  }
+
+  /**
+   * 删除 Session（从存储和缓存中删除）
+   */
+  private async removeSession(topic: string): Promise<void> {
+    await this.store.delete(topic);
+    this.sessions.delete(topic);
+  }
+
+  /**
+   * 清理过期的提议
    */
   async cleanup(): Promise<void> {
     await this.cleanupExpired();
@@ -585,7 +870,7 @@ export class SessionManager extends EventEmitter implements ISessionManager {
         proposer: params.proposer,
         requiredNamespaces: params.requiredNamespaces,
         optionalNamespaces: params.optionalNamespaces,
-        relay: params.relays[0],
+        relay: params.relay,
         relays: params.relays,
         expiryTimestamp: params.expiryTimestamp
       };
@@ -608,6 +893,11 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 
       // 删除提议
       await this.store.deleteProposal(proposalId);
+      this.settleProposal(proposalId, new SessionError(
+        SessionErrorCode.USER_REJECTED,
+        reason?.message || 'Session rejected',
+        reason
+      ));
 
       console.log('[SessionManager] Session reject from pairing:', proposalId);
 
@@ -634,20 +924,25 @@ export class SessionManager extends EventEmitter implements ISessionManager {
         return;
       }
 
-      // 生成 Session topic
+      // 派生 Session topic 和加密密钥（与 Wallet 端结果一致）
       const keyPair = await this.cryptoManager.getKeyPair(proposal.proposer.publicKey);
-      const sessionTopic = await this.cryptoManager.generateSharedKey(
+      const sharedKey = await this.cryptoManager.generateSharedKey(
         keyPair.privateKey,
         params.controller.publicKey
       );
+      const { topic: sessionTopic, sessionKey } = await this.deriveSessionKeys(sharedKey);
+
+      // 使用 Wallet 协商出的 relay 列表
+      const relays: RelayProtocol[] = params.relays?.length ? params.relays : [params.relay];
 
       // 创建 Session
       const session: SessionData = {
         topic: sessionTopic,
         pairingTopic: proposal.pairingTopic,
         relay: params.relay,
+        relays,
         expiry: params.expiry,
-        acknowledged: true,
+        acknowledged: false,
         controller: params.controller.publicKey,
         namespaces: params.namespaces,
         requiredNamespaces: params.requiredNamespaces,
@@ -661,15 +956,20 @@ export class SessionManager extends EventEmitter implements ISessionManager {
           metadata: params.controller.metadata
         },
         status: SessionStatus.SETTLED,
+        history: initialHistory(SessionStatus.SETTLED),
         createdAt: Date.now(),
         updatedAt: Date.now(),
         proposalId: proposal.proposalId
       };
 
-      // 保存 Session
-      await this.store.set(sessionTopic, session);
+      // 保存 Session 和加密密钥
+      await this.saveSession(session);
+      await this.cryptoManager.setSymKey(sessionTopic, sessionKey);
+      this.expiryScheduler.schedule(sessionTopic, session.expiry);
+      this.startConfiguredHeartbeat(sessionTopic);
 
       // 订阅 Session topic
+      this.relay!.setTopicProtocols?.(sessionTopic, relays);
       if (this.messageCallback) {
         await this.relay!.subscribe(sessionTopic, this.messageCallback);
       }
@@ -677,10 +977,15 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       // 删除提议
       await this.store.deleteProposal(proposal.proposalId);
 
+      // 在 Session topic 上确认，Wallet 响应后请求才会发出
+      this.scheduleAckTimeout(sessionTopic);
+      await this.sendRequest(sessionTopic, SessionMethod.ACKNOWLEDGE, {});
+
       console.log('[SessionManager] Session settled from pairing:', sessionTopic);
 
       // 触发事件
-      this.emit(SessionEvent.SETTLED, session);
+      this.emitStatusChange(session);
+      this.settleProposal(proposal.proposalId, session);
     } catch (error) {
       console.error('[SessionManager] Failed to handle session settle:', error);
     }
@@ -708,8 +1013,19 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       try {
         // 只订阅已建立的 Session
         if (session.status === SessionStatus.SETTLED) {
+          this.relay.setTopicProtocols?.(session.topic, session.relays || [session.relay]);
           await this.relay.subscribe(session.topic, this.messageCallback);
+          this.expiryScheduler.schedule(session.topic, session.expiry);
+          this.startConfiguredHeartbeat(session.topic);
           console.log('[SessionManager] Restored subscription for:', session.topic);
+
+          // 尚未确认的 Session 重新等待确认，Dapp 端重发确认
+          if (!session.acknowledged) {
+            this.scheduleAckTimeout(session.topic);
+            if (session.controller !== session.self.publicKey) {
+              await this.sendRequest(session.topic, SessionMethod.ACKNOWLEDGE, {});
+            }
+          }
         }
       } catch (error) {
         console.error('[SessionManager] Failed to restore subscription:', session.topic, error);
@@ -721,92 +1037,296 @@ export class SessionManager extends EventEmitter implements ISessionManager {
    * 处理 Relay 消息
    */
   private async handleRelayMessage(topic: string, payload: string): Promise<void> {
+    // 忽略 relay 回传的自己发出的消息
+    if (this.publishedPayloads.has(payload)) {
+      return;
+    }
+
+    const sessionKey = await this.cryptoManager.getSymKey(topic);
+    if (!sessionKey) {
+      console.warn('[SessionManager] Dropped message, session key not found:', topic);
+      return;
+    }
+
+    // 解密消息，认证失败的消息直接丢弃
+    let message: any;
+    try {
+      message = await openMessage(this.cryptoManager, sessionKey, payload);
+    } catch (error) {
+      console.warn('[SessionManager] Rejected message on', topic, error);
+      return;
+    }
+    this.lastActivity.set(topic, Date.now());
+
+    // 校验 JSON-RPC 格式，格式错误的请求回复错误响应
+    let rpc: JsonRpcPayload;
     try {
-      const message = JSON.parse(payload);
-      await this.handleMessage(topic, message);
+      rpc = validateJsonRpcPayload(message);
+      if (!isJsonRpcResponse(rpc)) {
+        this.validateParams(rpc);
+      }
     } catch (error) {
-      console.error('[SessionManager] Failed to parse message:', error);
+      console.warn('[SessionManager] Invalid message on', topic, error);
+      if (error instanceof JsonRpcValidationError && error.id !== undefined) {
+        await this.sendMessage(topic, formatJsonRpcError(error.id, getStandardError(error.code, error.message)));
+      }
+      return;
+    }
+
+    if (isJsonRpcResponse(rpc)) {
+      await this.handleSessionResponse(topic, rpc);
+    } else {
+      await this.handleMessage(topic, rpc);
     }
   }
 
   /**
-   * 处理消息
+   * 处理请求消息
    */
-  private async handleMessage(topic: string, message: any): Promise<void> {
-    const { method, params } = message;
+  private async handleMessage(topic: string, request: JsonRpcRequest): Promise<void> {
+    const { id, method, params } = request;
 
     switch (method) {
       case SessionMethod.UPDATE:
-        await this.handleSessionUpdate(topic, params);
+        await this.handleSessionUpdate(topic, id, params);
         break;
 
       case SessionMethod.EXTEND:
-        await this.handleSessionExtend(topic, params);
+        await this.handleSessionExtend(topic, id, params);
         break;
 
       case SessionMethod.DELETE:
         await this.handleSessionDelete(topic, params);
         break;
 
+      case SessionMethod.ACKNOWLEDGE:
+        await this.handleSessionAcknowledge(topic, id);
+        break;
+
       case SessionMethod.PING:
-        await this.handleSessionPing(topic, params);
+        await this.handleSessionPing(topic, id);
         break;
 
       case SessionMethod.REQUEST:
-        await this.handleSessionRequest(topic, params);
+        await this.handleSessionRequest(topic, id, params);
         break;
 
-      case SessionMethod.RESPONSE:
-        await this.handleSessionResponse(params);
+      case SessionMethod.CANCEL:
+        await this.handleSessionRequestCancel(topic, id, params);
         break;
 
       case SessionMethod.EVENT:
-        await this.handleSessionEvent(topic, params);
+        await this.handleSessionEvent(topic, id, params);
         break;
 
       default:
         console.warn('[SessionManager] Unknown message method:', method);
+        await this.sendMessage(topic, formatJsonRpcError(id, getStandardError(
+          JsonRpcErrorCode.METHOD_NOT_FOUND,
+          `Unknown method: ${method}`
+        )));
+    }
+  }
+
+  /**
+   * 校验已知方法的参数
+   */
+  private validateParams(request: JsonRpcRequest): void {
+    const params = request.params;
+    let valid = true;
+
+    switch (request.method) {
+      case SessionMethod.UPDATE:
+        valid = !!params?.namespaces && typeof params.namespaces === 'object';
+        break;
+
+      case SessionMethod.EXTEND:
+        valid = typeof params?.expiry === 'number';
+        break;
+
+      case SessionMethod.DELETE:
+        valid = typeof params?.reason?.message === 'string';
+        break;
+
+      case SessionMethod.REQUEST:
+        valid = typeof params?.request?.method === 'string' && typeof params?.chainId === 'string' &&
+          (params.expiryTimestamp === undefined || typeof params.expiryTimestamp === 'number');
+        break;
+
+      case SessionMethod.CANCEL:
+        valid = typeof params?.id === 'number';
+        break;
+
+      case SessionMethod.EVENT:
+        valid = typeof params?.event?.name === 'string' && typeof params?.chainId === 'string';
+        break;
+    }
+
+    if (!valid) {
+      throw new JsonRpcValidationError(
+        JsonRpcErrorCode.INVALID_PARAMS,
+        `Invalid params for ${request.method}`,
+        request.id
+      );
     }
   }
 
   /**
    * 处理 Session 更新
    */
-  private async handleSessionUpdate(topic: string, data: any): Promise<void> {
+  private async handleSessionUpdate(topic: string, id: number, data: any): Promise<void> {
     const session = await this.store.get(topic);
     if (!session) {
       console.warn('[SessionManager] Session not found:', topic);
       return;
     }
 
+    // 只接受 controller 的更新，且不能超出最初请求的范围
+    try {
+      this.ensurePeerIsController(session);
+      this.validateNamespaceUpdate(session, data.namespaces);
+    } catch (error: any) {
+      await this.rejectChange(topic, id, SessionMethod.UPDATE, error);
+      return;
+    }
+
     // 更新命名空间
     session.namespaces = data.namespaces;
     session.updatedAt = Date.now();
 
-    await this.store.set(topic, session);
+    await this.saveSession(session);
+    await this.sendMessage(topic, formatJsonRpcResult(id, true));
 
     console.log('[SessionManager] Session updated:', topic);
-    super.emit('session_updated', session);
+    super.emit(SessionEvent.UPDATED, session);
   }
 
   /**
    * 处理 Session 延长
    */
-  private async handleSessionExtend(topic: string, data: any): Promise<void> {
+  private async handleSessionExtend(topic: string, id: number, data: any): Promise<void> {
     const session = await this.store.get(topic);
     if (!session) {
       console.warn('[SessionManager] Session not found:', topic);
       return;
     }
 
+    // 只接受 controller 的延长，且不超过协议上限
+    let expiry: number;
+    try {
+      this.ensurePeerIsController(session);
+      expiry = this.capExpiry(session, data.expiry);
+    } catch (error: any) {
+      await this.rejectChange(topic, id, SessionMethod.EXTEND, error);
+      return;
+    }
+
     // 更新过期时间
-    session.expiry = data.expiry;
+    session.expiry = expiry;
     session.updatedAt = Date.now();
 
-    await this.store.set(topic, session);
+    await this.saveSession(session);
+    this.expiryScheduler.schedule(topic, expiry);
+    await this.sendMessage(topic, formatJsonRpcResult(id, true));
 
     console.log('[SessionManager] Session extended:', topic);
-    super.emit('session_extended', session);
+    super.emit(SessionEvent.EXTENDED, session);
+  }
+
+  /**
+   * 拒绝对方的更新或延长：回复错误响应并在本地发出事件
+   */
+  private async rejectChange(topic: string, id: number, method: SessionMethod, error: any): Promise<void> {
+    const reason = {
+      code: error instanceof SessionError ? error.code : SessionErrorCode.UNKNOWN_ERROR,
+      message: error.message
+    };
+    console.warn(`[SessionManager] Rejected ${method} on ${topic}:`, reason.message);
+
+    await this.sendMessage(topic, formatJsonRpcError(id, toJsonRpcError(reason)));
+
+    const rejected: SessionChangeRejected = { topic, method, reason };
+    super.emit(SessionEvent.CHANGE_REJECTED, rejected);
+  }
+
+  /**
+   * 确保本端是 Session 的 controller
+   */
+  private ensureController(session: SessionData): void {
+    if (session.controller !== session.self.publicKey) {
+      throw new SessionError(
+        SessionErrorCode.UNAUTHORIZED,
+        'Only the session controller can change the session'
+      );
+    }
+  }
+
+  /**
+   * 确保对方是 Session 的 controller
+   */
+  private ensurePeerIsController(session: SessionData): void {
+    if (session.controller !== session.peer.publicKey) {
+      throw new SessionError(
+        SessionErrorCode.UNAUTHORIZED,
+        'Session change not sent by the controller'
+      );
+    }
+  }
+
+  /**
+   * 校验延长后的过期时间，超过协议上限时截断
+   */
+  private capExpiry(session: SessionData, expiry: number): number {
+    if (typeof expiry !== 'number' || expiry < session.expiry) {
+      throw new SessionError(
+        SessionErrorCode.INVALID_EXPIRY,
+        `Expiry must not be earlier than the current expiry: ${expiry}`
+      );
+    }
+
+    return Math.min(expiry, calculateExpiry(this.SESSION_EXPIRY));
+  }
+
+  /**
+   * 验证命名空间更新：满足必需命名空间，且链、方法、事件不超出已请求或已批准的范围
+   */
+  private validateNamespaceUpdate(session: SessionData, namespaces: SessionNamespaces): void {
+    this.validateNamespaces(namespaces, session.requiredNamespaces, session.optionalNamespaces);
+
+    const sources = [session.requiredNamespaces, session.optionalNamespaces, session.namespaces];
+    for (const [key, namespace] of Object.entries(namespaces)) {
+      const allowed = sources.map(source => source?.[key]).filter(ns => !!ns);
+      if (allowed.length === 0) {
+        throw new SessionError(
+          SessionErrorCode.UNSUPPORTED_CHAINS,
+          `Namespace not requested: ${key}`
+        );
+      }
+
+      const chains = namespace.chains?.filter(chain => !allowed.some(ns => ns!.chains?.includes(chain))) ?? [];
+      if (chains.length > 0) {
+        throw new SessionError(
+          SessionErrorCode.UNSUPPORTED_CHAINS,
+          `Chains not requested: ${chains.join(', ')}`
+        );
+      }
+
+      const methods = namespace.methods.filter(method => !allowed.some(ns => ns!.methods.includes(method)));
+      if (methods.length > 0) {
+        throw new SessionError(
+          SessionErrorCode.UNSUPPORTED_METHODS,
+          `Methods not requested: ${methods.join(', ')}`
+        );
+      }
+
+      const events = namespace.events.filter(event => !allowed.some(ns => ns!.events.includes(event)));
+      if (events.length > 0) {
+        throw new SessionError(
+          SessionErrorCode.UNSUPPORTED_EVENTS,
+          `Events not requested: ${events.join(', ')}`
+        );
+      }
+    }
   }
 
   /**
@@ -819,103 +1339,516 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       return;
     }
 
-    // 取消订阅
-    await this.relay!.unsubscribe(topic);
-
-    // 删除 Session
-    await this.store.delete(topic);
+    await this.terminateSession(session, SessionStatus.DISCONNECTED, data.reason, SessionErrorCode.SESSION_NOT_FOUND);
 
     console.log('[SessionManager] Session deleted:', topic);
-    super.emit('session_deleted', { topic, reason: data.reason });
   }
 
   /**
-   * 处理 Session Ping
+   * 处理 Dapp 对 Settle 的确认（Wallet 端）
    */
-  private async handleSessionPing(topic: string, data: any): Promise<void> {
-    // 发送 Pong 响应
-    await this.sendMessage(topic, {
-      type: 'session_pong',
-      data: { id: data.id }
+  private async handleSessionAcknowledge(topic: string, id: number): Promise<void> {
+    const session = this.sessions.get(topic);
+    if (!session || session.controller !== session.self.publicKey) {
+      console.warn('[SessionManager] Unexpected session acknowledge:', topic);
+      await this.sendMessage(topic, formatJsonRpcError(id, {
+        code: SessionErrorCode.SESSION_NOT_FOUND,
+        message: `Session not found: ${topic}`
+      }));
+      return;
+    }
+
+    await this.markAcknowledged(topic);
+    await this.sendMessage(topic, formatJsonRpcResult(id, true));
+  }
+
+  /**
+   * 标记 Session 已确认，放行排队中的请求
+   */
+  private async markAcknowledged(topic: string): Promise<void> {
+    const session = this.sessions.get(topic);
+    if (!session) {
+      return;
+    }
+
+    this.clearAcknowledgement(topic);
+    if (session.acknowledged) {
+      return;
+    }
+
+    session.acknowledged = true;
+    session.updatedAt = Date.now();
+    await this.saveSession(session);
+
+    console.log('[SessionManager] Session acknowledged:', topic);
+    super.emit(SessionEvent.ACKNOWLEDGED, session);
+  }
+
+  /**
+   * 等待 Settle 确认，signal 取消时立即以 USER_CANCELLED 拒绝
+   */
+  private waitForAcknowledgement(topic: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const remaining = (this.ackWaiters.get(topic) || []).filter(other => other !== waiter);
+        if (remaining.length > 0) {
+          this.ackWaiters.set(topic, remaining);
+        } else {
+          this.ackWaiters.delete(topic);
+        }
+        reject(new SessionError(SessionErrorCode.USER_CANCELLED, 'Request cancelled'));
+      };
+      const waiter = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error: any) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+
+      const waiters = this.ackWaiters.get(topic) || [];
+      waiters.push(waiter);
+      this.ackWaiters.set(topic, waiters);
+
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
     });
+  }
+
+  /**
+   * 启动确认超时，超时后回滚未确认的 Session
+   */
+  private scheduleAckTimeout(topic: string): void {
+    clearTimeout(this.ackTimers.get(topic));
+
+    const timer = setTimeout(() => {
+      this.ackTimers.delete(topic);
+      this.rollbackUnacknowledged(topic).catch(error => {
+        console.error('[SessionManager] Failed to roll back session:', error);
+      });
+    }, this.settleAckTimeout);
+    this.ackTimers.set(topic, timer);
+  }
+
+  /**
+   * 清除确认定时器，并放行（或以 error 拒绝）排队中的请求
+   */
+  private clearAcknowledgement(topic: string, error?: SessionError): void {
+    clearTimeout(this.ackTimers.get(topic));
+    this.ackTimers.delete(topic);
+
+    const waiters = this.ackWaiters.get(topic) || [];
+    this.ackWaiters.delete(topic);
+    for (const waiter of waiters) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve();
+      }
+    }
+  }
+
+  /**
+   * 回滚未确认的 Session
+   */
+  private async rollbackUnacknowledged(topic: string): Promise<void> {
+    const session = this.sessions.get(topic);
+    if (!session || session.acknowledged) {
+      return;
+    }
+
+    const reason = {
+      code: SessionErrorCode.SESSION_NOT_ACKNOWLEDGED,
+      message: 'Session settlement was not acknowledged'
+    };
+    await this.terminateSession(session, SessionStatus.DISCONNECTED, reason, SessionErrorCode.SESSION_NOT_ACKNOWLEDGED);
+
+    console.warn('[SessionManager] Session rolled back:', topic);
+  }
+
+  /**
+   * 执行 Session 状态转换，非法转换抛出 InvalidTransitionError
+   */
+  private transition(session: SessionData, to: SessionStatus, reason?: string): void {
+    applyTransition('session', SESSION_TRANSITIONS, session, to, reason);
+  }
+
+  /**
+   * 每次状态变更发出且只发出一个事件
+   */
+  private emitStatusChange(session: SessionData, reason?: Reason): void {
+    switch (session.status) {
+      case SessionStatus.SETTLED:
+        super.emit(SessionEvent.SETTLED, session);
+        break;
+
+      case SessionStatus.DISCONNECTED:
+        super.emit(SessionEvent.DELETED, { topic: session.topic, reason, session });
+        break;
+
+      case SessionStatus.EXPIRED:
+        super.emit(SessionEvent.EXPIRED, { topic: session.topic, reason, session });
+        break;
+    }
+  }
+
+  /**
+   * 结束 Session：转换到终止状态、清理资源并发出对应事件
+   *
+   * @param code - 拒绝排队中请求时使用的错误码
+   */
+  private async terminateSession(
+    session: SessionData,
+    status: SessionStatus,
+    reason: Reason,
+    code: SessionErrorCode
+  ): Promise<void> {
+    // 对端删除与本地断开或过期并发时，先结束的一方负责清理
+    if (SESSION_TRANSITIONS[session.status].length === 0) {
+      console.log(`[SessionManager] Session already ${session.status}:`, session.topic);
+      return;
+    }
+
+    this.transition(session, status, reason?.message);
+    this.clearAcknowledgement(session.topic, new SessionError(code, reason?.message));
+    this.expiryScheduler.cancel(session.topic);
+    this.lastActivity.delete(session.topic);
+    this.heartbeat.stop(session.topic);
+    for (const [id, incoming] of Array.from(this.incomingRequests.entries())) {
+      if (incoming.topic === session.topic) {
+        this.removeIncomingRequest(id);
+      }
+    }
+
+    await this.relay!.unsubscribe(session.topic);
+    await this.removeSession(session.topic);
+    await this.cryptoManager.deleteSymKey(session.topic);
+    await this.cryptoManager.deleteKeyPair(session.self.publicKey);
+
+    this.emitStatusChange(session, reason);
+  }
+
+  /**
+   * 处理 Session Ping
+   */
+  private async handleSessionPing(topic: string, id: number): Promise<void> {
+    // pong 即 ping 请求的成功响应
+    await this.sendMessage(topic, formatJsonRpcResult(id, true));
 
     console.log('[SessionManager] Session ping received:', topic);
-    super.emit('session_ping', { topic });
+    super.emit(SessionEvent.PING, { topic });
   }
 
   /**
    * 处理 Session 请求
    */
-  private async handleSessionRequest(topic: string, params: any): Promise<void> {
+  private async handleSessionRequest(topic: string, id: number, params: any): Promise<void> {
     const session = await this.store.get(topic);
     if (!session) {
       console.warn('[SessionManager] Session not found:', topic);
       return;
     }
 
+    // 丢弃已过期的请求，Dapp 端已超时
+    const expiryTimestamp: number | undefined = params.expiryTimestamp;
+    if (expiryTimestamp !== undefined && Date.now() >= expiryTimestamp) {
+      console.warn('[SessionManager] Dropped expired request:', id);
+      return;
+    }
+
     console.log('[SessionManager] Session request received:', {
-      id: params.id,
-      method: params.method
+      id,
+      method: params.request.method
     });
 
-    super.emit(SessionEvent.REQUEST, {
-      id: params.id,
+    const timeout = expiryTimestamp === undefined ? undefined : setTimeout(() => {
+      this.dropIncomingRequest(topic, id, 'expired');
+    }, expiryTimestamp - Date.now());
+    this.incomingRequests.set(id, { topic, timeout });
+
+    const request: SessionRequest = {
+      id,
       topic: topic,
-      method: params.method,
-      params: params.params,
+      method: params.request.method,
+      params: params.request.params,
       chainId: params.chainId,
+      expiryTimestamp
+    };
+    super.emit(SessionEvent.REQUEST, request);
+  }
+
+  /**
+   * 处理请求取消（Wallet 端）
+   */
+  private async handleSessionRequestCancel(topic: string, id: number, params: { id: number }): Promise<void> {
+    this.dropIncomingRequest(topic, params.id, 'cancelled');
+    await this.sendMessage(topic, formatJsonRpcResult(id, true));
+  }
+
+  /**
+   * 移除收到的请求并发出 REQUEST_CANCELLED
+   */
+  private dropIncomingRequest(topic: string, id: number, reason: RequestCancelled['reason']): void {
+    const incoming = this.incomingRequests.get(id);
+    if (!incoming || incoming.topic !== topic) {
+      return;
+    }
+
+    this.removeIncomingRequest(id);
+    console.log(`[SessionManager] Request ${reason}:`, id);
+    const event: RequestCancelled = { id, topic, reason };
+    super.emit(SessionEvent.REQUEST_CANCELLED, event);
+  }
+
+  private removeIncomingRequest(id: number): void {
+    const incoming = this.incomingRequests.get(id);
+    if (incoming?.timeout) {
+      clearTimeout(incoming.timeout);
+    }
+    this.incomingRequests.delete(id);
+  }
+
+  /**
+   * 取消发出的请求（Dapp 端）：拒绝等待中的 Promise 并通知 Wallet
+   */
+  private cancelRequest(topic: string, id: number): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(id);
+    pending.reject(new SessionError(SessionErrorCode.USER_CANCELLED, 'Request cancelled'));
+
+    this.sendRequest(topic, SessionMethod.CANCEL, { id }).catch(error => {
+      console.warn('[SessionManager] Failed to send request cancel:', error);
     });
   }
 
   /**
-   * 处理 Session 响应
+   * 处理 JSON-RPC 响应（按 id 关联请求）
    */
-  private async handleSessionResponse(data: any): Promise<void> {
-    const pending = this.pendingRequests.get(data.id);
+  private async handleSessionResponse(topic: string, response: JsonRpcResponse): Promise<void> {
+    const pending = this.pendingRequests.get(response.id);
     if (!pending) {
-      console.warn('[SessionManager] No pending request found:', data.id);
+      await this.handleAcknowledgement(topic, response);
       return;
     }
 
     // 清除超时
     clearTimeout(pending.timeout);
-    this.pendingRequests.delete(data.id);
+    this.pendingRequests.delete(response.id);
 
     // 处理响应
-    if (data.error) {
-      pending.reject(new SessionError(
-        SessionErrorCode.UNKNOWN_ERROR,
-        data.error.message
-      ));
+    // 保留对方的错误码和 data
+    if (isJsonRpcError(response)) {
+      pending.reject(fromJsonRpcError(response.error));
     } else {
-      pending.resolve(data.result);
+      pending.resolve(response.result);
+    }
+
+    console.log('[SessionManager] Session response received:', response.id);
+  }
+
+  /**
+   * 处理 ping、update、extend、event 的确认
+   */
+  private async handleAcknowledgement(topic: string, response: JsonRpcResponse): Promise<void> {
+    const pending = this.pendingResponses.get(response.id);
+    if (!pending || pending.topic !== topic) {
+      console.warn('[SessionManager] No pending request found:', response.id);
+      return;
     }
 
-    console.log('[SessionManager] Session response received:', data.id);
+    clearTimeout(pending.timeout);
+    this.pendingResponses.delete(response.id);
+
+    if (isJsonRpcError(response)) {
+      console.warn(`[SessionManager] ${pending.method} failed on ${topic}:`, response.error);
+      pending.reject?.(fromJsonRpcError(response.error));
+      return;
+    }
+
+    if (pending.method === SessionMethod.ACKNOWLEDGE) {
+      await this.markAcknowledged(topic);
+    }
+
+    if (pending.method === SessionMethod.PING) {
+      const latency = Date.now() - pending.sentAt;
+      console.log(`[SessionManager] Session pong received in ${latency}ms:`, topic);
+      this.heartbeat.recordPong(topic, latency);
+      const event: PongEvent = { topic, latency };
+      super.emit(SessionEvent.PONG, event);
+      pending.resolve?.(latency);
+    }
   }
 
   /**
    * 处理 Session 事件
    */
-  private async handleSessionEvent(topic: string, data: any): Promise<void> {
+  private async handleSessionEvent(topic: string, id: number, data: any): Promise<void> {
     const session = await this.store.get(topic);
     if (!session) {
       console.warn('[SessionManager] Session not found:', topic);
       return;
     }
 
+    // 拒绝未经批准的事件或链
+    try {
+      this.validateEvent(session.namespaces, data.event.name, data.chainId);
+    } catch (error: any) {
+      console.warn('[SessionManager] Session event rejected:', error.message);
+      await this.sendMessage(topic, formatJsonRpcError(id, toJsonRpcError({ code: error.code, message: error.message })));
+      return;
+    }
+
+    await this.sendMessage(topic, formatJsonRpcResult(id, true));
+
     console.log('[SessionManager] Session event received:', data.event.name);
-    super.emit('session_event', {
+    const event: SessionEventData = {
       topic,
       event: data.event,
       chainId: data.chainId
+    };
+    super.emit(SessionEvent.EVENT_RECEIVED, event);
+  }
+
+  /**
+   * 验证事件名和链是否在已批准的命名空间内
+   */
+  private validateEvent(namespaces: SessionNamespaces, name: string, chainId: string): void {
+    const namespace = Object.values(namespaces).find(ns => ns.chains?.includes(chainId));
+    if (!namespace) {
+      throw new SessionError(
+        SessionErrorCode.UNSUPPORTED_CHAINS,
+        `Chain not approved: ${chainId}`
+      );
+    }
+
+    if (!namespace.events.includes(name)) {
+      throw new SessionError(
+        SessionErrorCode.UNSUPPORTED_EVENTS,
+        `Event not approved: ${name}`
+      );
+    }
+  }
+
+  /**
+   * 从 ECDH 共享密钥派生 Session topic 和加密密钥
+   *
+   * sessionKey = HKDF(sharedKey)，topic = SHA256(sessionKey)
+   * topic 会以明文出现在 relay 上，只能单向派生，不能暴露密钥
+   */
+  private async deriveSessionKeys(sharedKey: string): Promise<{ topic: string; sessionKey: string }> {
+    const sessionKey = await this.cryptoManager.deriveSymmetricKey(sharedKey, this.SESSION_KEY_INFO);
+    const topic = await this.cryptoManager.hash(sessionKey);
+    return { topic, sessionKey };
+  }
+
+  /**
+   * 开始等待提议的批准，提议过期时以 PROPOSAL_EXPIRED 拒绝
+   */
+  private trackProposal(proposal: SessionProposal): void {
+    let resolve!: (session: SessionData) => void;
+    let reject!: (error: SessionError) => void;
+    const promise = new Promise<SessionData>((res, rej) => {
+      resolve = res;
+      reject = rej;
     });
+    // 调用方可能不等待结果
+    promise.catch(() => undefined);
+
+    const timeout = setTimeout(() => {
+      this.store.deleteProposal(proposal.proposalId).catch(error => {
+        console.error('[SessionManager] Failed to delete expired proposal:', error);
+      });
+      this.settleProposal(proposal.proposalId, new SessionError(
+        SessionErrorCode.PROPOSAL_EXPIRED,
+        `Proposal expired: ${proposal.proposalId}`
+      ));
+    }, Math.max(proposal.expiryTimestamp - Date.now(), 0));
+
+    this.proposalWaiters.set(proposal.proposalId, { promise, resolve, reject, timeout });
+  }
+
+  /**
+   * 以 Session 或错误结束等待中的提议
+   */
+  private settleProposal(proposalId: number, result: SessionData | SessionError): void {
+    const waiter = this.proposalWaiters.get(proposalId);
+    if (!waiter) {
+      return;
+    }
+
+    clearTimeout(waiter.timeout);
+    this.proposalWaiters.delete(proposalId);
+    if (result instanceof SessionError) {
+      waiter.reject(result);
+    } else {
+      waiter.resolve(result);
+    }
+  }
+
+  /**
+   * 发送 JSON-RPC 请求，需要确认的请求会记录等待响应
+   *
+   * @param waiter - 需要等待响应结果时传入，超时后以 RESPONSE_TIMEOUT 拒绝
+   */
+  private async sendRequest(
+    topic: string,
+    method: SessionMethod,
+    params: any,
+    id?: number,
+    waiter?: { resolve: (result: any) => void; reject: (error: any) => void; timeout: number }
+  ): Promise<number> {
+    const request = formatJsonRpcRequest(method, params, id);
+
+    if (method !== SessionMethod.REQUEST && method !== SessionMethod.DELETE) {
+      const timeout = setTimeout(() => {
+        this.pendingResponses.delete(request.id);
+        if (method === SessionMethod.PING) {
+          this.heartbeat.recordMiss(topic);
+        }
+        waiter?.reject(new SessionError(
+          SessionErrorCode.RESPONSE_TIMEOUT,
+          `No response to ${method} on ${topic}`
+        ));
+      }, waiter?.timeout ?? this.RESPONSE_TIMEOUT);
+      this.pendingResponses.set(request.id, {
+        topic,
+        method,
+        timeout,
+        sentAt: Date.now(),
+        resolve: waiter?.resolve,
+        reject: waiter?.reject
+      });
+    }
+
+    try {
+      await this.sendMessage(topic, request);
+    } catch (error) {
+      const pending = this.pendingResponses.get(request.id);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingResponses.delete(request.id);
+      }
+      throw error;
+    }
+
+    return request.id;
   }
 
   /**
    * 发送消息
    */
-  private async sendMessage(topic: string, message: any): Promise<void> {
+  private async sendMessage(topic: string, message: JsonRpcPayload): Promise<void> {
     if (!this.relay) {
       throw new SessionError(
         SessionErrorCode.UNKNOWN_ERROR,
@@ -923,8 +1856,24 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       );
     }
 
-    const payload = JSON.stringify(message);
+    const sessionKey = await this.cryptoManager.getSymKey(topic);
+    if (!sessionKey) {
+      throw new SessionError(
+        SessionErrorCode.SESSION_NOT_FOUND,
+        `Session key not found: ${topic}`
+      );
+    }
+
+    // 使用 Session 密钥加密消息
+    const payload = await sealMessage(this.cryptoManager, sessionKey, message);
+
+    this.publishedPayloads.add(payload);
+    if (this.publishedPayloads.size > this.MAX_PUBLISHED_PAYLOADS) {
+      this.publishedPayloads.delete(this.publishedPayloads.values().next().value!);
+    }
+
     await this.relay.publish(topic, payload);
+    this.lastActivity.set(topic, Date.now());
   }
 
   /**
@@ -1040,23 +1989,61 @@ export class SessionManager extends EventEmitter implements ISessionManager {
   }
 
   /**
-   * 清理过期的 Session 和提议
+   * 到期回调：确认仍已过期后结束 Session
    */
-  private async cleanupExpired(): Promise<void> {
-    const now = Date.now();
+  private async handleExpiry(topic: string): Promise<void> {
+    const session = this.sessions.get(topic);
+    if (!session) {
+      return;
+    }
 
-    // 清理过期的 Session
-    const sessions = this.getAll();
-    for (const session of sessions) {
-      if (now >= session.expiry * 1000) {
-        console.log('[SessionManager] Cleaning up expired session:', session.topic);
-        await this.disconnect({
-          topic: session.topic,
-          reason: { code: 0, message: 'Session expired' }
-        });
+    if (Date.now() < session.expiry * 1000) {
+      this.expiryScheduler.schedule(topic, session.expiry);
+      return;
+    }
+
+    console.log('[SessionManager] Session expired:', topic);
+    await this.terminateSession(
+      session,
+      SessionStatus.EXPIRED,
+      { code: SessionErrorCode.SESSION_EXPIRED, message: 'Session expired' },
+      SessionErrorCode.SESSION_EXPIRED
+    );
+  }
+
+  /**
+   * 即将过期：Controller 开启自动续期且近期有活动时续期，否则发出提醒
+   */
+  private async handleExpiring(topic: string, expiry: number): Promise<void> {
+    const session = this.sessions.get(topic);
+    if (!session || session.status !== SessionStatus.SETTLED) {
+      return;
+    }
+
+    const last = this.lastActivity.get(topic);
+    const recentlyActive = last !== undefined && Date.now() - last <= this.activityWindow * 1000;
+    if (this.autoExtend && recentlyActive && session.controller === session.self.publicKey) {
+      try {
+        await this.extend({ topic, expiry: calculateExpiry(this.SESSION_EXPIRY) });
+        return;
+      } catch (error) {
+        console.warn('[SessionManager] Auto extend failed for', topic, error);
       }
     }
 
+    const event: ExpiringEvent = { topic, expiry };
+    super.emit(SessionEvent.EXPIRING, event);
+  }
+
+  /**
+   * 清理过期的提议
+   */
+  private async cleanupExpired(): Promise<void> {
+    const now = Date.now();
+
+    // 清理存储中的过期数据
+    await this.store.deleteExpired();
+
     // 清理过期的提议
     const proposals = await this.store.getAllProposals();
     for (const proposal of proposals) {
@@ -1088,6 +2075,25 @@ export class SessionManager extends EventEmitter implements ISessionManager {
     }
   }
 
+  /**
+   * 本地可用的 relay 协议（按优先级）
+   */
+  private getLocalProtocols(): RelayProtocol[] {
+    return this.relay!.getProtocols ? this.relay!.getProtocols() : [this.relay!.getProtocol()];
+  }
+
+  /**
+   * 协商 relay：按提议方的优先级保留本地也支持的协议
+   * 没有交集时回退到提议的主 relay（提议本身就是通过它送达的）
+   */
+  private negotiateRelays(proposal: SessionProposal): RelayProtocol[] {
+    const proposed = proposal.relays?.length ? proposal.relays : [proposal.relay];
+    const local = this.getLocalProtocols().map(relay => relay.protocol);
+    const relays = proposed.filter(relay => local.includes(relay.protocol));
+
+    return relays.length > 0 ? relays : [proposal.relay];
+  }
+
   /**
    * 确保已初始化
    */
@@ -1105,6 +2111,7 @@ export class SessionManager extends EventEmitter implements ISessionManager {
    */
   async destroy(): Promise<void> {
     this.stopCleanupTimer();
+    this.expiryScheduler.clear();
 
     // 断开所有 Session
     const sessions = this.getAll();
@@ -1129,6 +2136,34 @@ export class SessionManager extends EventEmitter implements ISessionManager {
     }
     this.pendingRequests.clear();
 
+    for (const pending of this.pendingResponses.values()) {
+      clearTimeout(pending.timeout);
+      pending.reject?.(new SessionError(
+        SessionErrorCode.UNKNOWN_ERROR,
+        'Client destroyed'
+      ));
+    }
+    this.pendingResponses.clear();
+    this.heartbeat.clear();
+
+    for (const id of Array.from(this.incomingRequests.keys())) {
+      this.removeIncomingRequest(id);
+    }
+
+    for (const proposalId of Array.from(this.proposalWaiters.keys())) {
+      this.settleProposal(proposalId, new SessionError(
+        SessionErrorCode.UNKNOWN_ERROR,
+        'Client destroyed'
+      ));
+    }
+
+    for (const topic of Array.from(this.ackTimers.keys())) {
+      this.clearAcknowledgement(topic, new SessionError(
+        SessionErrorCode.UNKNOWN_ERROR,
+        'Client destroyed'
+      ));
+    }
+
     this.initialized = false;
     this.removeAllListeners();
     console.log('[SessionManager] Destroyed');
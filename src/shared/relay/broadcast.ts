@@ -0,0 +1,180 @@
+import {
+  IRelay,
+  RelayConfig,
+  RelayMessage,
+  MessageCallback,
+  RelayProtocol,
+  LocalRelayFrame
+} from '../types/relay';
+import { isLocalRelayFrame } from '../utils/local-frame';
+
+/**
+ * 频道消息事件
+ */
+export interface BroadcastChannelEvent {
+  data: unknown;
+  origin: string;
+}
+
+/**
+ * Relay 用到的 BroadcastChannel 接口，浏览器和 Node worker_threads 的实现都满足
+ */
+export interface BroadcastChannelLike {
+  addEventListener(type: 'message', listener: (event: BroadcastChannelEvent) => void): void;
+  postMessage(message: unknown): void;
+  close(): void;
+}
+
+/**
+ * BroadcastChannel 构造函数
+ */
+export type BroadcastChannelConstructor = new (name: string) => BroadcastChannelLike;
+
+/**
+ * 基于 BroadcastChannel 的 Relay 实现
+ * 用于同一设备、同源的多个标签页或 Worker 之间通信，不需要网络
+ */
+export class BroadcastChannelRelay implements IRelay {
+  private channel: BroadcastChannelLike | null = null;
+  private channelName: string;
+  private BroadcastChannelImpl?: BroadcastChannelConstructor;
+  private subscriptions: Map<string, MessageCallback> = new Map();
+  private isStarted = false;
+
+  static readonly PROTOCOL = 'broadcastchannel';
+  private static readonly DEFAULT_CHANNEL_NAME = 'yeying-relay';
+
+  constructor(config: Partial<RelayConfig> = {}, BroadcastChannelImpl?: BroadcastChannelConstructor) {
+    this.channelName = config.channelName || BroadcastChannelRelay.DEFAULT_CHANNEL_NAME;
+    this.BroadcastChannelImpl = BroadcastChannelImpl
+      || (typeof BroadcastChannel !== 'undefined' ? BroadcastChannel : undefined);
+  }
+
+  /**
+   * 初始化
+   */
+  async init(): Promise<void> {
+    if (!this.BroadcastChannelImpl) {
+      throw new Error('BroadcastChannel is not available in this environment');
+    }
+  }
+
+  /**
+   * 打开频道
+   */
+  async start(): Promise<void> {
+    if (this.isStarted) {
+      console.warn('[BroadcastChannelRelay] Already started');
+      return;
+    }
+
+    this.channel = new this.BroadcastChannelImpl!(this.channelName);
+    this.channel.addEventListener('message', event => this.handleMessage(event));
+    this.isStarted = true;
+    console.log(`[BroadcastChannelRelay] Opened channel: ${this.channelName}`);
+  }
+
+  /**
+   * 关闭频道
+   */
+  async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.subscriptions.clear();
+    this.channel?.close();
+    this.channel = null;
+    this.isStarted = false;
+    console.log(`[BroadcastChannelRelay] Closed channel: ${this.channelName}`);
+  }
+
+  /**
+   * 发布消息到指定 topic
+   */
+  async publish(topic: string, payload: string): Promise<void> {
+    if (!this.isStarted || !this.channel) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    const message: RelayMessage = {
+      topic,
+      payload,
+      publishedAt: Date.now()
+    };
+
+    const frame: LocalRelayFrame = { channel: this.channelName, message };
+    this.channel.postMessage(frame);
+  }
+
+  /**
+   * 订阅指定 topic 的消息
+   */
+  async subscribe(topic: string, callback: MessageCallback): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    if (this.subscriptions.has(topic)) {
+      console.warn(`[BroadcastChannelRelay] Already subscribed to topic: ${topic}`);
+      return;
+    }
+
+    this.subscriptions.set(topic, callback);
+  }
+
+  /**
+   * 取消订阅指定 topic
+   */
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.subscriptions.delete(topic)) {
+      console.warn(`[BroadcastChannelRelay] Not subscribed to topic: ${topic}`);
+    }
+  }
+
+  /**
+   * 检查是否已连接
+   */
+  isConnected(): boolean {
+    return this.isStarted;
+  }
+
+  /**
+   * 获取协议信息
+   */
+  getProtocol(): RelayProtocol {
+    return {
+      protocol: BroadcastChannelRelay.PROTOCOL,
+      data: JSON.stringify({
+        channelName: this.channelName
+      })
+    };
+  }
+
+  /**
+   * 获取订阅的 topic 列表
+   */
+  getSubscribedTopics(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  /**
+   * 处理频道消息
+   */
+  private handleMessage(event: BroadcastChannelEvent): void {
+    // BroadcastChannel 只在同源上下文之间通信，这里再校验一次来源
+    if (event.origin && typeof location !== 'undefined' && event.origin !== location.origin) {
+      console.warn(`[BroadcastChannelRelay] Dropped message from origin: ${event.origin}`);
+      return;
+    }
+
+    if (!isLocalRelayFrame(event.data, this.channelName)) {
+      return;
+    }
+
+    const callback = this.subscriptions.get(event.data.message.topic);
+    if (callback) {
+      callback(event.data.message);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { IRelay, RelayMessage, MessageCallback, RelayProtocol } from '../types/relay';
+
+/**
+ * 进程内消息总线
+ *
+ * 多个 InMemoryRelay 共享同一个总线即可互相通信，
+ * 投递是异步的，发布者自己订阅了该 topic 时也会收到消息（与 Waku 行为一致）
+ */
+export class InMemoryRelayBus {
+  private subscribers: Map<string, Set<MessageCallback>> = new Map();
+
+  // 默认共享总线
+  static readonly shared = new InMemoryRelayBus();
+
+  /**
+   * 发布消息给该 topic 的所有订阅者
+   */
+  publish(message: RelayMessage): void {
+    const callbacks = this.subscribers.get(message.topic);
+    if (!callbacks) {
+      return;
+    }
+
+    for (const callback of Array.from(callbacks)) {
+      setTimeout(() => {
+        try {
+          callback({ ...message });
+        } catch (error) {
+          console.error('[InMemoryRelayBus] Subscriber failed:', error);
+        }
+      }, 0);
+    }
+  }
+
+  /**
+   * 订阅 topic
+   */
+  subscribe(topic: string, callback: MessageCallback): void {
+    let callbacks = this.subscribers.get(topic);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.subscribers.set(topic, callbacks);
+    }
+    callbacks.add(callback);
+  }
+
+  /**
+   * 取消订阅 topic
+   */
+  unsubscribe(topic: string, callback: MessageCallback): void {
+    const callbacks = this.subscribers.get(topic);
+    if (!callbacks) {
+      return;
+    }
+    callbacks.delete(callback);
+    if (callbacks.size === 0) {
+      this.subscribers.delete(topic);
+    }
+  }
+}
+
+/**
+ * 进程内 Relay 实现
+ * 不依赖网络，用于单元测试和同一应用内嵌钱包的场景
+ */
+export class InMemoryRelay implements IRelay {
+  private bus: InMemoryRelayBus;
+  private subscriptions: Map<string, MessageCallback> = new Map();
+  private isStarted = false;
+
+  static readonly PROTOCOL = 'memory';
+
+  constructor(bus: InMemoryRelayBus = InMemoryRelayBus.shared) {
+    this.bus = bus;
+  }
+
+  /**
+   * 初始化
+   */
+  async init(): Promise<void> {
+    // 无需初始化
+  }
+
+  /**
+   * 启动
+   */
+  async start(): Promise<void> {
+    this.isStarted = true;
+  }
+
+  /**
+   * 停止并取消所有订阅
+   */
+  async stop(): Promise<void> {
+    for (const topic of Array.from(this.subscriptions.keys())) {
+      await this.unsubscribe(topic);
+    }
+    this.isStarted = false;
+  }
+
+  /**
+   * 发布消息到指定 topic
+   */
+  async publish(topic: string, payload: string): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    const message: RelayMessage = {
+      topic,
+      payload,
+      publishedAt: Date.now()
+    };
+
+    this.bus.publish(message);
+  }
+
+  /**
+   * 订阅指定 topic 的消息
+   */
+  async subscribe(topic: string, callback: MessageCallback): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    if (this.subscriptions.has(topic)) {
+      console.warn(`[InMemoryRelay] Already subscribed to topic: ${topic}`);
+      return;
+    }
+
+    this.bus.subscribe(topic, callback);
+    this.subscriptions.set(topic, callback);
+  }
+
+  /**
+   * 取消订阅指定 topic
+   */
+  async unsubscribe(topic: string): Promise<void> {
+    const callback = this.subscriptions.get(topic);
+    if (!callback) {
+      console.warn(`[InMemoryRelay] Not subscribed to topic: ${topic}`);
+      return;
+    }
+
+    this.bus.unsubscribe(topic, callback);
+    this.subscriptions.delete(topic);
+  }
+
+  /**
+   * 检查是否已连接
+   */
+  isConnected(): boolean {
+    return this.isStarted;
+  }
+
+  /**
+   * 获取协议信息
+   */
+  getProtocol(): RelayProtocol {
+    return {
+      protocol: InMemoryRelay.PROTOCOL
+    };
+  }
+
+  /**
+   * 获取订阅的 topic 列表
+   */
+  getSubscribedTopics(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+}
@@ -0,0 +1,299 @@
+import { EventEmitter } from 'events';
+import {
+  IRelay,
+  RelayMessage,
+  MessageCallback,
+  RelayProtocol,
+  RelayConnectionState,
+  RelayStateChange
+} from '../types/relay';
+import { RelayEvent } from '../types/common';
+
+/**
+ * 多 Relay 组合
+ *
+ * 同时持有多个 IRelay：
+ * - 发布时优先使用主 relay（列表中的第一个），失败时依次切换到备用 relay
+ * - 在所有 relay 上订阅，合并收到的消息并去重
+ * - 订阅失败的 relay 恢复连接后重新订阅
+ * - 可按 topic 限定使用的 relay（Session 协商出的 relay 列表）
+ * - 任一 relay 可用即视为已连接，部分可用时状态为 degraded
+ */
+export class MultiRelay extends EventEmitter implements IRelay {
+  private relays: IRelay[];
+  private subscriptions: Map<string, MessageCallback> = new Map();
+  private subscribed: Map<IRelay, Set<string>> = new Map();  // 各 relay 上已成功订阅的 topic
+  private topicProtocols: Map<string, string[]> = new Map();
+  private seenMessages: Set<string> = new Set();
+  private state: RelayConnectionState = RelayConnectionState.DISCONNECTED;
+  private onMessage = (message: RelayMessage): void => this.handleMessage(message);
+
+  private static readonly MAX_SEEN_MESSAGES = 1000;
+
+  constructor(relays: IRelay[]) {
+    super();
+    if (relays.length === 0) {
+      throw new Error('At least one relay is required');
+    }
+    this.relays = relays;
+
+    for (const relay of relays) {
+      this.subscribed.set(relay, new Set());
+      if (relay instanceof EventEmitter) {
+        relay.on(RelayEvent.STATE_CHANGED, (change: RelayStateChange) => {
+          this.updateState();
+          if (change.state === RelayConnectionState.CONNECTED) {
+            this.resubscribe(relay);
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * 获取所有 relay
+   */
+  getRelays(): IRelay[] {
+    return [...this.relays];
+  }
+
+  /**
+   * 初始化所有 relay，至少一个成功即可
+   */
+  async init(): Promise<void> {
+    await this.forEachRelay('init', relay => relay.init());
+  }
+
+  /**
+   * 启动所有 relay，至少一个成功即可
+   */
+  async start(): Promise<void> {
+    await this.forEachRelay('start', relay => relay.isConnected() ? Promise.resolve() : relay.start());
+    this.updateState();
+  }
+
+  /**
+   * 停止所有 relay
+   */
+  async stop(): Promise<void> {
+    await Promise.allSettled(this.relays.map(relay => relay.stop()));
+    this.subscriptions.clear();
+    this.subscribed.forEach(topics => topics.clear());
+    this.topicProtocols.clear();
+    this.seenMessages.clear();
+    this.updateState();
+  }
+
+  /**
+   * 发布消息：按优先级尝试 topic 可用的 relay，直到成功
+   */
+  async publish(topic: string, payload: string): Promise<void> {
+    const candidates = this.getRelaysForTopic(topic);
+
+    // 已连接的 relay 优先，保持原有优先级
+    const ordered = [
+      ...candidates.filter(relay => relay.isConnected()),
+      ...candidates.filter(relay => !relay.isConnected())
+    ];
+
+    let lastError: unknown;
+    for (const relay of ordered) {
+      try {
+        await relay.publish(topic, payload);
+        return;
+      } catch (error) {
+        lastError = error;
+        console.warn(`[MultiRelay] Publish via ${relay.getProtocol().protocol} failed, trying next relay:`, error);
+      }
+    }
+
+    throw new Error(`Failed to publish message on all relays: ${lastError}`);
+  }
+
+  /**
+   * 在 topic 可用的所有 relay 上订阅
+   */
+  async subscribe(topic: string, callback: MessageCallback): Promise<void> {
+    if (this.subscriptions.has(topic)) {
+      console.warn(`[MultiRelay] Already subscribed to topic: ${topic}`);
+      return;
+    }
+
+    this.subscriptions.set(topic, callback);
+
+    const relays = this.getRelaysForTopic(topic);
+    const results = await Promise.allSettled(relays.map(relay => this.subscribeRelay(relay, topic)));
+
+    if (results.every(result => result.status === 'rejected')) {
+      this.subscriptions.delete(topic);
+      throw new Error(`Failed to subscribe on all relays: ${(results[0] as PromiseRejectedResult).reason}`);
+    }
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`[MultiRelay] Subscribe via ${relays[index].getProtocol().protocol} failed, retrying when it reconnects:`, result.reason);
+      }
+    });
+  }
+
+  /**
+   * 在所有 relay 上取消订阅
+   */
+  async unsubscribe(topic: string): Promise<void> {
+    this.subscriptions.delete(topic);
+    this.topicProtocols.delete(topic);
+    this.subscribed.forEach(topics => topics.delete(topic));
+    await Promise.allSettled(this.relays.map(relay => relay.unsubscribe(topic)));
+  }
+
+  /**
+   * 任一 relay 已连接即视为已连接
+   */
+  isConnected(): boolean {
+    return this.relays.some(relay => relay.isConnected());
+  }
+
+  /**
+   * 主 relay 的协议信息
+   */
+  getProtocol(): RelayProtocol {
+    return this.relays[0].getProtocol();
+  }
+
+  /**
+   * 所有 relay 的协议信息（按优先级）
+   */
+  getProtocols(): RelayProtocol[] {
+    return this.relays.map(relay => relay.getProtocol());
+  }
+
+  /**
+   * 限定 topic 使用的 relay（按协议名匹配）
+   */
+  setTopicProtocols(topic: string, protocols: RelayProtocol[]): void {
+    const names = protocols.map(protocol => protocol.protocol);
+    if (!this.relays.some(relay => names.includes(relay.getProtocol().protocol))) {
+      console.warn(`[MultiRelay] No local relay matches ${names.join(', ')} for topic: ${topic}`);
+      return;
+    }
+    this.topicProtocols.set(topic, names);
+  }
+
+  /**
+   * 获取连接状态
+   */
+  getState(): RelayConnectionState {
+    return this.state;
+  }
+
+  /**
+   * 获取 topic 可用的 relay，按协商顺序排列
+   */
+  private getRelaysForTopic(topic: string): IRelay[] {
+    const names = this.topicProtocols.get(topic);
+    if (!names) {
+      return this.relays;
+    }
+
+    return this.relays
+      .filter(relay => names.includes(relay.getProtocol().protocol))
+      .sort((a, b) => names.indexOf(a.getProtocol().protocol) - names.indexOf(b.getProtocol().protocol));
+  }
+
+  /**
+   * 在单个 relay 上订阅并记录
+   */
+  private async subscribeRelay(relay: IRelay, topic: string): Promise<void> {
+    await relay.subscribe(topic, this.onMessage);
+    this.subscribed.get(relay)!.add(topic);
+  }
+
+  /**
+   * relay 恢复连接后补订之前失败的 topic
+   */
+  private async resubscribe(relay: IRelay): Promise<void> {
+    const subscribed = this.subscribed.get(relay)!;
+    const topics = Array.from(this.subscriptions.keys()).filter(topic =>
+      !subscribed.has(topic) && this.getRelaysForTopic(topic).includes(relay)
+    );
+
+    for (const topic of topics) {
+      try {
+        await this.subscribeRelay(relay, topic);
+        console.log(`[MultiRelay] Resubscribed via ${relay.getProtocol().protocol}: ${topic}`);
+      } catch (error) {
+        console.warn(`[MultiRelay] Resubscribe via ${relay.getProtocol().protocol} failed: ${topic}`, error);
+      }
+    }
+  }
+
+  /**
+   * 合并多个 relay 的消息并去重
+   */
+  private handleMessage(message: RelayMessage): void {
+    const callback = this.subscriptions.get(message.topic);
+    if (!callback) {
+      return;
+    }
+
+    // 加密 payload 带随机 IV，同一内容的 payload 即同一条消息
+    const key = `${message.topic}:${message.payload}`;
+    if (this.seenMessages.has(key)) {
+      return;
+    }
+
+    this.seenMessages.add(key);
+    if (this.seenMessages.size > MultiRelay.MAX_SEEN_MESSAGES) {
+      this.seenMessages.delete(this.seenMessages.values().next().value!);
+    }
+
+    callback(message);
+  }
+
+  /**
+   * 对每个 relay 执行操作，全部失败时抛出异常
+   */
+  private async forEachRelay(action: string, run: (relay: IRelay) => Promise<void>): Promise<void> {
+    const results = await Promise.allSettled(this.relays.map(run));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`[MultiRelay] Failed to ${action} ${this.relays[index].getProtocol().protocol} relay:`, result.reason);
+      }
+    });
+
+    if (results.every(result => result.status === 'rejected')) {
+      throw new Error(`Failed to ${action} all relays: ${(results[0] as PromiseRejectedResult).reason}`);
+    }
+  }
+
+  /**
+   * 汇总各 relay 的连接状态
+   */
+  private updateState(): void {
+    const states = this.relays.map(relay =>
+      relay.getState
+        ? relay.getState()
+        : (relay.isConnected() ? RelayConnectionState.CONNECTED : RelayConnectionState.DISCONNECTED)
+    );
+
+    let state: RelayConnectionState;
+    if (states.every(s => s === RelayConnectionState.CONNECTED)) {
+      state = RelayConnectionState.CONNECTED;
+    } else if (states.some(s => s === RelayConnectionState.CONNECTED || s === RelayConnectionState.DEGRADED)) {
+      state = RelayConnectionState.DEGRADED;
+    } else if (states.some(s => s === RelayConnectionState.CONNECTING)) {
+      state = RelayConnectionState.CONNECTING;
+    } else {
+      state = RelayConnectionState.DISCONNECTED;
+    }
+
+    if (state === this.state) {
+      return;
+    }
+
+    const change: RelayStateChange = { state, previous: this.state };
+    this.state = state;
+    this.emit(RelayEvent.STATE_CHANGED, change);
+  }
+}
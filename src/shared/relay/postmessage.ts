@@ -0,0 +1,205 @@
+import {
+  IRelay,
+  RelayConfig,
+  RelayMessage,
+  MessageCallback,
+  RelayProtocol,
+  LocalRelayFrame
+} from '../types/relay';
+import { isLocalRelayFrame } from '../utils/local-frame';
+
+/**
+ * postMessage 目标（iframe.contentWindow、window.parent、window.opener 等）
+ */
+export interface PostMessageTarget {
+  postMessage(message: any, targetOrigin: string): void;
+}
+
+/**
+ * Relay 使用的 message 事件字段（MessageEvent 的子集）
+ */
+export interface PostMessageEvent {
+  data: unknown;
+  origin: string;
+  source: PostMessageTarget | MessageEventSource | null;  // 发送消息的窗口
+}
+
+/**
+ * 接收 message 事件的对象（通常是当前 window）
+ */
+export interface PostMessageSource {
+  addEventListener(type: 'message', listener: (event: PostMessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: PostMessageEvent) => void): void;
+}
+
+/**
+ * postMessage Relay 配置
+ */
+export interface PostMessageRelayOptions extends Partial<RelayConfig> {
+  target: PostMessageTarget;   // 对端窗口
+  targetOrigin: string;        // 对端 origin，不允许使用 '*'
+  source?: PostMessageSource;  // 监听的窗口，默认当前 window
+}
+
+/**
+ * 基于 window.postMessage 的 Relay 实现
+ * 用于页面与 iframe、弹出窗口或浏览器扩展页面之间通信，不需要网络
+ */
+export class PostMessageRelay implements IRelay {
+  private target: PostMessageTarget;
+  private targetOrigin: string;
+  private allowedOrigins: string[];
+  private source?: PostMessageSource;
+  private channelName: string;
+  private subscriptions: Map<string, MessageCallback> = new Map();
+  private listener = (event: PostMessageEvent) => this.handleMessage(event);
+  private isStarted = false;
+
+  static readonly PROTOCOL = 'postmessage';
+  private static readonly DEFAULT_CHANNEL_NAME = 'yeying-relay';
+
+  constructor(options: PostMessageRelayOptions) {
+    if (!options.target) {
+      throw new Error('postMessage target is required');
+    }
+
+    if (!options.targetOrigin || options.targetOrigin === '*') {
+      throw new Error('An explicit targetOrigin is required');
+    }
+
+    this.target = options.target;
+    this.targetOrigin = options.targetOrigin;
+    this.allowedOrigins = options.allowedOrigins || [options.targetOrigin];
+    this.channelName = options.channelName || PostMessageRelay.DEFAULT_CHANNEL_NAME;
+    this.source = options.source || (typeof window !== 'undefined' ? window : undefined);
+  }
+
+  /**
+   * 初始化
+   */
+  async init(): Promise<void> {
+    if (!this.source) {
+      throw new Error('postMessage is not available in this environment');
+    }
+  }
+
+  /**
+   * 开始监听 message 事件
+   */
+  async start(): Promise<void> {
+    if (this.isStarted) {
+      console.warn('[PostMessageRelay] Already started');
+      return;
+    }
+
+    this.source!.addEventListener('message', this.listener);
+    this.isStarted = true;
+    console.log(`[PostMessageRelay] Listening for messages from ${this.allowedOrigins.join(', ')}`);
+  }
+
+  /**
+   * 停止监听
+   */
+  async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.subscriptions.clear();
+    this.source!.removeEventListener('message', this.listener);
+    this.isStarted = false;
+    console.log('[PostMessageRelay] Stopped');
+  }
+
+  /**
+   * 发布消息到指定 topic
+   */
+  async publish(topic: string, payload: string): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    const message: RelayMessage = {
+      topic,
+      payload,
+      publishedAt: Date.now()
+    };
+
+    const frame: LocalRelayFrame = { channel: this.channelName, message };
+    this.target.postMessage(frame, this.targetOrigin);
+  }
+
+  /**
+   * 订阅指定 topic 的消息
+   */
+  async subscribe(topic: string, callback: MessageCallback): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    if (this.subscriptions.has(topic)) {
+      console.warn(`[PostMessageRelay] Already subscribed to topic: ${topic}`);
+      return;
+    }
+
+    this.subscriptions.set(topic, callback);
+  }
+
+  /**
+   * 取消订阅指定 topic
+   */
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.subscriptions.delete(topic)) {
+      console.warn(`[PostMessageRelay] Not subscribed to topic: ${topic}`);
+    }
+  }
+
+  /**
+   * 检查是否已连接
+   */
+  isConnected(): boolean {
+    return this.isStarted;
+  }
+
+  /**
+   * 获取协议信息
+   */
+  getProtocol(): RelayProtocol {
+    return {
+      protocol: PostMessageRelay.PROTOCOL,
+      data: JSON.stringify({
+        channelName: this.channelName
+      })
+    };
+  }
+
+  /**
+   * 获取订阅的 topic 列表
+   */
+  getSubscribedTopics(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  /**
+   * 处理 message 事件
+   */
+  private handleMessage(event: PostMessageEvent): void {
+    if (!this.allowedOrigins.includes(event.origin)) {
+      return;
+    }
+
+    // 只接受来自对端窗口的消息
+    if (event.source && event.source !== this.target) {
+      return;
+    }
+
+    if (!isLocalRelayFrame(event.data, this.channelName)) {
+      return;
+    }
+
+    const callback = this.subscriptions.get(event.data.message.topic);
+    if (callback) {
+      callback(event.data.message);
+    }
+  }
+}
@@ -0,0 +1,511 @@
+import { EventEmitter } from 'events';
+import {
+  IRelay,
+  RelayMessage,
+  MessageCallback,
+  RelayProtocol,
+  DeliveryStatus,
+  DeliveryReport,
+  ReliableFrame,
+  ReliableRelayOptions,
+  RelayConnectionState,
+  RelayStateChange
+} from '../types/relay';
+import { RelayEvent } from '../types/common';
+import { ICryptoManager } from '../types/crypto';
+import { bytesToHex } from '../utils/helpers';
+import { openMessage, sealMessage } from '../utils/envelope';
+
+/**
+ * 待确认的发送消息
+ */
+interface OutgoingMessage {
+  id: string;
+  topic: string;
+  raw: string;              // 序列化后的帧
+  attempt: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 可靠传输 Relay
+ *
+ * 包装任意 IRelay，提供：
+ * - 消息 ID 和确认（ack）
+ * - 指数退避重试
+ * - 按消息 ID 去重
+ * - 离线发件箱，连接恢复后自动发送
+ * - 投递状态事件（RelayEvent.DELIVERY_STATUS）
+ * - 转发被包装 relay 的连接状态事件（RelayEvent.STATE_CHANGED）
+ *
+ * 通信双方都需要使用 ReliableRelay；收到的非可靠帧会原样交给订阅者
+ *
+ * 传入 cryptoManager 时，帧（包括 ack）使用 topic 的对称密钥加密，
+ * 无法解密的帧不会被当作 ack 或重试处理；发送方 ID 按 topic 随机生成
+ */
+export class ReliableRelay extends EventEmitter implements IRelay {
+  private relay: IRelay;
+  private options: Required<ReliableRelayOptions>;
+  private cryptoManager?: ICryptoManager;
+  private senderIds: Map<string, string> = new Map();
+  private subscriptions: Map<string, MessageCallback> = new Map();
+  private pending: Map<string, OutgoingMessage> = new Map();
+  private outbox: OutgoingMessage[] = [];
+  private seen: Map<string, number> = new Map();
+  private flushTimer?: ReturnType<typeof setInterval>;
+  private isStarted = false;
+
+  private static readonly DEFAULT_OPTIONS: Required<ReliableRelayOptions> = {
+    ackTimeout: 5000,
+    maxRetries: 5,
+    maxBackoff: 60000,
+    dedupTtl: 10 * 60 * 1000,
+    maxOutboxSize: 100,
+    flushInterval: 1000
+  };
+
+  constructor(relay: IRelay, options: ReliableRelayOptions = {}, cryptoManager?: ICryptoManager) {
+    super();
+    this.relay = relay;
+    this.options = { ...ReliableRelay.DEFAULT_OPTIONS, ...options };
+    this.cryptoManager = cryptoManager;
+
+    // 连接恢复时立即发送积压消息
+    if (relay instanceof EventEmitter) {
+      relay.on(RelayEvent.STATE_CHANGED, (change: RelayStateChange) => {
+        this.emit(RelayEvent.STATE_CHANGED, change);
+        if (change.state === RelayConnectionState.CONNECTED || change.state === RelayConnectionState.DEGRADED) {
+          this.flush().catch(error => {
+            console.error('[ReliableRelay] Flush failed:', error);
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * 获取被包装的 Relay
+   */
+  getInnerRelay(): IRelay {
+    return this.relay;
+  }
+
+  /**
+   * 初始化
+   */
+  async init(): Promise<void> {
+    await this.relay.init();
+  }
+
+  /**
+   * 启动并发送离线期间积压的消息
+   */
+  async start(): Promise<void> {
+    if (this.isStarted) {
+      console.warn('[ReliableRelay] Already started');
+      return;
+    }
+
+    if (!this.relay.isConnected()) {
+      await this.relay.start();
+    }
+    this.isStarted = true;
+    await this.flush();
+  }
+
+  /**
+   * 停止，未确认和积压的消息标记为失败
+   */
+  async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.isStarted = false;
+    this.stopFlushTimer();
+
+    const unfinished = [...Array.from(this.pending.values()), ...this.outbox];
+    this.pending.clear();
+    this.outbox = [];
+    for (const message of unfinished) {
+      clearTimeout(message.timer);
+      this.report(message, DeliveryStatus.FAILED, 'Relay stopped');
+    }
+
+    this.subscriptions.clear();
+    this.senderIds.clear();
+    this.seen.clear();
+    await this.relay.stop();
+  }
+
+  /**
+   * 发布消息
+   * 发送（或离线入队）后即返回，投递结果通过 RelayEvent.DELIVERY_STATUS 事件通知
+   */
+  async publish(topic: string, payload: string): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    const id = ReliableRelay.randomId();
+    const frame: ReliableFrame = { type: 'message', id, from: this.getSenderId(topic), payload };
+    const message: OutgoingMessage = {
+      id,
+      topic,
+      raw: await this.encodeFrame(topic, frame),
+      attempt: 0
+    };
+
+    await this.send(message);
+  }
+
+  /**
+   * 订阅指定 topic 的消息
+   */
+  async subscribe(topic: string, callback: MessageCallback): Promise<void> {
+    if (this.subscriptions.has(topic)) {
+      console.warn(`[ReliableRelay] Already subscribed to topic: ${topic}`);
+      return;
+    }
+
+    this.subscriptions.set(topic, callback);
+    try {
+      await this.relay.subscribe(topic, (message: RelayMessage) => {
+        this.handleMessage(message).catch(error => {
+          console.error('[ReliableRelay] Failed to handle message:', error);
+        });
+      });
+    } catch (error) {
+      this.subscriptions.delete(topic);
+      throw error;
+    }
+  }
+
+  /**
+   * 取消订阅指定 topic
+   */
+  async unsubscribe(topic: string): Promise<void> {
+    this.subscriptions.delete(topic);
+    this.senderIds.delete(topic);
+    await this.relay.unsubscribe(topic);
+  }
+
+  /**
+   * 检查是否已连接
+   */
+  isConnected(): boolean {
+    return this.isStarted && this.relay.isConnected();
+  }
+
+  /**
+   * 获取协议信息
+   */
+  getProtocol(): RelayProtocol {
+    return this.relay.getProtocol();
+  }
+
+  /**
+   * 获取所有可用 relay 的协议信息
+   */
+  getProtocols(): RelayProtocol[] {
+    return this.relay.getProtocols ? this.relay.getProtocols() : [this.relay.getProtocol()];
+  }
+
+  /**
+   * 限定 topic 使用的 relay
+   */
+  setTopicProtocols(topic: string, protocols: RelayProtocol[]): void {
+    this.relay.setTopicProtocols?.(topic, protocols);
+  }
+
+  /**
+   * 获取连接状态
+   */
+  getState(): RelayConnectionState {
+    if (this.relay.getState) {
+      return this.relay.getState();
+    }
+    return this.isConnected() ? RelayConnectionState.CONNECTED : RelayConnectionState.DISCONNECTED;
+  }
+
+  /**
+   * 获取等待确认的消息数量
+   */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * 获取离线发件箱中的消息数量
+   */
+  getOutboxSize(): number {
+    return this.outbox.length;
+  }
+
+  /**
+   * 发送离线发件箱中的消息
+   */
+  async flush(): Promise<void> {
+    if (!this.isStarted || !this.relay.isConnected() || this.outbox.length === 0) {
+      return;
+    }
+
+    const queued = this.outbox;
+    this.outbox = [];
+    this.stopFlushTimer();
+
+    console.log(`[ReliableRelay] Flushing ${queued.length} queued messages`);
+    for (const message of queued) {
+      await this.send(message);
+    }
+  }
+
+  /**
+   * 发送一次消息，并安排确认超时后的重试
+   */
+  private async send(message: OutgoingMessage): Promise<void> {
+    if (!this.relay.isConnected()) {
+      this.enqueue(message);
+      return;
+    }
+
+    message.attempt++;
+    this.pending.set(message.id, message);
+
+    try {
+      await this.relay.publish(message.topic, message.raw);
+      this.report(message, DeliveryStatus.SENT);
+    } catch (error) {
+      console.warn(`[ReliableRelay] Publish failed (attempt ${message.attempt}):`, error);
+    }
+
+    // 等待 ack，超时后按指数退避重试
+    const timeout = Math.min(
+      this.options.ackTimeout * Math.pow(2, message.attempt - 1),
+      this.options.maxBackoff
+    );
+    message.timer = setTimeout(() => this.handleAckTimeout(message), timeout);
+  }
+
+  /**
+   * 确认超时
+   */
+  private handleAckTimeout(message: OutgoingMessage): void {
+    if (!this.pending.has(message.id)) {
+      return;
+    }
+
+    if (message.attempt > this.options.maxRetries) {
+      this.pending.delete(message.id);
+      this.report(message, DeliveryStatus.FAILED, 'No acknowledgement received');
+      return;
+    }
+
+    this.pending.delete(message.id);
+    this.report(message, DeliveryStatus.RETRYING);
+    this.send(message).catch(error => {
+      console.error('[ReliableRelay] Retry failed:', error);
+    });
+  }
+
+  /**
+   * 放入离线发件箱
+   */
+  private enqueue(message: OutgoingMessage): void {
+    if (this.outbox.length >= this.options.maxOutboxSize) {
+      // 发件箱已满，丢弃最早的消息
+      const dropped = this.outbox.shift()!;
+      this.report(dropped, DeliveryStatus.FAILED, 'Outbox full');
+    }
+
+    this.outbox.push(message);
+    this.report(message, DeliveryStatus.QUEUED);
+    this.startFlushTimer();
+  }
+
+  /**
+   * 处理收到的消息
+   */
+  private async handleMessage(message: RelayMessage): Promise<void> {
+    const callback = this.subscriptions.get(message.topic);
+    if (!callback) {
+      return;
+    }
+
+    const frame = await this.decodeFrame(message.topic, message.payload);
+    if (!frame) {
+      // 对方未使用可靠传输（或帧无法认证），原样交给订阅者
+      callback(message);
+      return;
+    }
+
+    // 忽略自己发出的帧（部分 relay 会回传给发布者）
+    if (frame.from === this.senderIds.get(message.topic)) {
+      return;
+    }
+
+    if (frame.type === 'ack') {
+      const outgoing = this.pending.get(frame.id);
+      if (outgoing) {
+        clearTimeout(outgoing.timer);
+        this.pending.delete(frame.id);
+        this.report(outgoing, DeliveryStatus.DELIVERED);
+      }
+      return;
+    }
+
+    // 重复的消息也要回复 ack，对方可能没收到上一次的 ack
+    await this.sendAck(message.topic, frame.id);
+
+    if (this.isDuplicate(frame.id)) {
+      return;
+    }
+
+    callback({ ...message, payload: frame.payload });
+  }
+
+  /**
+   * 回复确认（尽力而为，失败时依赖对方重试）
+   */
+  private async sendAck(topic: string, id: string): Promise<void> {
+    if (!this.relay.isConnected()) {
+      return;
+    }
+
+    const ack: ReliableFrame = { type: 'ack', id, from: this.getSenderId(topic) };
+    try {
+      await this.relay.publish(topic, await this.encodeFrame(topic, ack));
+    } catch (error) {
+      console.warn('[ReliableRelay] Failed to send ack:', error);
+    }
+  }
+
+  /**
+   * 检查并记录消息 ID
+   */
+  private isDuplicate(id: string): boolean {
+    const now = Date.now();
+
+    for (const [seenId, seenAt] of this.seen) {
+      if (now - seenAt <= this.options.dedupTtl) {
+        break;
+      }
+      this.seen.delete(seenId);
+    }
+
+    if (this.seen.has(id)) {
+      return true;
+    }
+
+    this.seen.set(id, now);
+    return false;
+  }
+
+  /**
+   * 离线时定期检查连接是否恢复
+   */
+  private startFlushTimer(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(error => {
+        console.error('[ReliableRelay] Flush failed:', error);
+      });
+    }, this.options.flushInterval);
+  }
+
+  private stopFlushTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  /**
+   * 发出投递状态事件
+   */
+  private report(message: OutgoingMessage, status: DeliveryStatus, error?: string): void {
+    const report: DeliveryReport = {
+      id: message.id,
+      topic: message.topic,
+      status,
+      attempt: message.attempt,
+      error
+    };
+    this.emit(RelayEvent.DELIVERY_STATUS, report);
+  }
+
+  /**
+   * 获取本端在 topic 上的发送方 ID（每个 topic 随机生成，不跨 Session 关联）
+   */
+  private getSenderId(topic: string): string {
+    let senderId = this.senderIds.get(topic);
+    if (!senderId) {
+      senderId = ReliableRelay.randomId();
+      this.senderIds.set(topic, senderId);
+    }
+    return senderId;
+  }
+
+  /**
+   * 序列化帧，有 cryptoManager 时使用 topic 的对称密钥加密
+   */
+  private async encodeFrame(topic: string, frame: ReliableFrame): Promise<string> {
+    if (!this.cryptoManager) {
+      return JSON.stringify(frame);
+    }
+
+    const symKey = await this.cryptoManager.getSymKey(topic);
+    if (!symKey) {
+      throw new Error(`symKey not found for topic: ${topic}`);
+    }
+    return sealMessage(this.cryptoManager, symKey, frame);
+  }
+
+  /**
+   * 解析帧，有 cryptoManager 时只接受用 topic 对称密钥加密的帧
+   */
+  private async decodeFrame(topic: string, payload: string): Promise<ReliableFrame | null> {
+    if (!this.cryptoManager) {
+      return ReliableRelay.parseFrame(payload);
+    }
+
+    const symKey = await this.cryptoManager.getSymKey(topic);
+    if (!symKey) {
+      return null;
+    }
+    try {
+      const frame = await openMessage(this.cryptoManager, symKey, payload);
+      return ReliableRelay.isFrame(frame) ? frame : null;
+    } catch {
+      // 未加密或认证失败
+      return null;
+    }
+  }
+
+  /**
+   * 解析明文帧
+   */
+  private static parseFrame(payload: string): ReliableFrame | null {
+    try {
+      const frame = JSON.parse(payload);
+      return ReliableRelay.isFrame(frame) ? frame : null;
+    } catch {
+      // 非 JSON payload
+      return null;
+    }
+  }
+
+  private static isFrame(frame: any): frame is ReliableFrame {
+    return !!frame
+      && typeof frame.id === 'string'
+      && typeof frame.from === 'string'
+      && (frame.type === 'ack' || (frame.type === 'message' && typeof frame.payload === 'string'));
+  }
+
+  private static randomId(): string {
+    return bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+  }
+}
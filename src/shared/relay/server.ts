@@ -0,0 +1,184 @@
+import { RelayFrame } from '../types/relay';
+
+/**
+ * 服务端 WebSocket 连接（兼容 ws 库的 WebSocket）
+ */
+export interface RelayServerSocket {
+  send(data: string): void;
+  close(): void;
+  on(event: 'message', listener: (data: any) => void): void;
+  on(event: 'close', listener: () => void): void;
+}
+
+/**
+ * 服务端 WebSocket 监听器（兼容 ws 库的 WebSocketServer）
+ */
+export interface RelayServerTransport {
+  on(event: 'connection', listener: (socket: RelayServerSocket) => void): void;
+  close?(): void;
+}
+
+/**
+ * 自建 Relay 服务（Node）
+ *
+ * 职责：
+ * - 管理客户端的 topic 订阅
+ * - 按 topic 转发消息给所有订阅者
+ *
+ * 服务端只转发密文，不持有任何密钥。使用示例：
+ *
+ *   import { WebSocketServer } from 'ws';
+ *   const server = new RelayServer(new WebSocketServer({ port: 8080 }));
+ */
+export class RelayServer {
+  private transport: RelayServerTransport;
+  private topics: Map<string, Set<RelayServerSocket>> = new Map();
+  private connections: Map<RelayServerSocket, Set<string>> = new Map();
+
+  constructor(transport: RelayServerTransport) {
+    this.transport = transport;
+    this.transport.on('connection', socket => this.handleConnection(socket));
+  }
+
+  /**
+   * 处理新连接
+   */
+  private handleConnection(socket: RelayServerSocket): void {
+    this.connections.set(socket, new Set());
+
+    socket.on('message', (data: any) => {
+      this.handleFrame(socket, data);
+    });
+
+    socket.on('close', () => {
+      this.handleClose(socket);
+    });
+  }
+
+  /**
+   * 处理客户端帧
+   */
+  private handleFrame(socket: RelayServerSocket, data: any): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(typeof data === 'string' ? data : data.toString());
+    } catch (error) {
+      console.warn('[RelayServer] Dropped malformed frame');
+      return;
+    }
+
+    if (!parsed || typeof parsed !== 'object') {
+      console.warn('[RelayServer] Dropped malformed frame');
+      return;
+    }
+
+    const frame = parsed as RelayFrame;
+    switch (frame.type) {
+      case 'subscribe':
+        if (typeof frame.topic === 'string') {
+          this.subscribe(socket, frame.topic);
+        }
+        break;
+
+      case 'unsubscribe':
+        if (typeof frame.topic === 'string') {
+          this.unsubscribe(socket, frame.topic);
+        }
+        break;
+
+      case 'publish':
+        if (typeof frame.message?.topic === 'string' && typeof frame.message.payload === 'string') {
+          this.route(frame);
+        }
+        break;
+
+      default:
+        console.warn('[RelayServer] Unknown frame type:', 'type' in parsed ? parsed.type : undefined);
+    }
+  }
+
+  /**
+   * 订阅 topic
+   */
+  private subscribe(socket: RelayServerSocket, topic: string): void {
+    let subscribers = this.topics.get(topic);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.topics.set(topic, subscribers);
+    }
+    subscribers.add(socket);
+    this.connections.get(socket)?.add(topic);
+  }
+
+  /**
+   * 取消订阅 topic
+   */
+  private unsubscribe(socket: RelayServerSocket, topic: string): void {
+    const subscribers = this.topics.get(topic);
+    if (subscribers) {
+      subscribers.delete(socket);
+      if (subscribers.size === 0) {
+        this.topics.delete(topic);
+      }
+    }
+    this.connections.get(socket)?.delete(topic);
+  }
+
+  /**
+   * 按 topic 转发消息
+   */
+  private route(frame: Extract<RelayFrame, { type: 'publish' }>): void {
+    const subscribers = this.topics.get(frame.message.topic);
+    if (!subscribers) {
+      return;
+    }
+
+    const data = JSON.stringify({ type: 'message', message: frame.message } as RelayFrame);
+    for (const subscriber of subscribers) {
+      try {
+        subscriber.send(data);
+      } catch (error) {
+        console.warn('[RelayServer] Failed to deliver message:', error);
+      }
+    }
+  }
+
+  /**
+   * 连接关闭时清理订阅
+   */
+  private handleClose(socket: RelayServerSocket): void {
+    const topics = this.connections.get(socket);
+    if (topics) {
+      for (const topic of Array.from(topics)) {
+        this.unsubscribe(socket, topic);
+      }
+    }
+    this.connections.delete(socket);
+  }
+
+  /**
+   * 获取连接数量
+   */
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * 获取有订阅者的 topic 数量
+   */
+  getTopicCount(): number {
+    return this.topics.size;
+  }
+
+  /**
+   * 关闭服务
+   */
+  close(): void {
+    for (const socket of this.connections.keys()) {
+      socket.close();
+    }
+    this.connections.clear();
+    this.topics.clear();
+    this.transport.close?.();
+  }
+}
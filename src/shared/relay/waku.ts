@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import {
   createLightNode,
   LightNode,
@@ -7,28 +8,63 @@ import {
   IDecodedMessage,
   Decoder,
   Encoder,
+  HealthStatus,
+  WakuEvent,
 } from '@waku/sdk';
-import { IRelay, RelayConfig, RelayMessage, MessageCallback, RelayProtocol } from '../types/relay';
+import {
+  IRelay,
+  RelayConfig,
+  RelayMessage,
+  MessageCallback,
+  RelayProtocol,
+  RelayConnectionState,
+  RelayStateChange
+} from '../types/relay';
+import { RelayEvent } from '../types/common';
+import { IKeyValueStorage } from '../types/storage';
+import { WatermarkStore } from '../store/WatermarkStore';
 
 /**
  * 基于 Waku 的 Relay 实现
+ *
+ * 定期根据节点数和协议可用性检查连接健康状况，
+ * 状态变化时发出 RelayEvent.STATE_CHANGED，断线后自动重连并恢复所有订阅。
+ * 开启 storeRecovery 后，按 topic 持久化最后收到消息的 publishedAt，
+ * 订阅和重连时从 Waku Store 查询之后的消息，按顺序去重后交给订阅回调
  */
-export class WakuRelay implements IRelay {
+export class WakuRelay extends EventEmitter implements IRelay {
   private node: LightNode | null = null;
   private config: RelayConfig;
   private subscriptions: Map<string, MessageCallback> = new Map();
+  private handlers: Map<string, (message: IDecodedMessage) => void> = new Map();
   private decoders: Map<string, Decoder> = new Map();
   private encoders: Map<string, Encoder> = new Map();
   private isInitialized = false;
   private isStarted = false;
+  private state: RelayConnectionState = RelayConnectionState.DISCONNECTED;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private isReconnecting = false;
+  private healthListener = () => this.checkHealth();
+  private watermarks: WatermarkStore | null = null;
+  private seenMessages: Set<string> = new Set();
 
   // 默认配置
   private static readonly DEFAULT_CONNECTION_TIMEOUT = 5000;
   private static readonly DEFAULT_CLUSTER_ID = 5432;
   private static readonly DEFAULT_CONTENT_TOPIC_PREFIX = '/walletconnect/1';
   private static readonly DEFAULT_BOOTSTRAP_PEERS = [];
-
-  constructor(config: Partial<RelayConfig> = {}) {
+  private static readonly DEFAULT_HEALTH_CHECK_INTERVAL = 10000;
+  private static readonly DEFAULT_MIN_PEERS = 1;
+  private static readonly DEFAULT_RECONNECT_INTERVAL = 1000;
+  private static readonly DEFAULT_MAX_RECONNECT_INTERVAL = 30000;
+  private static readonly DEFAULT_STORE_RECOVERY_WINDOW = 24 * 60 * 60 * 1000;
+  private static readonly STORE_CLOCK_SKEW = 60 * 1000;
+  private static readonly MAX_SEEN_MESSAGES = 1000;
+
+  constructor(config: Partial<RelayConfig> = {}, storage?: IKeyValueStorage) {
+    super();
     const clusterId = config.clusterId || WakuRelay.DEFAULT_CLUSTER_ID
     this.config = {
       protocol: 'waku',
@@ -36,8 +72,18 @@ export class WakuRelay implements IRelay {
       clusterId: clusterId,
       bootstrapPeers: config.bootstrapPeers || WakuRelay.DEFAULT_BOOTSTRAP_PEERS,
       pubsubTopic: config.pubsubTopic || `/waku/2/rs/${clusterId}/0`,
-      contentTopicPrefix: config.contentTopicPrefix || WakuRelay.DEFAULT_CONTENT_TOPIC_PREFIX
+      contentTopicPrefix: config.contentTopicPrefix || WakuRelay.DEFAULT_CONTENT_TOPIC_PREFIX,
+      healthCheckInterval: config.healthCheckInterval || WakuRelay.DEFAULT_HEALTH_CHECK_INTERVAL,
+      minPeers: config.minPeers || WakuRelay.DEFAULT_MIN_PEERS,
+      reconnectInterval: config.reconnectInterval || WakuRelay.DEFAULT_RECONNECT_INTERVAL,
+      maxReconnectInterval: config.maxReconnectInterval || WakuRelay.DEFAULT_MAX_RECONNECT_INTERVAL,
+      storeRecovery: config.storeRecovery || false,
+      storeRecoveryWindow: config.storeRecoveryWindow || WakuRelay.DEFAULT_STORE_RECOVERY_WINDOW
     };
+
+    if (this.config.storeRecovery) {
+      this.watermarks = new WatermarkStore(storage, this.config.storeRecoveryWindow);
+    }
   }
 
   /**
@@ -96,6 +142,8 @@ export class WakuRelay implements IRelay {
       return;
     }
 
+    this.setState(RelayConnectionState.CONNECTING);
+
     try {
       console.log('[WakuRelay] Starting Waku node...');
 
@@ -121,8 +169,10 @@ export class WakuRelay implements IRelay {
       await this.node?.waitForPeers([Protocols.LightPush, Protocols.Filter]);
 
       this.isStarted = true;
+      this.startHealthMonitor();
       console.log('[WakuRelay] Waku node started and connected');
     } catch (error) {
+      this.setState(RelayConnectionState.DISCONNECTED, `${error}`);
       console.error('[WakuRelay] Failed to start:', error);
       throw new Error(`Failed to start Waku relay: ${error}`);
     }
@@ -138,6 +188,7 @@ export class WakuRelay implements IRelay {
 
     try {
       console.log('[WakuRelay] Stopping Waku node...');
+      this.stopHealthMonitor();
 
       // 取消所有订阅
       for (const topic of this.subscriptions.keys()) {
@@ -152,6 +203,7 @@ export class WakuRelay implements IRelay {
 
       this.isStarted = false;
       this.isInitialized = false;
+      this.setState(RelayConnectionState.DISCONNECTED, 'Stopped');
       console.log('[WakuRelay] Waku node stopped');
     } catch (error) {
       console.error('[WakuRelay] Failed to stop:', error);
@@ -272,38 +324,26 @@ export class WakuRelay implements IRelay {
 
       // 创建消息处理器
       const messageHandler = (wakuMessage: IDecodedMessage) => {
-        try {
-          if (!wakuMessage.payload) {
-            console.warn('[WakuRelay] Received message without payload');
-            return;
-          }
-
-          // 解码消息
-          const messageStr = new TextDecoder().decode(wakuMessage.payload);
-          const relayMessage: RelayMessage = JSON.parse(messageStr);
-
-          // 验证 topic
-          if (relayMessage.topic !== topic) {
-            console.warn(`[WakuRelay] Topic mismatch: expected ${topic}, got ${relayMessage.topic}`);
-            return;
-          }
-
+        const relayMessage = this.decodeMessage(topic, wakuMessage);
+        if (relayMessage) {
           console.log(`[WakuRelay] Received message on topic: ${topic}`);
-
-          // 调用回调
-          callback(relayMessage);
-        } catch (error) {
-          console.error('[WakuRelay] Failed to process message:', error);
+          this.deliver(wakuMessage.hashStr, relayMessage, callback);
         }
       };
 
       // 使用 Filter 订阅
       await this.node.filter.subscribe([decoder], messageHandler);
 
-      // 保存订阅
+      // 保存订阅（重连后用于恢复）
       this.subscriptions.set(topic, callback);
+      this.handlers.set(topic, messageHandler);
 
       console.log(`[WakuRelay] Successfully subscribed to topic: ${topic}`);
+
+      // 补齐离线期间错过的消息
+      this.recoverMissedMessages(topic).catch(error => {
+        console.warn(`[WakuRelay] Failed to recover messages for topic ${topic}:`, error);
+      });
     } catch (error) {
       console.error(`[WakuRelay] Failed to subscribe to topic ${topic}:`, error);
       throw new Error(`Failed to subscribe: ${error}`);
@@ -330,6 +370,7 @@ export class WakuRelay implements IRelay {
 
       // 清理
       this.subscriptions.delete(topic);
+      this.handlers.delete(topic);
       this.decoders.delete(topic);
       this.encoders.delete(topic);
 
@@ -344,7 +385,16 @@ export class WakuRelay implements IRelay {
    * 检查是否已连接
    */
   isConnected(): boolean {
-    return this.isStarted && this.node !== null;
+    return this.isStarted
+      && this.node !== null
+      && (this.state === RelayConnectionState.CONNECTED || this.state === RelayConnectionState.DEGRADED);
+  }
+
+  /**
+   * 获取连接状态
+   */
+  getState(): RelayConnectionState {
+    return this.state;
   }
 
   /**
@@ -389,6 +439,264 @@ export class WakuRelay implements IRelay {
     return Array.from(this.subscriptions.keys());
   }
 
+  /**
+   * 启动健康检查
+   */
+  private startHealthMonitor(): void {
+    this.node!.events.addEventListener(WakuEvent.Health, this.healthListener);
+    this.healthTimer = setInterval(this.healthListener, this.config.healthCheckInterval);
+    this.checkHealth();
+  }
+
+  /**
+   * 停止健康检查和重连
+   */
+  private stopHealthMonitor(): void {
+    this.node?.events.removeEventListener(WakuEvent.Health, this.healthListener);
+
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * 根据节点数和协议可用性更新连接状态
+   */
+  private checkHealth(): void {
+    if (!this.isStarted || !this.node || this.isReconnecting) {
+      return;
+    }
+
+    const peerCount = this.getConnectedPeersCount();
+
+    if (peerCount === 0) {
+      this.setState(RelayConnectionState.DISCONNECTED, 'No connected peers', peerCount);
+      this.scheduleReconnect();
+      return;
+    }
+
+    // Unhealthy 表示没有同时支持 LightPush 和 Filter 的节点
+    if (this.node.health === HealthStatus.Unhealthy) {
+      this.setState(RelayConnectionState.DEGRADED, 'LightPush/Filter unavailable', peerCount);
+    } else if (peerCount < this.config.minPeers!) {
+      this.setState(RelayConnectionState.DEGRADED, `Only ${peerCount} peer(s) connected`, peerCount);
+    } else {
+      this.setState(RelayConnectionState.CONNECTED, undefined, peerCount);
+    }
+  }
+
+  /**
+   * 指数退避重连
+   */
+  private scheduleReconnect(): void {
+    if (!this.isStarted || this.reconnectTimer || this.isReconnecting) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.reconnectInterval! * 2 ** this.reconnectAttempts,
+      this.config.maxReconnectInterval!
+    );
+    this.reconnectAttempts++;
+
+    console.log(`[WakuRelay] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect().catch(error => {
+        console.error('[WakuRelay] Reconnect failed:', error);
+      });
+    }, delay);
+  }
+
+  /**
+   * 重新连接节点并恢复所有订阅
+   */
+  private async reconnect(): Promise<void> {
+    if (!this.isStarted || !this.node) {
+      return;
+    }
+
+    this.isReconnecting = true;
+    this.setState(RelayConnectionState.CONNECTING, 'Reconnecting');
+
+    try {
+      for (const peer of this.config.bootstrapPeers || []) {
+        try {
+          await this.node.dial(peer);
+        } catch (error) {
+          console.warn(`[WakuRelay] Failed to connect to peer ${peer}:`, error);
+        }
+      }
+
+      await this.node.waitForPeers([Protocols.LightPush, Protocols.Filter], this.config.connectionTimeout);
+      await this.resubscribe();
+
+      for (const topic of this.subscriptions.keys()) {
+        this.recoverMissedMessages(topic).catch(error => {
+          console.warn(`[WakuRelay] Failed to recover messages for topic ${topic}:`, error);
+        });
+      }
+
+      this.reconnectAttempts = 0;
+      this.isReconnecting = false;
+      console.log('[WakuRelay] Reconnected');
+      this.checkHealth();
+    } catch (error) {
+      this.isReconnecting = false;
+      this.setState(RelayConnectionState.DISCONNECTED, `${error}`, this.getConnectedPeersCount());
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * 重新建立所有 Filter 订阅
+   */
+  private async resubscribe(): Promise<void> {
+    for (const [topic, handler] of this.handlers) {
+      const decoder = this.getOrCreateDecoder(topic);
+
+      try {
+        await this.node!.filter.unsubscribe([decoder]);
+      } catch {
+        // 旧订阅可能已随连接一起失效
+      }
+
+      await this.node!.filter.subscribe([decoder], handler);
+      console.log(`[WakuRelay] Resubscribed to topic: ${topic}`);
+    }
+  }
+
+  /**
+   * 解码 Waku 消息
+   */
+  private decodeMessage(topic: string, wakuMessage: IDecodedMessage): RelayMessage | null {
+    try {
+      if (!wakuMessage.payload) {
+        console.warn('[WakuRelay] Received message without payload');
+        return null;
+      }
+
+      const messageStr = new TextDecoder().decode(wakuMessage.payload);
+      const relayMessage: RelayMessage = JSON.parse(messageStr);
+
+      // 验证 topic
+      if (relayMessage.topic !== topic) {
+        console.warn(`[WakuRelay] Topic mismatch: expected ${topic}, got ${relayMessage.topic}`);
+        return null;
+      }
+
+      return relayMessage;
+    } catch (error) {
+      console.error('[WakuRelay] Failed to process message:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 去重后交给订阅回调，并推进 topic 的水位
+   */
+  private deliver(hash: string, message: RelayMessage, callback: MessageCallback): void {
+    if (this.seenMessages.has(hash)) {
+      return;
+    }
+
+    this.seenMessages.add(hash);
+    if (this.seenMessages.size > WakuRelay.MAX_SEEN_MESSAGES) {
+      // Set 按插入顺序迭代，删除最早的记录
+      this.seenMessages.delete(this.seenMessages.values().next().value!);
+    }
+
+    try {
+      callback(message);
+    } catch (error) {
+      console.error('[WakuRelay] Subscriber failed:', error);
+    }
+
+    this.watermarks?.advance(message.topic, message.publishedAt).catch(error => {
+      console.warn('[WakuRelay] Failed to save watermark:', error);
+    });
+  }
+
+  /**
+   * 从 Waku Store 查询水位之后的消息，按 publishedAt 顺序投递
+   */
+  private async recoverMissedMessages(topic: string): Promise<void> {
+    if (!this.watermarks || !this.node) {
+      return;
+    }
+
+    // 首次订阅的 topic 从现在开始记录
+    const since = await this.watermarks.get(topic);
+    if (since === undefined) {
+      await this.watermarks.advance(topic, Date.now());
+      return;
+    }
+
+    const callback = this.subscriptions.get(topic);
+    if (!callback) {
+      return;
+    }
+
+    // Waku 时间戳由发送方设置，向前多查一段时间以容忍时钟偏差
+    const timeStart = new Date(Math.max(
+      since - WakuRelay.STORE_CLOCK_SKEW,
+      Date.now() - this.config.storeRecoveryWindow!
+    ));
+
+    const recovered: { hash: string; message: RelayMessage }[] = [];
+    await this.node.store.queryWithOrderedCallback(
+      [this.getOrCreateDecoder(topic)],
+      (wakuMessage: IDecodedMessage) => {
+        const message = this.decodeMessage(topic, wakuMessage);
+        if (message && message.publishedAt > since) {
+          recovered.push({ hash: wakuMessage.hashStr, message });
+        }
+      },
+      { timeStart, timeEnd: new Date(), paginationForward: true }
+    );
+
+    if (recovered.length === 0) {
+      return;
+    }
+
+    console.log(`[WakuRelay] Recovered ${recovered.length} message(s) on topic: ${topic}`);
+    recovered.sort((a, b) => a.message.publishedAt - b.message.publishedAt);
+    for (const { hash, message } of recovered) {
+      // 回调可能在补齐过程中被取消
+      if (this.subscriptions.get(topic) !== callback) {
+        return;
+      }
+      this.deliver(hash, message, callback);
+    }
+  }
+
+  /**
+   * 更新连接状态并发出事件
+   */
+  private setState(state: RelayConnectionState, reason?: string, peerCount?: number): void {
+    if (this.state === state) {
+      return;
+    }
+
+    const change: RelayStateChange = {
+      state,
+      previous: this.state,
+      peerCount,
+      reason
+    };
+    this.state = state;
+
+    console.log(`[WakuRelay] State: ${change.previous} -> ${state}${reason ? ` (${reason})` : ''}`);
+    this.emit(RelayEvent.STATE_CHANGED, change);
+  }
+
   /**
    * 清理资源
    */
@@ -399,6 +707,7 @@ export class WakuRelay implements IRelay {
     this.encoders.clear();
     this.decoders.clear();
     this.subscriptions.clear();
+    this.handlers.clear();
 
     console.log('[WakuRelay] Resources cleaned up');
   }
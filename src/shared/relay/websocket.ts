@@ -0,0 +1,357 @@
+import { EventEmitter } from 'events';
+import {
+  IRelay,
+  RelayConfig,
+  RelayFrame,
+  RelayMessage,
+  MessageCallback,
+  RelayProtocol,
+  RelayConnectionState,
+  RelayStateChange
+} from '../types/relay';
+import { RelayEvent } from '../types/common';
+
+/**
+ * WebSocket 构造函数（浏览器原生或 Node 中的兼容实现）
+ */
+export type WebSocketConstructor = new (url: string) => WebSocket;
+
+/**
+ * 基于 WebSocket 的 Relay 实现
+ * 连接自建的 relay 服务（见 RelayServer），断线后按指数退避自动重连并恢复订阅，
+ * 状态变化时发出 RelayEvent.STATE_CHANGED
+ */
+export class WebSocketRelay extends EventEmitter implements IRelay {
+  private socket: WebSocket | null = null;
+  private config: RelayConfig;
+  private WebSocketImpl?: WebSocketConstructor;
+  private subscriptions: Map<string, MessageCallback> = new Map();
+  private isInitialized = false;
+  private isStarted = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private state: RelayConnectionState = RelayConnectionState.DISCONNECTED;
+
+  static readonly PROTOCOL = 'websocket';
+
+  // 默认配置
+  private static readonly DEFAULT_CONNECTION_TIMEOUT = 5000;
+  private static readonly DEFAULT_RECONNECT_INTERVAL = 1000;
+  private static readonly DEFAULT_MAX_RECONNECT_INTERVAL = 30000;
+  private static readonly OPEN = 1;
+
+  constructor(config: Partial<RelayConfig> = {}, WebSocketImpl?: WebSocketConstructor) {
+    super();
+    this.config = {
+      protocol: 'websocket',
+      url: config.url,
+      connectionTimeout: config.connectionTimeout || WebSocketRelay.DEFAULT_CONNECTION_TIMEOUT,
+      reconnectInterval: config.reconnectInterval || WebSocketRelay.DEFAULT_RECONNECT_INTERVAL,
+      maxReconnectInterval: config.maxReconnectInterval || WebSocketRelay.DEFAULT_MAX_RECONNECT_INTERVAL
+    };
+    this.WebSocketImpl = WebSocketImpl || (typeof WebSocket !== 'undefined' ? WebSocket : undefined);
+  }
+
+  /**
+   * 初始化
+   */
+  async init(): Promise<void> {
+    if (this.isInitialized) {
+      console.warn('[WebSocketRelay] Already initialized');
+      return;
+    }
+
+    if (!this.config.url) {
+      throw new Error('WebSocket relay url is required');
+    }
+
+    if (!this.WebSocketImpl) {
+      throw new Error('WebSocket is not available in this environment');
+    }
+
+    this.isInitialized = true;
+  }
+
+  /**
+   * 连接 relay 服务
+   */
+  async start(): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('Relay not initialized. Call init() first.');
+    }
+
+    if (this.isStarted) {
+      console.warn('[WebSocketRelay] Already started');
+      return;
+    }
+
+    try {
+      console.log(`[WebSocketRelay] Connecting to ${this.config.url}...`);
+      this.setState(RelayConnectionState.CONNECTING);
+      await this.connect();
+      this.isStarted = true;
+      console.log('[WebSocketRelay] Connected');
+    } catch (error) {
+      this.setState(RelayConnectionState.DISCONNECTED, `${error}`);
+      console.error('[WebSocketRelay] Failed to start:', error);
+      throw new Error(`Failed to start WebSocket relay: ${error}`);
+    }
+  }
+
+  /**
+   * 断开连接
+   */
+  async stop(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+
+    console.log('[WebSocketRelay] Stopping...');
+    this.isStarted = false;
+    this.isInitialized = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.subscriptions.clear();
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+
+    this.setState(RelayConnectionState.DISCONNECTED, 'Stopped');
+    console.log('[WebSocketRelay] Stopped');
+  }
+
+  /**
+   * 发布消息到指定 topic
+   */
+  async publish(topic: string, payload: string): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    if (!this.isConnected()) {
+      throw new Error('Failed to publish message: relay disconnected');
+    }
+
+    const message: RelayMessage = {
+      topic,
+      payload,
+      publishedAt: Date.now()
+    };
+
+    this.send({ type: 'publish', message });
+    console.log(`[WebSocketRelay] Published to topic: ${topic}`);
+  }
+
+  /**
+   * 订阅指定 topic 的消息
+   */
+  async subscribe(topic: string, callback: MessageCallback): Promise<void> {
+    if (!this.isStarted) {
+      throw new Error('Relay not started. Call start() first.');
+    }
+
+    if (this.subscriptions.has(topic)) {
+      console.warn(`[WebSocketRelay] Already subscribed to topic: ${topic}`);
+      return;
+    }
+
+    this.subscriptions.set(topic, callback);
+
+    // 未连接时在重连后统一恢复订阅
+    if (this.isConnected()) {
+      this.send({ type: 'subscribe', topic });
+    }
+
+    console.log(`[WebSocketRelay] Subscribed to topic: ${topic}`);
+  }
+
+  /**
+   * 取消订阅指定 topic
+   */
+  async unsubscribe(topic: string): Promise<void> {
+    if (!this.subscriptions.has(topic)) {
+      console.warn(`[WebSocketRelay] Not subscribed to topic: ${topic}`);
+      return;
+    }
+
+    this.subscriptions.delete(topic);
+
+    if (this.isConnected()) {
+      this.send({ type: 'unsubscribe', topic });
+    }
+
+    console.log(`[WebSocketRelay] Unsubscribed from topic: ${topic}`);
+  }
+
+  /**
+   * 检查是否已连接
+   */
+  isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocketRelay.OPEN;
+  }
+
+  /**
+   * 获取连接状态
+   */
+  getState(): RelayConnectionState {
+    return this.state;
+  }
+
+  /**
+   * 获取协议信息
+   */
+  getProtocol(): RelayProtocol {
+    return {
+      protocol: WebSocketRelay.PROTOCOL,
+      data: JSON.stringify({
+        url: this.config.url
+      })
+    };
+  }
+
+  /**
+   * 获取订阅的 topic 列表
+   */
+  getSubscribedTopics(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  /**
+   * 建立 WebSocket 连接
+   */
+  private connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new this.WebSocketImpl!(this.config.url!);
+      let opened = false;
+
+      const timeout = setTimeout(() => {
+        if (!opened) {
+          socket.close();
+          reject(new Error('Connection timeout'));
+        }
+      }, this.config.connectionTimeout);
+
+      socket.onopen = () => {
+        opened = true;
+        clearTimeout(timeout);
+        this.socket = socket;
+        this.reconnectAttempts = 0;
+
+        // 恢复订阅
+        for (const topic of this.subscriptions.keys()) {
+          this.send({ type: 'subscribe', topic });
+        }
+
+        this.setState(RelayConnectionState.CONNECTED);
+        resolve();
+      };
+
+      socket.onmessage = (event: MessageEvent) => {
+        this.handleFrame(event.data);
+      };
+
+      socket.onerror = () => {
+        if (!opened) {
+          clearTimeout(timeout);
+          reject(new Error(`Failed to connect to ${this.config.url}`));
+        }
+      };
+
+      socket.onclose = () => {
+        clearTimeout(timeout);
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+
+        if (opened && this.isStarted) {
+          console.warn('[WebSocketRelay] Connection closed');
+          this.setState(RelayConnectionState.DISCONNECTED, 'Connection closed');
+          this.scheduleReconnect();
+        }
+      };
+    });
+  }
+
+  /**
+   * 指数退避重连
+   */
+  private scheduleReconnect(): void {
+    if (!this.isStarted || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.config.reconnectInterval! * 2 ** this.reconnectAttempts,
+      this.config.maxReconnectInterval!
+    );
+    this.reconnectAttempts++;
+
+    console.log(`[WebSocketRelay] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.isStarted) {
+        return;
+      }
+
+      try {
+        this.setState(RelayConnectionState.CONNECTING, 'Reconnecting');
+        await this.connect();
+        console.log('[WebSocketRelay] Reconnected');
+      } catch (error) {
+        console.warn('[WebSocketRelay] Reconnect failed:', error);
+        this.setState(RelayConnectionState.DISCONNECTED, `${error}`);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * 处理服务端推送的帧
+   */
+  private handleFrame(data: any): void {
+    try {
+      const frame: RelayFrame = JSON.parse(typeof data === 'string' ? data : String(data));
+      if (frame.type !== 'message') {
+        return;
+      }
+
+      const callback = this.subscriptions.get(frame.message.topic);
+      if (!callback) {
+        return;
+      }
+
+      console.log(`[WebSocketRelay] Received message on topic: ${frame.message.topic}`);
+      callback(frame.message);
+    } catch (error) {
+      console.error('[WebSocketRelay] Failed to process message:', error);
+    }
+  }
+
+  /**
+   * 发送帧
+   */
+  private send(frame: RelayFrame): void {
+    this.socket!.send(JSON.stringify(frame));
+  }
+
+  /**
+   * 更新连接状态并发出事件
+   */
+  private setState(state: RelayConnectionState, reason?: string): void {
+    if (this.state === state) {
+      return;
+    }
+
+    const change: RelayStateChange = { state, previous: this.state, reason };
+    this.state = state;
+    this.emit(RelayEvent.STATE_CHANGED, change);
+  }
+}
@@ -0,0 +1,14 @@
+import { IKeyValueStorage } from '../types/storage';
+import { BrowserLocalStorage } from './local';
+import { MemoryStorage } from './memory';
+
+/**
+ * 创建默认存储
+ * 浏览器中使用 localStorage，其他环境退化为内存存储
+ */
+export function createDefaultStorage(): IKeyValueStorage {
+  if (typeof localStorage !== 'undefined') {
+    return new BrowserLocalStorage();
+  }
+  return new MemoryStorage();
+}
@@ -0,0 +1,98 @@
+import { IKeyValueStorage } from '../types/storage';
+
+/**
+ * 基于文件系统的存储实现（Node）
+ * 所有键值保存在一个 JSON 文件中，写入时先写临时文件再重命名
+ */
+export class FileSystemStorage implements IKeyValueStorage {
+  private readonly filePath: string;
+  private items: Map<string, string> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    if (!filePath) {
+      throw new Error('File path is required');
+    }
+    this.filePath = filePath;
+  }
+
+  async getKeys(): Promise<string[]> {
+    const items = await this.load();
+    return Array.from(items.keys());
+  }
+
+  async getEntries(): Promise<[string, string][]> {
+    const items = await this.load();
+    return Array.from(items.entries());
+  }
+
+  async getItem(key: string): Promise<string | undefined> {
+    const items = await this.load();
+    return items.get(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const items = await this.load();
+    items.set(key, value);
+    await this.persist();
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const items = await this.load();
+    if (items.delete(key)) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * 获取 Node fs 模块（延迟加载，避免影响浏览器构建；ESM 构建中没有 require）
+   */
+  private async fs() {
+    try {
+      return await import('fs/promises');
+    } catch (e) {
+      throw new Error('File system is not available in this environment');
+    }
+  }
+
+  /**
+   * 从文件加载
+   */
+  private async load(): Promise<Map<string, string>> {
+    if (this.items) {
+      return this.items;
+    }
+
+    let items = new Map<string, string>();
+    try {
+      const content = await (await this.fs()).readFile(this.filePath, 'utf8');
+      items = new Map(Object.entries(JSON.parse(content)));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.error('Failed to load FileSystemStorage:', error);
+      }
+    }
+
+    // 并发加载时以先完成的为准
+    if (!this.items) {
+      this.items = items;
+    }
+    return this.items;
+  }
+
+  /**
+   * 持久化到文件（串行写入）
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      const fs = await this.fs();
+      const tmpPath = `${this.filePath}.tmp`;
+      const content = JSON.stringify(Object.fromEntries(this.items!));
+      await fs.writeFile(tmpPath, content, 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(write);
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,90 @@
+import { IKeyValueStorage } from '../types/storage';
+
+/**
+ * 基于 IndexedDB 的存储实现（浏览器、Worker）
+ */
+export class IndexedDBStorage implements IKeyValueStorage {
+  private static readonly DEFAULT_DB_NAME = 'yeying-web3';
+  private static readonly DEFAULT_STORE_NAME = 'keyvaluestorage';
+
+  private readonly dbName: string;
+  private readonly storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName?: string, storeName?: string) {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+    this.dbName = dbName || IndexedDBStorage.DEFAULT_DB_NAME;
+    this.storeName = storeName || IndexedDBStorage.DEFAULT_STORE_NAME;
+  }
+
+  async getKeys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(key => String(key));
+  }
+
+  async getEntries(): Promise<[string, string][]> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      // 在同一个事务中读取键和值，保证一一对应
+      const transaction = db.transaction(this.storeName, 'readonly');
+      const store = transaction.objectStore(this.storeName);
+      const keysRequest = store.getAllKeys();
+      const valuesRequest = store.getAll();
+      transaction.oncomplete = () => {
+        resolve(keysRequest.result.map((key, index) => [String(key), valuesRequest.result[index]]));
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getItem(key: string): Promise<string | undefined> {
+    return this.request<string | undefined>('readonly', store => store.get(key));
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  /**
+   * 打开数据库（只打开一次）
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 在事务中执行请求
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
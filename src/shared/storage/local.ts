@@ -0,0 +1,40 @@
+import { IKeyValueStorage } from '../types/storage';
+
+/**
+ * 基于 localStorage 的存储实现（浏览器）
+ */
+export class BrowserLocalStorage implements IKeyValueStorage {
+  constructor() {
+    if (typeof localStorage === 'undefined') {
+      throw new Error('localStorage is not available in this environment');
+    }
+  }
+
+  async getKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  async getEntries(): Promise<[string, string][]> {
+    const keys = await this.getKeys();
+    return keys.map(key => [key, localStorage.getItem(key) as string]);
+  }
+
+  async getItem(key: string): Promise<string | undefined> {
+    return localStorage.getItem(key) ?? undefined;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
@@ -0,0 +1,29 @@
+import { IKeyValueStorage } from '../types/storage';
+
+/**
+ * 内存存储实现
+ * 进程退出后数据丢失，适用于测试和不需要持久化的场景
+ */
+export class MemoryStorage implements IKeyValueStorage {
+  private items: Map<string, string> = new Map();
+
+  async getKeys(): Promise<string[]> {
+    return Array.from(this.items.keys());
+  }
+
+  async getEntries(): Promise<[string, string][]> {
+    return Array.from(this.items.entries());
+  }
+
+  async getItem(key: string): Promise<string | undefined> {
+    return this.items.get(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
@@ -0,0 +1,83 @@
+import { IKeyValueStorage } from '../types/storage';
+
+/**
+ * 客户端在使用命名空间之前写入的存储键，升级后迁移到命名空间下
+ */
+export const LEGACY_CLIENT_STORAGE_KEYS = [
+  'wc_sessions',
+  'wc_session_proposals',
+  'wc_pairings',
+  'wc_keychain',
+  'wc_relay_watermarks'
+];
+
+/**
+ * 带命名空间的存储
+ * 所有键加上前缀后写入底层存储，同源的多个客户端（如 Dapp 和内嵌 Wallet）互不覆盖。
+ * 首次访问时把 legacyKeys 中未加前缀的旧键移动到命名空间下（已有新键时只删除旧键）
+ */
+export class PrefixedStorage implements IKeyValueStorage {
+  private readonly prefix: string;
+  private migration: Promise<void> | null = null;
+
+  constructor(private storage: IKeyValueStorage, namespace: string, private legacyKeys: string[] = []) {
+    this.prefix = `${namespace}:`;
+  }
+
+  async getKeys(): Promise<string[]> {
+    await this.migrate();
+    const keys = await this.storage.getKeys();
+    return keys.filter(key => key.startsWith(this.prefix)).map(key => key.slice(this.prefix.length));
+  }
+
+  async getEntries(): Promise<[string, string][]> {
+    await this.migrate();
+    const entries = await this.storage.getEntries();
+    return entries
+      .filter(([key]) => key.startsWith(this.prefix))
+      .map(([key, value]) => [key.slice(this.prefix.length), value]);
+  }
+
+  async getItem(key: string): Promise<string | undefined> {
+    await this.migrate();
+    return this.storage.getItem(this.prefix + key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.migrate();
+    await this.storage.setItem(this.prefix + key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.migrate();
+    await this.storage.removeItem(this.prefix + key);
+  }
+
+  /**
+   * 迁移旧键（只执行一次）
+   */
+  private migrate(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrateLegacyKeys();
+    }
+    return this.migration;
+  }
+
+  private async migrateLegacyKeys(): Promise<void> {
+    for (const key of this.legacyKeys) {
+      try {
+        const value = await this.storage.getItem(key);
+        if (value === undefined || value === null) {
+          continue;
+        }
+        if (await this.storage.getItem(this.prefix + key) === undefined) {
+          await this.storage.setItem(this.prefix + key, value);
+        }
+        await this.storage.removeItem(key);
+        console.log(`[PrefixedStorage] Migrated ${key} to ${this.prefix}${key}`);
+      } catch (error) {
+        console.warn(`[PrefixedStorage] Failed to migrate ${key}:`, error);
+      }
+    }
+  }
+}
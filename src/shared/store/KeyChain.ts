@@ -0,0 +1,202 @@
+import { IKeyChain, KeyChainOptions } from '../types/crypto';
+import { IKeyValueStorage } from '../types/storage';
+import { createDefaultStorage } from '../storage/default';
+import { bytesToHex, hexToBytes } from '../utils/helpers';
+import { decrypt, encrypt, generateIv } from '../../common/crypto';
+
+/**
+ * 静态加密后的密钥链数据
+ */
+interface SealedKeyChain {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * 密钥链实现
+ *
+ * 职责：
+ * - 持久化保存密钥材料，页面刷新后仍可恢复 Pairing 和 Session
+ * - 提供 secret 时使用 PBKDF2 + AES-GCM 加密存储
+ * - 串行写入，每次写入当时最新的数据
+ */
+export class KeyChain implements IKeyChain {
+  private static readonly DEFAULT_STORAGE_KEY = 'wc_keychain';
+  private static readonly PBKDF2_ITERATIONS = 100000;
+
+  private readonly storageKey: string;
+  private readonly secret?: string;
+  private storage: IKeyValueStorage;
+  private cache: Map<string, string> = new Map();
+  private initPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private sealKey?: { salt: Uint8Array; key: Promise<CryptoKey> };  // 派生后的密钥，同一 salt 只派生一次
+
+  constructor(options: KeyChainOptions = {}) {
+    this.storageKey = options.storageKey || KeyChain.DEFAULT_STORAGE_KEY;
+    this.secret = options.secret;
+    this.storage = options.storage || createDefaultStorage();
+  }
+
+  /**
+   * 初始化存储
+   * secret 错误时抛出 InvalidPassword，且不会覆盖已存储的数据
+   */
+  private init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * 从存储加载
+   */
+  private async load(): Promise<void> {
+    const stored = await this.storage.getItem(this.storageKey);
+    if (!stored) {
+      return;
+    }
+
+    let entries: Record<string, string>;
+    try {
+      const parsed = JSON.parse(stored);
+      entries = this.secret ? JSON.parse(await this.unseal(parsed)) : parsed;
+    } catch (error) {
+      if (this.secret) {
+        throw error;
+      }
+      console.error('Failed to initialize KeyChain:', error);
+      return;
+    }
+
+    for (const [id, value] of Object.entries(entries)) {
+      this.cache.set(id, value);
+    }
+  }
+
+  /**
+   * 持久化到存储（串行写入）
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      try {
+        const entries = JSON.stringify(Object.fromEntries(this.cache));
+        const value = this.secret ? JSON.stringify(await this.seal(entries)) : entries;
+        await this.storage.setItem(this.storageKey, value);
+      } catch (error) {
+        console.error('Failed to persist keychain:', error);
+        throw new Error('Failed to save keychain data');
+      }
+    };
+
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(write);
+    return this.writeQueue;
+  }
+
+  /**
+   * 获取密钥
+   */
+  async get(id: string): Promise<string | undefined> {
+    await this.init();
+    return this.cache.get(id);
+  }
+
+  /**
+   * 设置密钥
+   */
+  async set(id: string, value: string): Promise<void> {
+    await this.init();
+    this.cache.set(id, value);
+    await this.persist();
+  }
+
+  /**
+   * 删除密钥
+   */
+  async delete(id: string): Promise<void> {
+    await this.init();
+    if (this.cache.delete(id)) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * 获取所有密钥 ID
+   */
+  async keys(): Promise<string[]> {
+    await this.init();
+    return Array.from(this.cache.keys());
+  }
+
+  /**
+   * 清空密钥链
+   */
+  async clear(): Promise<void> {
+    this.cache.clear();
+    this.initPromise = Promise.resolve();
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(() => this.storage.removeItem(this.storageKey));
+    await this.writeQueue;
+  }
+
+  /**
+   * 使用 secret 加密
+   */
+  private async seal(plaintext: string): Promise<SealedKeyChain> {
+    if (!this.sealKey) {
+      const salt = generateIv(16);
+      this.sealKey = { salt, key: this.deriveKey(salt) };
+    }
+    const { salt, key } = this.sealKey;
+    const iv = generateIv(12);
+    const ciphertext = await encrypt(await key, plaintext, iv);
+    return {
+      salt: bytesToHex(salt),
+      iv: bytesToHex(iv),
+      ciphertext: bytesToHex(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * 使用 secret 解密
+   * @throws {InvalidPassword} secret 错误或数据被篡改
+   */
+  private async unseal(sealed: SealedKeyChain): Promise<string> {
+    const salt = hexToBytes(sealed.salt);
+    const key = this.deriveKey(salt);
+    const plaintext = await decrypt(await key, hexToBytes(sealed.ciphertext), hexToBytes(sealed.iv));
+    // 解密成功后沿用该 salt 和密钥加密后续写入
+    this.sealKey = { salt, key };
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * 从 secret 派生 AES-GCM 密钥
+   */
+  private async deriveKey(salt: Uint8Array): Promise<CryptoKey> {
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(this.secret),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      {
+        name: 'PBKDF2',
+        salt,
+        iterations: KeyChain.PBKDF2_ITERATIONS,
+        hash: 'SHA-256',
+      },
+      keyMaterial,
+      {
+        name: 'AES-GCM',
+        length: 256,
+      },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+}
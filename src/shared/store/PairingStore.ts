@@ -1,4 +1,6 @@
 import { Pairing, PairingStatus, IPairingStore } from '../types/pairing';
+import { IKeyValueStorage } from '../types/storage';
+import { createDefaultStorage } from '../storage/default';
 
 /**
  * Pairing 存储实现
@@ -10,45 +12,53 @@ import { Pairing, PairingStatus, IPairingStore } from '../types/pairing';
  */
 export class PairingStore implements IPairingStore {
   private readonly STORAGE_KEY = 'wc_pairings';
+  private storage: IKeyValueStorage;
   private cache: Map<string, Pairing> = new Map();
-  private initialized = false;
+  private initPromise: Promise<void> | null = null;
 
-  constructor() {
+  constructor(storage?: IKeyValueStorage) {
+    this.storage = storage || createDefaultStorage();
     this.init();
   }
 
   /**
-   * 初始化存储
+   * 初始化存储（只加载一次）
    */
-  private async init(): Promise<void> {
-    if (this.initialized) return;
+  private init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
 
+  /**
+   * 从存储加载
+   */
+  private async load(): Promise<void> {
     try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const stored = await this.storage.getItem(this.STORAGE_KEY);
       if (stored) {
         const pairings: Pairing[] = JSON.parse(stored);
         pairings.forEach(pairing => {
           this.cache.set(pairing.topic, pairing);
         });
       }
-      this.initialized = true;
-      
+
       // 启动时清理过期数据
-      await this.deleteExpired();
+      await this.pruneExpired();
     } catch (error) {
       console.error('Failed to initialize PairingStore:', error);
       this.cache.clear();
-      this.initialized = true;
     }
   }
 
   /**
-   * 持久化到 localStorage
+   * 持久化到存储
    */
   private async persist(): Promise<void> {
     try {
       const pairings = Array.from(this.cache.values());
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(pairings));
+      await this.storage.setItem(this.STORAGE_KEY, JSON.stringify(pairings));
     } catch (error) {
       console.error('Failed to persist pairings:', error);
       throw new Error('Failed to save pairing data');
@@ -142,7 +152,13 @@ export class PairingStore implements IPairingStore {
    */
   async deleteExpired(): Promise<void> {
     await this.init();
+    await this.pruneExpired();
+  }
 
+  /**
+   * 从缓存中清理过期的 Pairing 并持久化
+   */
+  private async pruneExpired(): Promise<void> {
     const now = Math.floor(Date.now() / 1000);
     const expired: string[] = [];
 
@@ -175,7 +191,7 @@ export class PairingStore implements IPairingStore {
    */
   async clear(): Promise<void> {
     this.cache.clear();
-    localStorage.removeItem(this.STORAGE_KEY);
+    await this.storage.removeItem(this.STORAGE_KEY);
   }
 }
 
@@ -1,71 +1,253 @@
-import { 
-  ISessionStore, 
-  SessionData, 
-  SessionProposal 
+import {
+  ISessionStore,
+  SessionData,
+  SessionProposal
 } from '../types/session';
+import { IKeyValueStorage } from '../types/storage';
+import { createDefaultStorage } from '../storage/default';
 
 /**
  * Session 存储实现
- * 使用内存存储，可扩展为持久化存储
+ *
+ * 职责：
+ * - 持久化 Session 和 Session 提议
+ * - 提供查询接口
+ * - 自动清理过期数据
  */
 export class SessionStore implements ISessionStore {
+  private readonly SESSIONS_KEY = 'wc_sessions';
+  private readonly PROPOSALS_KEY = 'wc_session_proposals';
   private sessions: Map<string, SessionData> = new Map();
   private proposals: Map<number, SessionProposal> = new Map();
+  private storage: IKeyValueStorage;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(storage?: IKeyValueStorage) {
+    this.storage = storage || createDefaultStorage();
+    this.init();
+  }
+
+  /**
+   * 初始化存储（只加载一次）
+   */
+  private init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * 从存储加载
+   */
+  private async load(): Promise<void> {
+    try {
+      const storedSessions = await this.storage.getItem(this.SESSIONS_KEY);
+      if (storedSessions) {
+        const sessions: SessionData[] = JSON.parse(storedSessions);
+        sessions.forEach(session => {
+          this.sessions.set(session.topic, session);
+        });
+      }
+
+      const storedProposals = await this.storage.getItem(this.PROPOSALS_KEY);
+      if (storedProposals) {
+        const proposals: SessionProposal[] = JSON.parse(storedProposals);
+        proposals.forEach(proposal => {
+          this.proposals.set(proposal.proposalId, proposal);
+        });
+      }
+
+      // 启动时清理过期数据
+      await this.pruneExpired();
+    } catch (error) {
+      console.error('Failed to initialize SessionStore:', error);
+      this.sessions.clear();
+      this.proposals.clear();
+    }
+  }
+
+  /**
+   * 持久化 Session 到存储
+   */
+  private async persistSessions(): Promise<void> {
+    try {
+      const sessions = Array.from(this.sessions.values());
+      await this.storage.setItem(this.SESSIONS_KEY, JSON.stringify(sessions));
+    } catch (error) {
+      console.error('Failed to persist sessions:', error);
+      throw new Error('Failed to save session data');
+    }
+  }
+
+  /**
+   * 持久化提议到存储
+   */
+  private async persistProposals(): Promise<void> {
+    try {
+      const proposals = Array.from(this.proposals.values());
+      await this.storage.setItem(this.PROPOSALS_KEY, JSON.stringify(proposals));
+    } catch (error) {
+      console.error('Failed to persist session proposals:', error);
+      throw new Error('Failed to save session proposal data');
+    }
+  }
 
   /**
    * 设置 Session
    */
   async set(topic: string, session: SessionData): Promise<void> {
+    await this.init();
+
+    if (!topic || !session) {
+      throw new Error('Invalid session data');
+    }
+
+    if (topic !== session.topic) {
+      throw new Error('Topic mismatch');
+    }
+
     this.sessions.set(topic, session);
+    await this.persistSessions();
   }
 
   /**
    * 获取 Session
    */
   async get(topic: string): Promise<SessionData | undefined> {
-    return this.sessions.get(topic);
+    await this.init();
+
+    const session = this.sessions.get(topic);
+
+    // 检查是否过期
+    if (session && this.isSessionExpired(session)) {
+      await this.delete(topic);
+      return undefined;
+    }
+
+    return session;
   }
 
   /**
    * 获取所有 Session
    */
   async getAll(): Promise<SessionData[]> {
-    return Array.from(this.sessions.values());
+    await this.init();
+
+    // 过滤掉过期的
+    return Array.from(this.sessions.values()).filter(
+      session => !this.isSessionExpired(session)
+    );
   }
 
   /**
    * 删除 Session
    */
   async delete(topic: string): Promise<void> {
+    await this.init();
+
     this.sessions.delete(topic);
+    await this.persistSessions();
   }
 
   /**
    * 设置提议
    */
   async setProposal(id: number, proposal: SessionProposal): Promise<void> {
+    await this.init();
+
     this.proposals.set(id, proposal);
+    await this.persistProposals();
   }
 
   /**
    * 获取提议
    */
   async getProposal(id: number): Promise<SessionProposal | undefined> {
-    return this.proposals.get(id);
+    await this.init();
+
+    const proposal = this.proposals.get(id);
+
+    // 检查是否过期
+    if (proposal && this.isProposalExpired(proposal)) {
+      await this.deleteProposal(id);
+      return undefined;
+    }
+
+    return proposal;
   }
 
   /**
    * 获取所有提议
    */
   async getAllProposals(): Promise<SessionProposal[]> {
-    return Array.from(this.proposals.values());
+    await this.init();
+
+    return Array.from(this.proposals.values()).filter(
+      proposal => !this.isProposalExpired(proposal)
+    );
   }
 
   /**
    * 删除提议
    */
   async deleteProposal(id: number): Promise<void> {
+    await this.init();
+
     this.proposals.delete(id);
+    await this.persistProposals();
+  }
+
+  /**
+   * 删除过期的 Session 和提议
+   */
+  async deleteExpired(): Promise<void> {
+    await this.init();
+    await this.pruneExpired();
+  }
+
+  /**
+   * 从缓存中清理过期数据并持久化
+   */
+  private async pruneExpired(): Promise<void> {
+    const expiredSessions = Array.from(this.sessions.values()).filter(
+      session => this.isSessionExpired(session)
+    );
+    for (const session of expiredSessions) {
+      this.sessions.delete(session.topic);
+    }
+
+    const expiredProposals = Array.from(this.proposals.values()).filter(
+      proposal => this.isProposalExpired(proposal)
+    );
+    for (const proposal of expiredProposals) {
+      this.proposals.delete(proposal.proposalId);
+    }
+
+    if (expiredSessions.length > 0) {
+      await this.persistSessions();
+      console.log(`Deleted ${expiredSessions.length} expired sessions`);
+    }
+
+    if (expiredProposals.length > 0) {
+      await this.persistProposals();
+      console.log(`Deleted ${expiredProposals.length} expired session proposals`);
+    }
+  }
+
+  /**
+   * 检查 Session 是否过期（expiry 为秒）
+   */
+  private isSessionExpired(session: SessionData): boolean {
+    const now = Math.floor(Date.now() / 1000);
+    return session.expiry < now;
+  }
+
+  /**
+   * 检查提议是否过期（expiryTimestamp 为毫秒）
+   */
+  private isProposalExpired(proposal: SessionProposal): boolean {
+    return proposal.expiryTimestamp < Date.now();
   }
 
   /**
@@ -74,6 +256,8 @@ export class SessionStore implements ISessionStore {
   async clear(): Promise<void> {
     this.sessions.clear();
     this.proposals.clear();
+    await this.storage.removeItem(this.SESSIONS_KEY);
+    await this.storage.removeItem(this.PROPOSALS_KEY);
   }
 
   /**
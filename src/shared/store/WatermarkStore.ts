@@ -0,0 +1,109 @@
+import { IKeyValueStorage } from '../types/storage';
+import { createDefaultStorage } from '../storage/default';
+
+/**
+ * Relay 消息水位存储
+ *
+ * 职责：
+ * - 按 topic 持久化最后收到消息的 publishedAt（毫秒）
+ * - 重新打开后据此从 Waku Store 补齐离线期间的消息
+ * - 自动清理超过保留时间的水位
+ */
+export class WatermarkStore {
+  private readonly STORAGE_KEY = 'wc_relay_watermarks';
+  private storage: IKeyValueStorage;
+  private retention: number;
+  private cache: Map<string, number> = new Map();
+  private initPromise: Promise<void> | null = null;
+
+  constructor(storage?: IKeyValueStorage, retention: number = 7 * 24 * 60 * 60 * 1000) {
+    this.storage = storage || createDefaultStorage();
+    this.retention = retention;
+    this.init();
+  }
+
+  /**
+   * 初始化存储（只加载一次）
+   */
+  private init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * 从存储加载
+   */
+  private async load(): Promise<void> {
+    try {
+      const stored = await this.storage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        const watermarks: Record<string, number> = JSON.parse(stored);
+        const cutoff = Date.now() - this.retention;
+        for (const [topic, publishedAt] of Object.entries(watermarks)) {
+          if (publishedAt >= cutoff) {
+            this.cache.set(topic, publishedAt);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Failed to initialize WatermarkStore:', error);
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * 持久化到存储
+   */
+  private async persist(): Promise<void> {
+    try {
+      await this.storage.setItem(this.STORAGE_KEY, JSON.stringify(Object.fromEntries(this.cache)));
+    } catch (error) {
+      console.error('Failed to persist relay watermarks:', error);
+      throw new Error('Failed to save relay watermark data');
+    }
+  }
+
+  /**
+   * 获取 topic 的水位
+   */
+  async get(topic: string): Promise<number | undefined> {
+    await this.init();
+    return this.cache.get(topic);
+  }
+
+  /**
+   * 推进 topic 的水位（只会向后移动）
+   */
+  async advance(topic: string, publishedAt: number): Promise<void> {
+    await this.init();
+
+    const current = this.cache.get(topic);
+    if (current !== undefined && current >= publishedAt) {
+      return;
+    }
+
+    this.cache.set(topic, publishedAt);
+    await this.persist();
+  }
+
+  /**
+   * 删除 topic 的水位
+   */
+  async delete(topic: string): Promise<void> {
+    await this.init();
+
+    if (this.cache.delete(topic)) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * 清空存储
+   */
+  async clear(): Promise<void> {
+    this.cache.clear();
+    await this.storage.removeItem(this.STORAGE_KEY);
+  }
+}
@@ -15,9 +15,13 @@ export enum PairingEvent {
   DELETED = 'pairing_deleted',      // Pairing 删除
   UPDATED = 'pairing_updated',      // Pairing 更新
   EXPIRED = 'pairing_expired',      // Pairing 过期
+  EXPIRING = 'pairing_expiring',    // Pairing 即将过期
+  EXTENDED = 'pairing_extended',    // Pairing 已延长
   
   PING = 'pairing_ping',            // 收到 ping
   PONG = 'pairing_pong',            // 收到 pong
+  PEER_UNRESPONSIVE = 'pairing_peer_unresponsive', // 对方连续多次未响应 ping
+  PEER_RESPONSIVE = 'pairing_peer_responsive',     // 对方恢复响应
 }
 
 /**
@@ -26,16 +30,81 @@ export enum PairingEvent {
 export enum SessionEvent {
   PROPOSAL = 'session_proposal',      // 收到 session 提议 from dapp
   SETTLED = 'session_settled',        // Session 已建立 from Wallet
+  ACKNOWLEDGED = 'session_acknowledged', // Session 建立已被双方确认
   REJECTED = 'session_rejected',      // Session 已拒绝
   UPDATED = 'session_updated',        // Session 已更新
   EXTENDED = 'session_extended',      // Session 已延长
+  CHANGE_REJECTED = 'session_change_rejected', // 拒绝了对方的更新或延长
   DELETED = 'session_deleted',        // Session 已删除
 
   PING = 'session_ping',            // 收到 Ping
   PONG = 'session_pong',            // 收到 Pong
+  PEER_UNRESPONSIVE = 'session_peer_unresponsive', // 对方连续多次未响应 Ping
+  PEER_RESPONSIVE = 'session_peer_responsive',     // 对方恢复响应
 
   REQUEST = 'session_request',        // 收到请求
+  REQUEST_CANCELLED = 'session_request_cancelled', // 收到的请求被取消或已过期
   EVENT_RECEIVED = 'session_event',   // 收到事件
-  EXPIRED = 'session_expired'         // Session 已过期
+  EXPIRED = 'session_expired',        // Session 已过期
+  EXPIRING = 'session_expiring'       // Session 即将过期
 }
 
+/**
+ * 过期提醒和自动续期选项
+ */
+export interface ExpiryOptions {
+  expiryWarning?: number;           // 过期前多少秒发出即将过期事件（默认 1 小时，0 表示关闭）
+  autoExtend?: boolean;             // 即将过期且近期有活动时自动续期（默认关闭）
+  activityWindow?: number;          // 判断近期活动的时间窗口（秒，默认 1 小时）
+}
+
+/**
+ * 即将过期事件数据
+ */
+export interface ExpiringEvent {
+  topic: string;
+  expiry: number;                   // 过期时间（Unix 时间戳，秒）
+}
+
+/**
+ * 心跳选项
+ */
+export interface HeartbeatOptions {
+  interval?: number;                // 心跳间隔（毫秒，默认 30 秒）
+  timeout?: number;                 // 单次 ping 超时（毫秒，默认 10 秒）
+  maxMissed?: number;               // 连续多少次未响应视为失联（默认 3）
+}
+
+/**
+ * Pong 事件数据
+ */
+export interface PongEvent {
+  topic: string;
+  latency: number;                  // 往返时间（毫秒）
+}
+
+/**
+ * 对方失联或恢复事件数据
+ */
+export interface PeerLivenessEvent {
+  topic: string;
+  missed: number;                   // 连续未响应的 ping 次数
+  latency?: number;                 // 恢复时的往返时间（毫秒）
+}
+
+/**
+ * 钱包推送的链事件（DappClient 转换后发出）
+ */
+export enum ChainEvent {
+  ACCOUNTS_CHANGED = 'accountsChanged', // 账户变更
+  CHAIN_CHANGED = 'chainChanged'        // 链变更
+}
+
+
+/**
+ * Relay 事件类型
+ */
+export enum RelayEvent {
+  DELIVERY_STATUS = 'relay_delivery_status',  // 消息投递状态变化
+  STATE_CHANGED = 'relay_state_changed'       // 连接状态变化
+}
@@ -1,3 +1,5 @@
+import { IKeyValueStorage } from './storage';
+
 /**
  * 密钥对
  */
@@ -50,6 +52,26 @@ export interface ICryptoManager {
    */
   generateSharedKey(privateKey: string, publicKey: string): Promise<string>;
 
+  /**
+   * 从共享密钥派生对称密钥（HKDF-SHA256）
+   */
+  deriveSymmetricKey(sharedKey: string, info: string): Promise<string>;
+
+  /**
+   * 获取对称密钥
+   */
+  getSymKey(topic: string): Promise<string | undefined>;
+
+  /**
+   * 设置对称密钥
+   */
+  setSymKey(topic: string, symKey: string): Promise<void>;
+
+  /**
+   * 删除对称密钥
+   */
+  deleteSymKey(topic: string): Promise<void>;
+
   /**
    * 加密数据
    */
@@ -85,3 +107,25 @@ export interface ICryptoManager {
    */
   clear(): void;
 }
+
+/**
+ * 密钥链接口
+ *
+ * 持久化保存密钥对、Pairing 对称密钥和 Session 密钥
+ */
+export interface IKeyChain {
+  get(id: string): Promise<string | undefined>;
+  set(id: string, value: string): Promise<void>;
+  delete(id: string): Promise<void>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * 密钥链配置
+ */
+export interface KeyChainOptions {
+  storageKey?: string;    // 存储键名
+  secret?: string;        // 用户密钥，设置后密钥链加密存储
+  storage?: IKeyValueStorage; // 底层存储（默认 localStorage，不可用时使用内存）
+}
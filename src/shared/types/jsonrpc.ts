@@ -0,0 +1,77 @@
+/**
+ * JSON-RPC 2.0 请求
+ */
+export interface JsonRpcRequest<T = any> {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params: T;
+}
+
+/**
+ * JSON-RPC 2.0 错误对象
+ */
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+/**
+ * JSON-RPC 2.0 成功响应
+ */
+export interface JsonRpcResult<T = any> {
+  jsonrpc: '2.0';
+  id: number;
+  result: T;
+}
+
+/**
+ * JSON-RPC 2.0 错误响应
+ */
+export interface JsonRpcError {
+  jsonrpc: '2.0';
+  id: number;
+  error: JsonRpcErrorObject;
+}
+
+export type JsonRpcResponse<T = any> = JsonRpcResult<T> | JsonRpcError;
+
+export type JsonRpcPayload<P = any, R = any> = JsonRpcRequest<P> | JsonRpcResponse<R>;
+
+/**
+ * JSON-RPC 2.0 标准错误码
+ */
+export enum JsonRpcErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603
+}
+
+/**
+ * JSON-RPC 消息校验错误
+ */
+export class JsonRpcValidationError extends Error {
+  constructor(
+    public code: JsonRpcErrorCode,
+    message: string,
+    public id?: number
+  ) {
+    super(message);
+    this.name = 'JsonRpcValidationError';
+  }
+}
+
+/**
+ * EIP-1193 Provider 错误码（含 EIP-3326 的未识别链）
+ */
+export enum ProviderErrorCode {
+  USER_REJECTED = 4001,             // 用户拒绝
+  UNAUTHORIZED = 4100,              // 方法或账户未授权
+  UNSUPPORTED_METHOD = 4200,        // 不支持的方法
+  DISCONNECTED = 4900,              // 与所有链断开
+  CHAIN_DISCONNECTED = 4901,        // 与请求的链断开
+  UNRECOGNIZED_CHAIN = 4902         // 未识别的链
+}
@@ -0,0 +1,44 @@
+/**
+ * 生命周期相关类型定义
+ * 职责：定义 Pairing 和 Session 状态变更的记录和错误
+ */
+
+/**
+ * 状态变更记录
+ */
+export interface StateTransition<S extends string = string> {
+  from: S | null;                   // 原状态（创建时为 null）
+  to: S;                            // 新状态
+  at: number;                       // 变更时间
+  reason?: string;                  // 变更原因
+}
+
+/**
+ * 状态转换表：状态 -> 允许转换到的状态
+ */
+export type TransitionTable<S extends string> = Record<S, S[]>;
+
+/**
+ * 带生命周期的记录
+ */
+export interface LifecycleRecord<S extends string> {
+  topic: string;
+  status: S;
+  history?: StateTransition<S>[];
+  updatedAt: number;
+}
+
+/**
+ * 非法状态转换
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    public entity: 'pairing' | 'session',
+    public topic: string,
+    public from: string,
+    public to: string
+  ) {
+    super(`Invalid ${entity} transition for ${topic}: ${from} -> ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
@@ -3,8 +3,9 @@
  * 职责：定义配对的数据结构和状态
  */
 
-import { PairingEvent, Reason, SessionEvent } from "./common";
+import { ExpiryOptions, HeartbeatOptions, PairingEvent, Reason, SessionEvent } from "./common";
 import { RelayProtocol } from "./relay";
+import { StateTransition } from "./lifecycle";
 
 
 /**
@@ -13,7 +14,9 @@ import { RelayProtocol } from "./relay";
 export enum PairingStatus {
   PENDING = 'pending',    // 等待对方批准
   ACTIVE = 'active',      // 已激活，可以使用
-  DELETED = 'deleted'     // 已删除
+  REJECTED = 'rejected',  // 已拒绝
+  DELETED = 'deleted',    // 已删除
+  EXPIRED = 'expired'     // 已过期
 }
 
 /**
@@ -52,6 +55,7 @@ export interface Pairing {
 
   // 状态信息
   status: PairingStatus;            // 当前状态
+  history?: StateTransition<PairingStatus>[]; // 状态变更历史
   expiry: number;                   // 过期时间（Unix 时间戳，秒）
 
   // 元数据
@@ -111,6 +115,7 @@ export enum PairingMethod {
   DELETE = 'wc_pairingDelete',      // 钱包或应用删除配对，
   PING = 'wc_pairingPing',          // 钱包或应用心跳检测
   UPDATE = 'wc_pairingUpdate',      // 钱包或应用更新元数据
+  EXTEND = 'wc_pairingExtend',      // 钱包或应用延长过期时间
 }
 
 /**
@@ -132,6 +137,16 @@ export interface PairingRejectParams {
   reason: Reason
 }
 
+/**
+ * Pairing 被明确拒绝（等待批准的 Promise 以此拒绝）
+ */
+export class PairingRejectedError extends Error {
+  constructor(public reason: Reason) {
+    super(reason.message);
+    this.name = 'PairingRejectedError';
+  }
+}
+
 /**
  * wc_pairingDelete 消息参数
  */
@@ -146,6 +161,20 @@ export interface PairingUpdateParams {
   appMetadata: AppMetadata;
 }
 
+/**
+ * Pairing Manager 选项
+ */
+export interface PairingManagerOptions extends ExpiryOptions {
+  heartbeat?: HeartbeatOptions;     // 为活跃的 Pairing 自动启动心跳
+}
+
+/**
+ * wc_pairingExtend 消息参数
+ */
+export interface PairingExtendParams {
+  expiry: number;
+}
+
 /**
  * Pairing 存储接口
  */
@@ -182,7 +211,8 @@ export interface IPairingManager {
   reject(topic: string, reason: string): Promise<void>;
   delete(topic: string, reason: string): Promise<void>;
   update(topic: string, metadata: AppMetadata): Promise<void>;
-  ping(topic: string): Promise<void>;
+  extend(topic: string, expiry?: number): Promise<void>;
+  ping(topic: string, timeout?: number): Promise<number>;
 
   // Session 消息转发
   forward(topic: string, method: string, message: any): Promise<void>;
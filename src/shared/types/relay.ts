@@ -37,17 +37,112 @@ export interface IRelay {
   // 状态查询
   isConnected(): boolean;
   getProtocol(): RelayProtocol;
+  getState?(): RelayConnectionState;  // 支持连接状态监控的 relay 实现
+
+  // 多 relay（见 MultiRelay）
+  getProtocols?(): RelayProtocol[];   // 所有可用 relay，按优先级排列
+  setTopicProtocols?(topic: string, protocols: RelayProtocol[]): void;  // 限定 topic 使用的 relay
+}
+
+/**
+ * Relay 连接状态
+ */
+export enum RelayConnectionState {
+  CONNECTING = 'connecting',      // 正在连接或重连
+  CONNECTED = 'connected',        // 连接正常
+  DEGRADED = 'degraded',          // 已连接，但节点数不足或协议不可用
+  DISCONNECTED = 'disconnected'   // 未连接
+}
+
+/**
+ * Relay 连接状态变化
+ */
+export interface RelayStateChange {
+  state: RelayConnectionState;
+  previous: RelayConnectionState;
+  peerCount?: number;             // 当前连接的节点数（Waku）
+  reason?: string;
 }
 
 /**
  * Relay 配置
  */
 export interface RelayConfig {
-  protocol: 'waku';
+  protocol: 'waku' | 'memory' | 'websocket' | 'broadcastchannel' | 'postmessage';
   clusterId?: number;          // Waku cluster id
   bootstrapPeers?: string[];   // Waku 启动节点
   pubsubTopic?: string;        // Waku pubsub网络主题
   contentTopicPrefix?: string; // Waku 内容主题前缀
-  connectionTimeout: number,   // Waku 连接超时
+  connectionTimeout: number,   // 连接超时
+  url?: string;                // WebSocket relay 服务地址
+  reconnectInterval?: number;  // WebSocket 初始重连间隔（毫秒）
+  maxReconnectInterval?: number; // WebSocket 最大重连间隔（毫秒）
+  healthCheckInterval?: number; // Waku 健康检查间隔（毫秒）
+  minPeers?: number;           // Waku 正常连接所需的最少节点数
+  storeRecovery?: boolean;     // Waku 订阅和重连时从 Store 补齐错过的消息
+  storeRecoveryWindow?: number; // Waku Store 最多回溯的时间（毫秒）
+  channelName?: string;        // BroadcastChannel / postMessage 频道名
+  targetOrigin?: string;       // postMessage 目标 origin
+  allowedOrigins?: string[];   // postMessage 允许的来源 origin（默认仅 targetOrigin）
+}
+
+/**
+ * 本机 relay 帧（BroadcastChannel / postMessage）
+ */
+export interface LocalRelayFrame {
+  channel: string;             // 频道名，用于过滤无关消息
+  message: RelayMessage;
+}
+
+/**
+ * WebSocket relay 帧
+ * 客户端发送 subscribe/unsubscribe/publish，服务端推送 message
+ */
+export type RelayFrame =
+  | { type: 'subscribe'; topic: string }
+  | { type: 'unsubscribe'; topic: string }
+  | { type: 'publish'; message: RelayMessage }
+  | { type: 'message'; message: RelayMessage };
+
+
+/**
+ * 消息投递状态
+ */
+export enum DeliveryStatus {
+  QUEUED = 'queued',        // 离线，已放入发件箱
+  SENT = 'sent',            // 已发送，等待确认
+  RETRYING = 'retrying',    // 未收到确认或发送失败，准备重试
+  DELIVERED = 'delivered',  // 已收到对方确认
+  FAILED = 'failed'         // 重试次数用尽或 relay 已停止
+}
+
+/**
+ * 消息投递状态报告
+ */
+export interface DeliveryReport {
+  id: string;               // 消息 ID
+  topic: string;
+  status: DeliveryStatus;
+  attempt: number;          // 已发送次数
+  error?: string;
 }
 
+/**
+ * 可靠传输帧（ReliableRelay 在原始 payload 外包装一层）
+ * from 为发送方在该 topic 上的随机 ID
+ */
+export type ReliableFrame =
+  | { type: 'message'; id: string; from: string; payload: string }
+  | { type: 'ack'; id: string; from: string };
+
+/**
+ * 可靠传输配置
+ */
+export interface ReliableRelayOptions {
+  ackTimeout?: number;         // 首次等待确认的时间（毫秒）
+  maxRetries?: number;         // 最大重试次数
+  maxBackoff?: number;         // 最大重试间隔（毫秒）
+  dedupTtl?: number;           // 消息 ID 去重窗口（毫秒）
+  maxOutboxSize?: number;      // 离线发件箱容量
+  flushInterval?: number;      // 离线时检查连接恢复的间隔（毫秒）
+}
@@ -1,5 +1,6 @@
-import { Reason } from './common';
+import { ExpiryOptions, HeartbeatOptions, Reason } from './common';
 import { IRelay, RelayProtocol } from './relay';
+import { StateTransition } from './lifecycle';
 
 /**
  * Session 元数据
@@ -49,12 +50,14 @@ export enum SessionStatus {
 export enum SessionMethod {
   PROPOSE = 'wc_sessionPropose',      // 提议 Session
   SETTLE = 'wc_sessionSettle',        // 建立 Session
+  ACKNOWLEDGE = 'wc_sessionAcknowledge', // 确认收到 Settle（Dapp -> Wallet）
   REJECT = 'wc_sessionReject',        // 拒绝 Session
   UPDATE = 'wc_sessionUpdate',        // 更新 Session
   EXTEND = 'wc_sessionExtend',        // 延长 Session
   DELETE = 'wc_sessionDelete',        // 删除 Session
   PING = 'wc_sessionPing',            // Ping
   REQUEST = 'wc_sessionRequest',      // 请求
+  CANCEL = 'wc_sessionRequestCancel', // 取消请求（Dapp -> Wallet）
   RESPONSE = 'wc_sessionResponse',    // 响应
   EVENT = 'wc_sessionEvent'           // 事件
 }
@@ -88,6 +91,7 @@ export interface SessionSettle {
   proposalId: number;                   // 提议 ID
   pairingTopic: string;                 // 配对主题
   relay: RelayProtocol;                 // Relay 协议（单数）
+  relays?: RelayProtocol[];             // 协商后的 Relay 列表（按优先级）
   namespaces: SessionNamespaces;        // 批准的命名空间
   requiredNamespaces: SessionNamespaces;
   optionalNamespaces?: SessionNamespaces;
@@ -111,6 +115,7 @@ export interface SessionData {
   topic: string;                        // Session 主题
   pairingTopic: string;                 // 配对主题
   relay: RelayProtocol;                 // Relay 信息
+  relays?: RelayProtocol[];             // 协商后的 Relay 列表（按优先级）
   expiry: number;                       // 过期时间
   acknowledged: boolean;                // 是否已确认
   controller: string;                   // 控制者公钥
@@ -126,6 +131,7 @@ export interface SessionData {
     metadata: SessionMetadata;
   };
   status: SessionStatus;                // Session 状态
+  history?: StateTransition<SessionStatus>[]; // 状态变更历史
   createdAt: number;                    // 创建时间
   updatedAt: number;                    // 更新时间
   proposalId?: number;                  // 对应的提议 ID（用于追踪）
@@ -140,6 +146,56 @@ export interface SessionRequest {
   method: string;                       // 方法名
   params: any;                          // 参数
   chainId?: string;                     // 链 ID
+  expiryTimestamp?: number;             // 过期时间（毫秒时间戳），Wallet 丢弃过期的请求
+}
+
+/**
+ * 请求选项
+ */
+export interface RequestOptions {
+  timeout?: number;                     // 等待响应的超时（毫秒）
+  signal?: AbortSignal;                 // 取消请求并通知 Wallet
+}
+
+/**
+ * 请求被取消或过期（Wallet 端）
+ */
+export interface RequestCancelled {
+  id: number;
+  topic: string;
+  reason: 'cancelled' | 'expired';
+}
+
+/**
+ * 方法处理上下文（Wallet 端）
+ */
+export interface MethodContext {
+  request: SessionRequest;              // 收到的请求
+  session: SessionData;                 // 请求所属的 Session
+  namespace: string;                    // 命名空间，如 'eip155'
+  chainId?: string;                     // 链 ID
+}
+
+/**
+ * 方法处理器，返回值作为响应结果，抛出的错误作为错误响应
+ */
+export type MethodHandler = (params: any, context: MethodContext) => any | Promise<any>;
+
+/**
+ * 方法处理器选项
+ */
+export interface MethodHandlerOptions {
+  validate?: (params: any, context: MethodContext) => boolean | void | Promise<boolean | void>; // 返回 false 或抛出错误时拒绝为参数无效
+  confirm?: boolean;                    // 执行前需要用户确认
+}
+
+/**
+ * 方法注册表选项
+ */
+export interface MethodRegistryOptions {
+  confirm?: (context: MethodContext) => boolean | Promise<boolean>; // 用户确认，返回 false 时拒绝
+  onUnknownMethod?: MethodHandler;      // 未注册方法的处理器（仍需 Session 授权）
+  rejectUnknown?: boolean;              // 未注册方法直接拒绝（默认交给应用通过事件处理）
 }
 
 /**
@@ -164,6 +220,23 @@ export interface SessionEventData {
   chainId: string;                      // 链 ID
 }
 
+/**
+ * accountsChanged 事件
+ */
+export interface AccountsChangedEvent {
+  topic: string;                        // Session 主题
+  chainId: string;                      // 链 ID
+  accounts: string[];                   // 新的账户列表
+}
+
+/**
+ * chainChanged 事件
+ */
+export interface ChainChangedEvent {
+  topic: string;                        // Session 主题
+  chainId: string;                      // 新的链 ID
+}
+
 /**
  * Session 更新
  */
@@ -180,6 +253,15 @@ export interface SessionExtend {
   expiry: number;                       // 新的过期时间
 }
 
+/**
+ * Session 变更被拒绝（update 或 extend）
+ */
+export interface SessionChangeRejected {
+  topic: string;                        // Session 主题
+  method: SessionMethod;                // 被拒绝的方法
+  reason: Reason;                       // 拒绝原因
+}
+
 /**
  * Session Ping
  */
@@ -226,6 +308,15 @@ export interface RejectSessionParams {
   reason: Reason;
 }
 
+/**
+ * Session Manager 选项
+ */
+export interface SessionManagerOptions extends ExpiryOptions {
+  settleAckTimeout?: number;            // 等待 Settle 确认的超时（毫秒）
+  requestTimeout?: number;              // 请求的默认超时（毫秒）
+  heartbeat?: HeartbeatOptions;         // 为已建立的 Session 自动启动心跳
+}
+
 /**
  * Session 存储接口
  */
@@ -243,6 +334,7 @@ export interface ISessionStore {
   deleteProposal(id: number): Promise<void>;
 
   // 清理操作
+  deleteExpired(): Promise<void>;
   clear(): Promise<void>;
 }
 
@@ -255,6 +347,8 @@ export interface ISessionManager {
 
   // Session 提议
   propose(params: ProposeSessionParams): Promise<SessionProposal>;
+  waitForApproval(proposalId: number): Promise<SessionData>;
+  cancelProposal(proposalId: number): Promise<void>;
   reject(params: RejectSessionParams): Promise<void>;
   approve(params: ApproveSessionParams): Promise<SessionData>;
 
@@ -262,10 +356,11 @@ export interface ISessionManager {
   update(params: SessionUpdate): Promise<void>;
   extend(params: SessionExtend): Promise<void>;
   disconnect(params: SessionDisconnect): Promise<void>;
-  ping(topic: string): Promise<void>;
+  ping(topic: string, timeout?: number): Promise<number>;
+  emitEvent(params: SessionEventData): Promise<void>;
 
   // Session 请求
-  request(request: Omit<SessionRequest, 'id'>): Promise<any>;
+  request(request: Omit<SessionRequest, 'id' | 'expiryTimestamp'>, options?: RequestOptions): Promise<any>;
   respond(response: SessionResponse): Promise<void>;
 
   // Session 查询
@@ -290,6 +385,10 @@ export enum SessionErrorCode {
   SESSION_NOT_FOUND = 2000,
   SESSION_EXPIRED = 2001,
   SESSION_SETTLED = 2002,
+  UNAUTHORIZED = 2003,              // 非 controller 的更新或延长
+  INVALID_EXPIRY = 2004,
+  SESSION_NOT_ACKNOWLEDGED = 2005,  // Settle 未被确认
+  RESPONSE_TIMEOUT = 2006,          // 对方未在超时前响应
 
   // 命名空间错误
   UNSUPPORTED_CHAINS = 3000,
@@ -297,7 +396,7 @@ export enum SessionErrorCode {
   UNSUPPORTED_EVENTS = 3002,
   UNSUPPORTED_ACCOUNTS = 3003,
 
-  // 请求错误
+  // 请求错误（与 EIP-1193 错误码重叠，发送前经 toJsonRpcError 转换）
   INVALID_REQUEST = 4000,
   INVALID_METHOD = 4001,
   INVALID_PARAMS = 4002,
@@ -305,6 +404,7 @@ export enum SessionErrorCode {
   // 用户错误
   USER_REJECTED = 5000,
   USER_DISCONNECTED = 5001,
+  USER_CANCELLED = 5002,            // 本地取消（如 AbortSignal）
 
   // 其他错误
   UNKNOWN_ERROR = 9999
@@ -317,7 +417,8 @@ export class SessionError extends Error {
   constructor(
     public code: SessionErrorCode,
     message: string,
-    public data?: any
+    public data?: any,
+    public rpcCode?: number           // 对方返回的原始错误码（EIP-1193 或 JSON-RPC）
   ) {
     super(message);
     this.name = 'SessionError';
@@ -0,0 +1,13 @@
+/**
+ * 键值存储接口
+ *
+ * 统一浏览器（IndexedDB / localStorage）、Node（文件系统）和内存存储，
+ * Pairing、Session、密钥链和登录状态都构建在该接口之上
+ */
+export interface IKeyValueStorage {
+  getKeys(): Promise<string[]>;
+  getEntries(): Promise<[string, string][]>;
+  getItem(key: string): Promise<string | undefined>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
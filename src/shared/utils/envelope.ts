@@ -0,0 +1,64 @@
+import { EncryptedData, ICryptoManager } from '../types/crypto';
+
+/**
+ * Relay 消息信封工具
+ *
+ * 职责：
+ * - 使用对称密钥加密协议消息（AES-GCM）
+ * - 解密并校验收到的消息，认证失败时抛出异常
+ */
+
+/**
+ * 加密消息，返回可直接发布到 relay 的 payload
+ *
+ * @param cryptoManager - 加密管理器
+ * @param key - 对称密钥（hex 格式）
+ * @param message - 待发送的协议消息
+ * @returns EncryptedData 的 JSON 字符串
+ */
+export async function sealMessage(cryptoManager: ICryptoManager, key: string, message: any): Promise<string> {
+  const encrypted = await cryptoManager.encrypt(JSON.stringify(message), key);
+  return JSON.stringify(encrypted);
+}
+
+/**
+ * 解密 relay payload，返回协议消息
+ *
+ * @param cryptoManager - 加密管理器
+ * @param key - 对称密钥（hex 格式）
+ * @param payload - 收到的 payload
+ * @returns 解密后的协议消息
+ * @throws 如果 payload 格式无效或认证失败
+ */
+export async function openMessage(cryptoManager: ICryptoManager, key: string, payload: string): Promise<any> {
+  let encrypted: EncryptedData;
+  try {
+    encrypted = JSON.parse(payload);
+  } catch {
+    throw new Error('Invalid encrypted payload');
+  }
+
+  if (!isEncryptedData(encrypted)) {
+    throw new Error('Invalid encrypted payload');
+  }
+
+  let plaintext: string;
+  try {
+    plaintext = await cryptoManager.decrypt(encrypted, key);
+  } catch {
+    // AES-GCM 的认证标签校验失败：密钥错误或消息被篡改
+    throw new Error('Message authentication failed');
+  }
+
+  return JSON.parse(plaintext);
+}
+
+/**
+ * 检查是否为 EncryptedData 结构
+ */
+export function isEncryptedData(data: any): data is EncryptedData {
+  return !!data
+    && typeof data === 'object'
+    && typeof data.iv === 'string'
+    && typeof data.ciphertext === 'string';
+}
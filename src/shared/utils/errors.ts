@@ -0,0 +1,85 @@
+import { JsonRpcErrorCode, JsonRpcErrorObject, ProviderErrorCode } from '../types/jsonrpc';
+import { Reason } from '../types/common';
+import { SessionError, SessionErrorCode } from '../types/session';
+
+/**
+ * Session 错误码与 EIP-1193 / JSON-RPC 错误码的转换
+ *
+ * 职责：
+ * - Wallet 响应请求时把 SessionErrorCode 转换为 Dapp 熟悉的 Provider 错误码
+ * - Dapp 收到错误响应时还原为 SessionError，保留原始错误码和 data
+ */
+
+// Provider / JSON-RPC 错误码 -> SessionErrorCode
+const RPC_TO_SESSION: Record<number, SessionErrorCode> = {
+  [ProviderErrorCode.USER_REJECTED]: SessionErrorCode.USER_REJECTED,
+  [ProviderErrorCode.UNAUTHORIZED]: SessionErrorCode.UNAUTHORIZED,
+  [ProviderErrorCode.UNSUPPORTED_METHOD]: SessionErrorCode.UNSUPPORTED_METHODS,
+  [ProviderErrorCode.DISCONNECTED]: SessionErrorCode.USER_DISCONNECTED,
+  [ProviderErrorCode.CHAIN_DISCONNECTED]: SessionErrorCode.UNSUPPORTED_CHAINS,
+  [ProviderErrorCode.UNRECOGNIZED_CHAIN]: SessionErrorCode.UNSUPPORTED_CHAINS,
+  [JsonRpcErrorCode.PARSE_ERROR]: SessionErrorCode.INVALID_REQUEST,
+  [JsonRpcErrorCode.INVALID_REQUEST]: SessionErrorCode.INVALID_REQUEST,
+  [JsonRpcErrorCode.METHOD_NOT_FOUND]: SessionErrorCode.UNSUPPORTED_METHODS,
+  [JsonRpcErrorCode.INVALID_PARAMS]: SessionErrorCode.INVALID_PARAMS,
+  [JsonRpcErrorCode.INTERNAL_ERROR]: SessionErrorCode.UNKNOWN_ERROR
+};
+
+// SessionErrorCode -> Provider / JSON-RPC 错误码
+const SESSION_TO_RPC: Partial<Record<SessionErrorCode, number>> = {
+  [SessionErrorCode.USER_REJECTED]: ProviderErrorCode.USER_REJECTED,
+  [SessionErrorCode.USER_CANCELLED]: ProviderErrorCode.USER_REJECTED,
+  [SessionErrorCode.UNAUTHORIZED]: ProviderErrorCode.UNAUTHORIZED,
+  [SessionErrorCode.UNSUPPORTED_ACCOUNTS]: ProviderErrorCode.UNAUTHORIZED,
+  [SessionErrorCode.UNSUPPORTED_METHODS]: ProviderErrorCode.UNSUPPORTED_METHOD,
+  [SessionErrorCode.INVALID_METHOD]: ProviderErrorCode.UNSUPPORTED_METHOD,
+  [SessionErrorCode.USER_DISCONNECTED]: ProviderErrorCode.DISCONNECTED,
+  [SessionErrorCode.SESSION_NOT_FOUND]: ProviderErrorCode.DISCONNECTED,
+  [SessionErrorCode.UNSUPPORTED_CHAINS]: ProviderErrorCode.UNRECOGNIZED_CHAIN,
+  [SessionErrorCode.INVALID_REQUEST]: JsonRpcErrorCode.INVALID_REQUEST,
+  [SessionErrorCode.INVALID_PARAMS]: JsonRpcErrorCode.INVALID_PARAMS,
+  [SessionErrorCode.UNKNOWN_ERROR]: JsonRpcErrorCode.INTERNAL_ERROR
+};
+
+const SESSION_ERROR_CODES = new Set<number>(
+  Object.values(SessionErrorCode).filter((value): value is number => typeof value === 'number')
+);
+
+/**
+ * 转换为发送给 Dapp 的错误码，优先按 SessionErrorCode 转换
+ * （INVALID_METHOD 与 EIP-1193 的 4001 相同），其他错误码保持不变
+ */
+export function toRpcErrorCode(code: number): number {
+  return SESSION_TO_RPC[code as SessionErrorCode] ?? code;
+}
+
+/**
+ * 转换为 SessionErrorCode，无法识别时为 UNKNOWN_ERROR
+ */
+export function toSessionErrorCode(code: number): SessionErrorCode {
+  if (code in RPC_TO_SESSION) {
+    return RPC_TO_SESSION[code];
+  }
+  return SESSION_ERROR_CODES.has(code) ? code as SessionErrorCode : SessionErrorCode.UNKNOWN_ERROR;
+}
+
+/**
+ * Wallet 端：把拒绝原因转换为 JSON-RPC 错误对象，保留 message 和 data
+ */
+export function toJsonRpcError(reason: Reason): JsonRpcErrorObject {
+  const error: JsonRpcErrorObject = {
+    code: toRpcErrorCode(reason.code),
+    message: reason.message
+  };
+  if (reason.data !== undefined) {
+    error.data = reason.data;
+  }
+  return error;
+}
+
+/**
+ * Dapp 端：把 JSON-RPC 错误对象还原为 SessionError
+ */
+export function fromJsonRpcError(error: JsonRpcErrorObject): SessionError {
+  return new SessionError(toSessionErrorCode(error.code), error.message, error.data, error.code);
+}
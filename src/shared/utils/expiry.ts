@@ -0,0 +1,80 @@
+/**
+ * 按记录调度过期和即将过期提醒
+ *
+ * 职责：
+ * - 每个 topic 一组定时器，到期时精确回调
+ * - 过期前 warningWindow 秒发出提醒（已在窗口内时立即提醒）
+ * - 超过 setTimeout 上限的延迟分段等待
+ */
+
+export interface ExpiryHandlers {
+  onExpire: (topic: string) => void;
+  onExpiring?: (topic: string, expiry: number) => void;
+}
+
+// setTimeout 的最大延迟（约 24.8 天）
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+export class ExpiryScheduler {
+  private timers: Map<string, NodeJS.Timeout[]> = new Map();
+
+  constructor(
+    private handlers: ExpiryHandlers,
+    private warningWindow: number  // 秒，0 表示不提醒
+  ) {}
+
+  /**
+   * 调度（或重新调度）过期时间
+   *
+   * @param topic - 记录 topic
+   * @param expiry - 过期时间（Unix 时间戳，秒）
+   */
+  schedule(topic: string, expiry: number): void {
+    this.cancel(topic);
+    this.arm(topic, expiry, false);
+  }
+
+  cancel(topic: string): void {
+    for (const timer of this.timers.get(topic) || []) {
+      clearTimeout(timer);
+    }
+    this.timers.delete(topic);
+  }
+
+  clear(): void {
+    for (const topic of Array.from(this.timers.keys())) {
+      this.cancel(topic);
+    }
+  }
+
+  has(topic: string): boolean {
+    return this.timers.has(topic);
+  }
+
+  /**
+   * 设置定时器，延迟超过上限时先等待上限再重新设置
+   */
+  private arm(topic: string, expiry: number, warned: boolean): void {
+    const timers: NodeJS.Timeout[] = [];
+    const now = Date.now();
+
+    const warnDelay = Math.max((expiry - this.warningWindow) * 1000 - now, 0);
+    const shouldWarn = !warned && !!this.handlers.onExpiring && this.warningWindow > 0 && expiry * 1000 > now;
+    if (shouldWarn && warnDelay <= MAX_TIMEOUT) {
+      timers.push(setTimeout(() => this.handlers.onExpiring!(topic, expiry), warnDelay));
+      warned = true;
+    }
+
+    const expireDelay = Math.max(expiry * 1000 - now, 0);
+    if (expireDelay > MAX_TIMEOUT) {
+      timers.push(setTimeout(() => this.arm(topic, expiry, warned), MAX_TIMEOUT));
+    } else {
+      timers.push(setTimeout(() => {
+        this.timers.delete(topic);
+        this.handlers.onExpire(topic);
+      }, expireDelay));
+    }
+
+    this.timers.set(topic, timers);
+  }
+}
@@ -0,0 +1,114 @@
+import { HeartbeatOptions } from '../types/common';
+
+/**
+ * 按 topic 定时 ping 并统计连续未响应次数
+ *
+ * 职责：
+ * - 每个 topic 一个心跳定时器，上一次 ping 未结束时跳过本次
+ * - 连续 maxMissed 次未收到 pong 时回调失联，收到 pong 后回调恢复
+ * - 手动 ping 的结果也计入统计（由管理器调用 recordPong/recordMiss）
+ */
+
+export interface HeartbeatHandlers {
+  ping: (topic: string, timeout: number) => Promise<number>;
+  onUnresponsive: (topic: string, missed: number) => void;
+  onResponsive: (topic: string, missed: number, latency: number) => void;
+}
+
+export const DEFAULT_HEARTBEAT: Required<HeartbeatOptions> = {
+  interval: 30 * 1000,  // 30 秒
+  timeout: 10 * 1000,   // 10 秒
+  maxMissed: 3
+};
+
+interface HeartbeatEntry {
+  options: Required<HeartbeatOptions>;
+  timer?: NodeJS.Timeout;
+  inFlight: boolean;
+}
+
+export class HeartbeatMonitor {
+  private entries: Map<string, HeartbeatEntry> = new Map();
+  private missed: Map<string, number> = new Map();
+  private unresponsive: Set<string> = new Set();
+
+  constructor(private handlers: HeartbeatHandlers) {}
+
+  /**
+   * 开始（或重新开始）心跳
+   */
+  start(topic: string, options?: HeartbeatOptions): void {
+    this.stop(topic);
+
+    const entry: HeartbeatEntry = {
+      options: { ...DEFAULT_HEARTBEAT, ...options },
+      inFlight: false
+    };
+    entry.timer = setInterval(() => this.beat(topic, entry), entry.options.interval);
+    this.entries.set(topic, entry);
+  }
+
+  /**
+   * 停止心跳并清除统计
+   */
+  stop(topic: string): void {
+    const entry = this.entries.get(topic);
+    if (entry?.timer) {
+      clearInterval(entry.timer);
+    }
+    this.entries.delete(topic);
+    this.missed.delete(topic);
+    this.unresponsive.delete(topic);
+  }
+
+  clear(): void {
+    for (const topic of Array.from(this.entries.keys())) {
+      this.stop(topic);
+    }
+    this.missed.clear();
+    this.unresponsive.clear();
+  }
+
+  isRunning(topic: string): boolean {
+    return this.entries.has(topic);
+  }
+
+  isResponsive(topic: string): boolean {
+    return !this.unresponsive.has(topic);
+  }
+
+  recordPong(topic: string, latency: number): void {
+    const missed = this.missed.get(topic) || 0;
+    this.missed.delete(topic);
+
+    if (this.unresponsive.delete(topic)) {
+      this.handlers.onResponsive(topic, missed, latency);
+    }
+  }
+
+  recordMiss(topic: string): void {
+    const missed = (this.missed.get(topic) || 0) + 1;
+    this.missed.set(topic, missed);
+
+    const maxMissed = this.entries.get(topic)?.options.maxMissed ?? DEFAULT_HEARTBEAT.maxMissed;
+    if (missed >= maxMissed && !this.unresponsive.has(topic)) {
+      this.unresponsive.add(topic);
+      this.handlers.onUnresponsive(topic, missed);
+    }
+  }
+
+  private async beat(topic: string, entry: HeartbeatEntry): Promise<void> {
+    if (entry.inFlight) {
+      return;
+    }
+
+    entry.inFlight = true;
+    try {
+      await this.handlers.ping(topic, entry.options.timeout);
+    } catch {
+      // 超时由管理器通过 recordMiss 统计
+    } finally {
+      entry.inFlight = false;
+    }
+  }
+}
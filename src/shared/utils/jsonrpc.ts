@@ -0,0 +1,122 @@
+import {
+  JsonRpcRequest,
+  JsonRpcResult,
+  JsonRpcError,
+  JsonRpcErrorObject,
+  JsonRpcResponse,
+  JsonRpcPayload,
+  JsonRpcErrorCode,
+  JsonRpcValidationError
+} from '../types/jsonrpc';
+import { generateId } from './helpers';
+
+/**
+ * JSON-RPC 2.0 消息工具
+ *
+ * 职责：
+ * - 构造请求、成功响应和错误响应
+ * - 校验收到的消息，格式错误时抛出 JsonRpcValidationError
+ */
+
+const STANDARD_ERROR_MESSAGES: Record<JsonRpcErrorCode, string> = {
+  [JsonRpcErrorCode.PARSE_ERROR]: 'Parse error',
+  [JsonRpcErrorCode.INVALID_REQUEST]: 'Invalid request',
+  [JsonRpcErrorCode.METHOD_NOT_FOUND]: 'Method not found',
+  [JsonRpcErrorCode.INVALID_PARAMS]: 'Invalid params',
+  [JsonRpcErrorCode.INTERNAL_ERROR]: 'Internal error'
+};
+
+/**
+ * 构造请求
+ */
+export function formatJsonRpcRequest<T = any>(method: string, params: T, id: number = generateId()): JsonRpcRequest<T> {
+  return { jsonrpc: '2.0', id, method, params };
+}
+
+/**
+ * 构造成功响应
+ */
+export function formatJsonRpcResult<T = any>(id: number, result: T): JsonRpcResult<T> {
+  return { jsonrpc: '2.0', id, result };
+}
+
+/**
+ * 构造错误响应
+ */
+export function formatJsonRpcError(id: number, error: JsonRpcErrorObject): JsonRpcError {
+  const errorObject: JsonRpcErrorObject = { code: error.code, message: error.message };
+  if (error.data !== undefined) {
+    errorObject.data = error.data;
+  }
+  return { jsonrpc: '2.0', id, error: errorObject };
+}
+
+/**
+ * 获取标准错误对象
+ */
+export function getStandardError(code: JsonRpcErrorCode, message?: string): JsonRpcErrorObject {
+  return { code, message: message || STANDARD_ERROR_MESSAGES[code] };
+}
+
+export function isJsonRpcRequest(payload: JsonRpcPayload): payload is JsonRpcRequest {
+  return 'method' in payload;
+}
+
+export function isJsonRpcResponse(payload: JsonRpcPayload): payload is JsonRpcResponse {
+  return !isJsonRpcRequest(payload);
+}
+
+export function isJsonRpcError(payload: JsonRpcPayload): payload is JsonRpcError {
+  return 'error' in payload;
+}
+
+/**
+ * 校验 JSON-RPC 消息
+ *
+ * @param message - 解密后的消息
+ * @returns 通过校验的请求或响应
+ * @throws JsonRpcValidationError 如果消息不符合 JSON-RPC 2.0
+ */
+export function validateJsonRpcPayload(message: any): JsonRpcPayload {
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    throw new JsonRpcValidationError(JsonRpcErrorCode.INVALID_REQUEST, 'Message must be an object');
+  }
+
+  // 只有请求需要回复错误，格式错误的响应不带 id，避免双方互相回复错误
+  const id = 'method' in message && typeof message.id === 'number' ? message.id : undefined;
+
+  if (message.jsonrpc !== '2.0') {
+    throw new JsonRpcValidationError(JsonRpcErrorCode.INVALID_REQUEST, 'Unsupported jsonrpc version', id);
+  }
+
+  if (typeof message.id !== 'number' || !Number.isSafeInteger(message.id)) {
+    throw new JsonRpcValidationError(JsonRpcErrorCode.INVALID_REQUEST, 'Invalid id');
+  }
+
+  // 请求
+  if ('method' in message) {
+    if (typeof message.method !== 'string' || message.method.length === 0) {
+      throw new JsonRpcValidationError(JsonRpcErrorCode.INVALID_REQUEST, 'Invalid method', id);
+    }
+    if (message.params !== undefined && (message.params === null || typeof message.params !== 'object')) {
+      throw new JsonRpcValidationError(JsonRpcErrorCode.INVALID_PARAMS, 'Params must be an object or array', id);
+    }
+    return message as JsonRpcRequest;
+  }
+
+  // 响应：result 和 error 必须且只能有一个
+  const hasResult = 'result' in message;
+  const hasError = 'error' in message;
+  if (hasResult === hasError) {
+    throw new JsonRpcValidationError(JsonRpcErrorCode.INVALID_REQUEST, 'Response must contain either result or error', id);
+  }
+
+  if (hasError) {
+    const error = message.error;
+    if (!error || typeof error.code !== 'number' || typeof error.message !== 'string') {
+      throw new JsonRpcValidationError(JsonRpcErrorCode.INVALID_REQUEST, 'Invalid error object', id);
+    }
+  }
+
+  return message as JsonRpcResponse;
+}
@@ -0,0 +1,71 @@
+import {
+  InvalidTransitionError,
+  LifecycleRecord,
+  StateTransition,
+  TransitionTable
+} from '../types/lifecycle';
+import { PairingStatus } from '../types/pairing';
+import { SessionStatus } from '../types/session';
+
+/**
+ * Pairing 和 Session 生命周期状态机
+ *
+ * 职责：
+ * - 定义允许的状态转换
+ * - 校验转换并记录历史，非法转换抛出 InvalidTransitionError
+ */
+
+export const PAIRING_TRANSITIONS: TransitionTable<PairingStatus> = {
+  [PairingStatus.PENDING]: [PairingStatus.ACTIVE, PairingStatus.REJECTED, PairingStatus.DELETED, PairingStatus.EXPIRED],
+  [PairingStatus.ACTIVE]: [PairingStatus.DELETED, PairingStatus.EXPIRED],
+  [PairingStatus.REJECTED]: [],
+  [PairingStatus.DELETED]: [],
+  [PairingStatus.EXPIRED]: []
+};
+
+export const SESSION_TRANSITIONS: TransitionTable<SessionStatus> = {
+  [SessionStatus.PROPOSED]: [SessionStatus.SETTLED, SessionStatus.DISCONNECTED, SessionStatus.EXPIRED],
+  [SessionStatus.SETTLED]: [SessionStatus.DISCONNECTED, SessionStatus.EXPIRED],
+  [SessionStatus.DISCONNECTED]: [],
+  [SessionStatus.EXPIRED]: []
+};
+
+/**
+ * 创建记录时的初始历史
+ */
+export function initialHistory<S extends string>(status: S, reason?: string): StateTransition<S>[] {
+  return [{ from: null, to: status, at: Date.now(), reason }];
+}
+
+export function canTransition<S extends string>(table: TransitionTable<S>, from: S, to: S): boolean {
+  return table[from]?.includes(to) ?? false;
+}
+
+/**
+ * 执行状态转换
+ *
+ * @param entity - 记录类型，用于错误信息
+ * @param table - 状态转换表
+ * @param record - 要转换的记录（原地修改）
+ * @param to - 目标状态
+ * @param reason - 转换原因
+ * @returns 本次转换记录
+ * @throws InvalidTransitionError 如果转换不被允许
+ */
+export function applyTransition<S extends string>(
+  entity: 'pairing' | 'session',
+  table: TransitionTable<S>,
+  record: LifecycleRecord<S>,
+  to: S,
+  reason?: string
+): StateTransition<S> {
+  if (!canTransition(table, record.status, to)) {
+    throw new InvalidTransitionError(entity, record.topic, record.status, to);
+  }
+
+  const transition: StateTransition<S> = { from: record.status, to, at: Date.now(), reason };
+  record.history = [...(record.history || []), transition];
+  record.status = to;
+  record.updatedAt = transition.at;
+  return transition;
+}
@@ -0,0 +1,21 @@
+import { LocalRelayFrame, RelayMessage } from '../types/relay';
+
+/**
+ * 检查是否为有效的本机 relay 帧（BroadcastChannel / postMessage）
+ *
+ * @param data - 收到的消息数据
+ * @param channel - 本端频道名，其他频道的帧被忽略
+ */
+export function isLocalRelayFrame(data: unknown, channel: string): data is LocalRelayFrame {
+  if (!data || typeof data !== 'object') {
+    return false;
+  }
+  const frame = data as Partial<LocalRelayFrame>;
+  const message = frame.message as Partial<RelayMessage> | undefined;
+  return frame.channel === channel
+    && !!message
+    && typeof message === 'object'
+    && typeof message.topic === 'string'
+    && typeof message.payload === 'string'
+    && typeof message.publishedAt === 'number';
+}
@@ -0,0 +1,171 @@
+import { Reason } from '../types/common';
+import {
+  MethodContext,
+  MethodHandler,
+  MethodHandlerOptions,
+  MethodRegistryOptions,
+  SessionData,
+  SessionError,
+  SessionErrorCode,
+  SessionRequest,
+  SessionResponse
+} from '../types/session';
+
+/**
+ * Wallet 端按命名空间和方法分发 Session 请求
+ *
+ * 职责：
+ * - 每个 namespace + method 注册一个处理器
+ * - 校验方法和链已在 Session 中授权，执行参数校验和可选的用户确认
+ * - 处理器的返回值作为结果，抛出的错误转换为错误响应
+ * - 未注册的方法交给 onUnknownMethod、直接拒绝或返回 undefined 由应用处理
+ */
+
+export type MethodOutcome = Pick<SessionResponse, 'result' | 'error'>;
+
+interface MethodEntry extends MethodHandlerOptions {
+  handler: MethodHandler;
+}
+
+export class MethodRegistry {
+  private handlers: Map<string, MethodEntry> = new Map();
+
+  constructor(private options: MethodRegistryOptions = {}) {}
+
+  /**
+   * 注册（或替换）方法处理器
+   *
+   * @param namespace - 命名空间，如 'eip155'
+   * @param method - 方法名，如 'personal_sign'
+   */
+  register(namespace: string, method: string, handler: MethodHandler, options?: MethodHandlerOptions): void {
+    this.handlers.set(this.key(namespace, method), { ...options, handler });
+  }
+
+  unregister(namespace: string, method: string): boolean {
+    return this.handlers.delete(this.key(namespace, method));
+  }
+
+  has(namespace: string, method: string): boolean {
+    return this.handlers.has(this.key(namespace, method));
+  }
+
+  /**
+   * 已注册的方法，按命名空间分组
+   */
+  getMethods(): Record<string, string[]> {
+    const methods: Record<string, string[]> = {};
+    for (const key of this.handlers.keys()) {
+      const [namespace, method] = key.split('/');
+      (methods[namespace] = methods[namespace] || []).push(method);
+    }
+    return methods;
+  }
+
+  clear(): void {
+    this.handlers.clear();
+  }
+
+  /**
+   * 分发请求
+   *
+   * @returns 响应的结果或错误，未注册且未配置未知方法处理时返回 undefined
+   */
+  async dispatch(request: SessionRequest, session: SessionData): Promise<MethodOutcome | undefined> {
+    const context: MethodContext = {
+      request,
+      session,
+      namespace: this.resolveNamespace(request, session),
+      chainId: request.chainId
+    };
+
+    const entry = this.handlers.get(this.key(context.namespace, request.method));
+    if (!entry && !this.options.onUnknownMethod) {
+      if (this.options.rejectUnknown) {
+        return { error: { code: SessionErrorCode.UNSUPPORTED_METHODS, message: `Unsupported method: ${request.method}` } };
+      }
+      return undefined;
+    }
+
+    // 未注册方法的兜底处理同样需要 Session 授权
+    const unauthorized = this.checkAuthorized(context);
+    if (unauthorized) {
+      return { error: unauthorized };
+    }
+
+    return this.execute(entry || { handler: this.options.onUnknownMethod! }, context);
+  }
+
+  /**
+   * 参数校验 -> 用户确认 -> 执行处理器
+   */
+  private async execute(entry: MethodEntry, context: MethodContext): Promise<MethodOutcome> {
+    const { request } = context;
+
+    if (entry.validate) {
+      try {
+        if (await entry.validate(request.params, context) === false) {
+          return { error: { code: SessionErrorCode.INVALID_PARAMS, message: `Invalid params for ${request.method}` } };
+        }
+      } catch (error) {
+        return { error: toReason(error, SessionErrorCode.INVALID_PARAMS) };
+      }
+    }
+
+    if (entry.confirm) {
+      // 没有确认处理时不执行需要确认的方法
+      const approved = this.options.confirm ? await this.options.confirm(context) : false;
+      if (!approved) {
+        return { error: { code: SessionErrorCode.USER_REJECTED, message: 'User rejected the request' } };
+      }
+    }
+
+    try {
+      return { result: await entry.handler(request.params, context) };
+    } catch (error) {
+      return { error: toReason(error, SessionErrorCode.UNKNOWN_ERROR) };
+    }
+  }
+
+  /**
+   * 方法和链需要在 Session 的命名空间中
+   */
+  private checkAuthorized(context: MethodContext): Reason | undefined {
+    const namespace = context.session.namespaces[context.namespace];
+    if (!namespace || !namespace.methods.includes(context.request.method)) {
+      return { code: SessionErrorCode.UNSUPPORTED_METHODS, message: `Method not authorized: ${context.request.method}` };
+    }
+    if (context.chainId && !namespace.chains.includes(context.chainId)) {
+      return { code: SessionErrorCode.UNSUPPORTED_CHAINS, message: `Chain not authorized: ${context.chainId}` };
+    }
+    return undefined;
+  }
+
+  /**
+   * 优先使用 chainId 的前缀，否则查找授权了该方法的命名空间
+   */
+  private resolveNamespace(request: SessionRequest, session: SessionData): string {
+    if (request.chainId) {
+      return request.chainId.split(':')[0];
+    }
+    const match = Object.entries(session.namespaces).find(([, namespace]) => namespace.methods.includes(request.method));
+    return match ? match[0] : Object.keys(session.namespaces)[0] || '';
+  }
+
+  private key(namespace: string, method: string): string {
+    return `${namespace}/${method}`;
+  }
+}
+
+/**
+ * 把处理器抛出的错误转换为拒绝原因，保留错误码和 data
+ */
+function toReason(error: any, fallback: SessionErrorCode): Reason {
+  if (error instanceof SessionError) {
+    return { code: error.rpcCode ?? error.code, message: error.message, data: error.data };
+  }
+  if (error && typeof error.code === 'number' && typeof error.message === 'string') {
+    return { code: error.code, message: error.message, data: error.data };
+  }
+  return { code: fallback, message: error instanceof Error ? error.message : String(error) };
+}
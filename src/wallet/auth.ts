@@ -1,5 +1,34 @@
 import { notifyError, notifySuccess } from '../utils/message';
 import globalState from '../utils/globalState';
+import { IKeyValueStorage } from '../shared/types/storage';
+import { createDefaultStorage } from '../shared/storage/default';
+
+// 登录状态存储（默认 localStorage，不可用时使用内存）
+let authStorage: IKeyValueStorage | undefined;
+
+// 当前账户的同步缓存，供 getCurrentAccount 使用
+let cachedAccount: string | null | undefined;
+let customStorage = false;
+
+// 设置登录状态存储
+export function setAuthStorage(storage: IKeyValueStorage) {
+    authStorage = storage;
+    customStorage = true;
+    cachedAccount = undefined;
+    storage.getItem('currentAccount').then(account => {
+        if (authStorage === storage && cachedAccount === undefined) {
+            cachedAccount = account ?? null;
+        }
+    }).catch(error => console.error('Failed to load current account:', error));
+}
+
+function getAuthStorage(): IKeyValueStorage {
+    if (!authStorage) {
+        authStorage = createDefaultStorage();
+    }
+    return authStorage;
+}
+
 // 等待钱包注入
 export async function waitForWallet() {
   return new Promise((resolve, reject) => {
@@ -41,7 +70,8 @@ export async function connectWallet(router: any, route: any) {
             });
             if (Array.isArray(accounts) && accounts.length > 0) {
                 const currentAccount = accounts[0];
-                localStorage.setItem('currentAccount', currentAccount);
+                cachedAccount = currentAccount;
+                await getAuthStorage().setItem('currentAccount', currentAccount);
                 notifySuccess(`✅钱包连接成功！\n账户: ${currentAccount}`);
                 await loginWithChallenge()
                 await router.push(route.fullPath);
@@ -74,8 +104,25 @@ export async function connectWallet(router: any, route: any) {
     }
 }
 
-export function getCurrentAccount() {
-    return localStorage.getItem("currentAccount")
+// 获取当前账户（同步）：自定义存储尚未加载完成时返回 null，需要准确结果时使用 getCurrentAccountAsync
+export function getCurrentAccount(): string | null {
+    if (cachedAccount !== undefined) {
+        return cachedAccount
+    }
+    if (!customStorage && typeof localStorage !== 'undefined') {
+        return localStorage.getItem("currentAccount")
+    }
+    return null
+}
+
+// 从登录状态存储获取当前账户
+export async function getCurrentAccountAsync(): Promise<string | undefined> {
+    return getAuthStorage().getItem("currentAccount")
+}
+
+// 获取登录 Token
+export async function getAuthToken() {
+    return getAuthStorage().getItem("authToken")
 }
 
 // 获取链 ID
@@ -113,7 +160,7 @@ export async function getBalance() {
         notifyError('❌钱包未就绪，请等待检测完成');
         return;
     }
-    const currentAccount = getCurrentAccount()
+    const currentAccount = await getCurrentAccountAsync()
     if (!currentAccount) {
         notifyError('❌请先连接钱包');
         return;
@@ -142,7 +189,7 @@ export async function loginWithChallenge() {
         notifyError('❌钱包未就绪，请等待检测完成');
         return;
     }
-    const currentAccount = getCurrentAccount()
+    const currentAccount = await getCurrentAccountAsync()
     if (!currentAccount) {
         notifyError('❌请先连接钱包');
         return;
@@ -205,7 +252,7 @@ export async function loginWithChallenge() {
         const r2 = await verifyRes.json();
         const token = r2.body.token
         // 4. 保存 Token
-        localStorage.setItem('authToken', token);
+        await getAuthStorage().setItem('authToken', token);
 
         // const avatar = await getAvatar(currentAccount)
         // console.log(`avatar=${avatar}`)
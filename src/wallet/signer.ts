@@ -0,0 +1,285 @@
+import { getBytes, isHexString, TransactionRequest, TypedDataField, Wallet } from 'ethers'
+import { Identity, IdentityMetadata, SecurityAlgorithm } from '../yeying/api/web3/web3'
+import { decryptBlockAddress } from './identity'
+import { InvalidPassword } from '../common/error'
+import { MethodContext, MethodHandler, MethodHandlerOptions, SessionError, SessionErrorCode } from '../shared/types/session'
+
+/**
+ * 可以注册方法处理器的对象，如 WalletClient
+ */
+export interface MethodRegistrar {
+    registerMethod(namespace: string, method: string, handler: MethodHandler, options?: MethodHandlerOptions): void
+}
+
+/**
+ * 身份签名方法的注册选项
+ */
+export interface IdentityMethodsOptions {
+    confirm?: boolean // 签名前需要用户确认（默认 true，eth_accounts 不需要）
+}
+
+/**
+ * 身份签名器，解锁身份的区块链地址后用 secp256k1 私钥处理 eip155 请求。
+ *
+ * @example
+ * ```ts
+ * const signer = new IdentitySigner(identity)
+ * await signer.unlock(password)
+ *
+ * const wallet = new WalletClient({ metadata, accounts: [signer.address] })
+ * registerIdentityMethods(wallet, signer)
+ * ```
+ */
+export class IdentitySigner {
+    private wallet?: Wallet
+
+    constructor(private identity: Identity) {}
+
+    /**
+     * 身份的区块链地址
+     */
+    get address(): string {
+        return (this.identity.metadata as IdentityMetadata).address
+    }
+
+    /**
+     * 使用密码解密区块链地址
+     *
+     * @param password 身份的加密密码
+     *
+     * @throws InvalidPassword 密码错误或解密出的地址与身份不一致
+     */
+    async unlock(password: string): Promise<void> {
+        let privateKey: string
+        try {
+            const blockAddress = await decryptBlockAddress(
+                this.identity.blockAddress,
+                this.identity.securityConfig?.algorithm as SecurityAlgorithm,
+                password
+            )
+            privateKey = blockAddress.privateKey
+        } catch (error) {
+            throw new InvalidPassword('Failed to decrypt block address', { cause: error })
+        }
+
+        const wallet = new Wallet(privateKey)
+        if (!sameAddress(wallet.address, this.address)) {
+            throw new InvalidPassword('Block address does not match identity')
+        }
+        this.wallet = wallet
+    }
+
+    /**
+     * 丢弃已解锁的私钥
+     */
+    lock(): void {
+        this.wallet = undefined
+    }
+
+    isUnlocked(): boolean {
+        return this.wallet !== undefined
+    }
+
+    /**
+     * CAIP-10 账户
+     *
+     * @param chains 链 ID，如 ['eip155:1']
+     *
+     * @returns 如 ['eip155:1:0xab...']
+     */
+    getAccounts(chains: string[]): string[] {
+        return chains.map(chain => `${chain}:${this.address}`)
+    }
+
+    /**
+     * personal_sign：[message, address]，message 为十六进制时按字节签名
+     */
+    async personalSign(params: any[]): Promise<string> {
+        const [message, address] = params
+        this.checkAddress(address)
+        return this.unlocked().signMessage(isHexString(message) ? getBytes(message) : message)
+    }
+
+    /**
+     * eth_sign：[address, data]，按 EIP-191 加前缀后签名，不对原始哈希签名，
+     * 避免被用来签署交易或 permit 摘要
+     */
+    async ethSign(params: any[]): Promise<string> {
+        const [address, data] = params
+        this.checkAddress(address)
+        return this.unlocked().signMessage(getBytes(data))
+    }
+
+    /**
+     * eth_signTypedData_v4：[address, typedData]，typedData 可以是 JSON 字符串。
+     * 只保留 primaryType 引用到的类型，声明的 EIP712Domain 必须与 domain 一致
+     */
+    async signTypedData(params: any[]): Promise<string> {
+        const [address, data] = params
+        this.checkAddress(address)
+
+        const typedData = typeof data === 'string' ? JSON.parse(data) : data
+        const { EIP712Domain, ...types } = typedData.types as Record<string, TypedDataField[]>
+        if (EIP712Domain) {
+            checkDomainType(EIP712Domain, typedData.domain)
+        }
+        // ethers 根据 domain 自动生成 EIP712Domain，并以唯一的根类型作为 primaryType
+        return this.unlocked().signTypedData(typedData.domain, pruneTypes(types, typedData.primaryType), typedData.message)
+    }
+
+    /**
+     * eth_signTransaction：[transaction]，未指定 chainId 时使用请求的链
+     */
+    async signTransaction(params: any[], chainId?: string): Promise<string> {
+        const [tx] = params
+        if (tx.from !== undefined) {
+            this.checkAddress(tx.from)
+        }
+
+        const request: TransactionRequest = {
+            to: tx.to,
+            nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+            gasLimit: tx.gasLimit ?? tx.gas,
+            gasPrice: tx.gasPrice,
+            maxFeePerGas: tx.maxFeePerGas,
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+            data: tx.data ?? tx.input,
+            value: tx.value,
+            type: tx.type === undefined ? undefined : Number(tx.type),
+            accessList: tx.accessList,
+            chainId: tx.chainId ?? (chainId ? chainId.split(':')[1] : undefined)
+        }
+        return this.unlocked().signTransaction(request)
+    }
+
+    private unlocked(): Wallet {
+        if (!this.wallet) {
+            throw new SessionError(SessionErrorCode.UNAUTHORIZED, 'Identity is locked')
+        }
+        return this.wallet
+    }
+
+    private checkAddress(address: string): void {
+        if (!sameAddress(address, this.address)) {
+            throw new SessionError(SessionErrorCode.UNSUPPORTED_ACCOUNTS, `Unknown account: ${address}`)
+        }
+    }
+}
+
+/**
+ * 为 eip155 注册 personal_sign、eth_sign、eth_signTypedData_v4、eth_signTransaction 和 eth_accounts。
+ * 签名方法默认需要用户确认，由注册表的 confirm 选项处理。
+ *
+ * @param registrar 注册方法的对象，如 WalletClient
+ * @param signer 已解锁（或稍后解锁）的身份签名器
+ * @param options 注册选项
+ *
+ * @example
+ * ```ts
+ * const wallet = new WalletClient({
+ *   metadata,
+ *   accounts: [signer.address],
+ *   methods: { confirm: context => window.confirm(`Sign ${context.request.method}?`) }
+ * })
+ * registerIdentityMethods(wallet, signer)
+ * ```
+ */
+export function registerIdentityMethods(
+    registrar: MethodRegistrar,
+    signer: IdentitySigner,
+    options: IdentityMethodsOptions = {}
+) {
+    const confirm = options.confirm ?? true
+
+    registrar.registerMethod('eip155', 'personal_sign', params => signer.personalSign(params), {
+        validate: params => isArray(params, 2) && typeof params[0] === 'string',
+        confirm
+    })
+    registrar.registerMethod('eip155', 'eth_sign', params => signer.ethSign(params), {
+        validate: params => isArray(params, 2) && isHexString(params[1]),
+        confirm
+    })
+    registrar.registerMethod('eip155', 'eth_signTypedData_v4', params => signer.signTypedData(params), {
+        validate: params => isArray(params, 2) && isTypedData(params[1]),
+        confirm
+    })
+    registrar.registerMethod(
+        'eip155',
+        'eth_signTransaction',
+        (params, context: MethodContext) => signer.signTransaction(params, context.chainId),
+        {
+            validate: params => isArray(params, 1) && typeof params[0] === 'object' && params[0] !== null,
+            confirm
+        }
+    )
+    registrar.registerMethod('eip155', 'eth_accounts', () => [signer.address])
+}
+
+function sameAddress(a: string, b: string) {
+    return typeof a === 'string' && a.toLowerCase() === b.toLowerCase()
+}
+
+function isArray(params: any, minLength: number) {
+    return Array.isArray(params) && params.length >= minLength
+}
+
+function isTypedData(data: any) {
+    try {
+        const typedData = typeof data === 'string' ? JSON.parse(data) : data
+        return !!typedData
+            && typeof typedData.types === 'object'
+            && typeof typedData.message === 'object'
+            && typeof typedData.primaryType === 'string'
+    } catch {
+        return false
+    }
+}
+
+// EIP712Domain 字段的规范顺序，ethers 按此顺序计算 domain 哈希
+const DOMAIN_FIELDS: TypedDataField[] = [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'verifyingContract', type: 'address' },
+    { name: 'salt', type: 'bytes32' }
+]
+
+/**
+ * 声明的 EIP712Domain 必须与 domain 中实际出现的字段一致，否则签出的摘要与 Dapp 计算的不同
+ */
+function checkDomainType(declared: TypedDataField[], domain: Record<string, unknown>) {
+    const expected = DOMAIN_FIELDS.filter(field => domain?.[field.name] !== undefined && domain?.[field.name] !== null)
+    const matches = Array.isArray(declared)
+        && declared.length === expected.length
+        && declared.every((field, index) => field.name === expected[index].name && field.type === expected[index].type)
+    if (!matches) {
+        throw new SessionError(SessionErrorCode.INVALID_PARAMS, 'EIP712Domain does not match domain')
+    }
+}
+
+/**
+ * 只保留 primaryType 及其引用的类型，使 primaryType 成为唯一的根类型
+ */
+function pruneTypes(types: Record<string, TypedDataField[]>, primaryType: string): Record<string, TypedDataField[]> {
+    if (!types[primaryType]) {
+        throw new SessionError(SessionErrorCode.INVALID_PARAMS, `Unknown primaryType: ${primaryType}`)
+    }
+
+    const pruned: Record<string, TypedDataField[]> = {}
+    const pending = [primaryType]
+    while (pending.length > 0) {
+        const name = pending.pop()!
+        if (pruned[name]) {
+            continue
+        }
+        pruned[name] = types[name]
+        for (const field of types[name]) {
+            // 去掉数组后缀，如 Person[] -> Person
+            const type = field.type.replace(/(\[\d*\])+$/, '')
+            if (types[type] && !pruned[type]) {
+                pending.push(type)
+            }
+        }
+    }
+    return pruned
+}
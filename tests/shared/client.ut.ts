@@ -0,0 +1,208 @@
+// 客户端默认创建 Waku Relay，测试中注入内存 Relay
+jest.mock("../../src/shared/relay/waku", () => ({ WakuRelay: class {} }))
+
+import { DappClient, scopedEvent } from "../../src/shared/client/dapp"
+import { WalletClient } from "../../src/shared/client/wallet"
+import { InMemoryRelay, InMemoryRelayBus } from "../../src/shared/relay/memory"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { PairingManager } from "../../src/shared/core/PairingManager"
+import { SessionManager } from "../../src/shared/core/SessionManager"
+import { PairingStore } from "../../src/shared/store/PairingStore"
+import { SessionStore } from "../../src/shared/store/SessionStore"
+import { PrefixedStorage } from "../../src/shared/storage/prefixed"
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { PairingURIUtil } from "../../src/shared/utils/pairing-uri"
+import { sealMessage } from "../../src/shared/utils/envelope"
+import { formatJsonRpcRequest } from "../../src/shared/utils/jsonrpc"
+import { PairingMethod } from "../../src/shared/types/pairing"
+import { SessionEvent } from "../../src/shared/types/common"
+import { ReliableRelayOptions } from "../../src/shared/types/relay"
+import { SessionData, SessionErrorCode, SessionProposal } from "../../src/shared/types/session"
+
+const metadata = { name: "test", description: "test", url: "https://example.com", icons: [] }
+const namespaces = {
+    eip155: {
+        chains: ["eip155:1"],
+        methods: ["eth_chainId"],
+        events: ["chainChanged"]
+    }
+}
+
+async function createDapp(bus: InMemoryRelayBus, storage = new MemoryStorage(), reliability?: ReliableRelayOptions) {
+    const dapp = new DappClient({ metadata, relay: new InMemoryRelay(bus), storage, requiredNamespaces: namespaces, reliability })
+    await dapp.init()
+    return dapp
+}
+
+async function createWallet(bus: InMemoryRelayBus, name: string, reliability?: ReliableRelayOptions) {
+    const wallet = new WalletClient({
+        metadata: { ...metadata, name },
+        relay: new InMemoryRelay(bus),
+        storage: new MemoryStorage(),
+        reliability
+    })
+    wallet.registerMethod("eip155", "eth_chainId", () => name)
+    await wallet.init()
+    return wallet
+}
+
+// Dapp 发起连接，钱包配对并批准
+async function connect(dapp: DappClient, wallet: WalletClient): Promise<SessionData> {
+    const proposed = once<SessionProposal>(wallet, SessionEvent.PROPOSAL)
+    const result = await dapp.connect()
+    await wallet.pair(result.uri)
+    await wallet.approveSession({ proposalId: (await proposed).proposalId, namespaces })
+    return result.approval()
+}
+
+function once<T>(emitter: { once(event: string, callback: (data: T) => void): void }, event: string): Promise<T> {
+    return new Promise(resolve => emitter.once(event, resolve))
+}
+
+// 以钱包身份向 Pairing topic 发送消息
+async function sendAsWallet(bus: InMemoryRelayBus, uri: string, method: string, params: any) {
+    const { topic, symKey } = PairingURIUtil.decode(uri)
+    const cryptoManager = new CryptoManager(new KeyChain({ storage: new MemoryStorage() }))
+    const relay = new InMemoryRelay(bus)
+    await relay.start()
+    await relay.publish(topic, await sealMessage(cryptoManager, symKey, formatJsonRpcRequest(method, params)))
+}
+
+describe("DappClient", () => {
+    it("reject connect as user rejected only when the wallet rejects the pairing", async () => {
+        const bus = new InMemoryRelayBus()
+        const dapp = await createDapp(bus)
+
+        try {
+            const rejected = await dapp.connect()
+            await sendAsWallet(bus, rejected.uri, PairingMethod.REJECT, {
+                reason: { code: 5000, message: "Not now", data: { retry: false } }
+            })
+            await expect(rejected.approval()).rejects.toMatchObject({
+                code: SessionErrorCode.USER_REJECTED,
+                message: "Not now",
+                data: { retry: false }
+            })
+
+            // 其他失败保留原始错误
+            const deleted = await dapp.connect()
+            await sendAsWallet(bus, deleted.uri, PairingMethod.DELETE, { reason: { code: 6000, message: "Gone" } })
+            const error = await deleted.approval().catch(error => error)
+            expect(error.code).toEqual(SessionErrorCode.UNKNOWN_ERROR)
+            expect(error.cause).toBeInstanceOf(Error)
+            expect(error.cause.message).toEqual("Gone")
+        } finally {
+            await dapp.destroy()
+        }
+    })
+
+    it("connect and request over encrypted reliable delivery", async () => {
+        const bus = new InMemoryRelayBus()
+        const dapp = await createDapp(bus, new MemoryStorage(), { ackTimeout: 100 })
+        const wallet = await createWallet(bus, "reliable", { ackTimeout: 100 })
+
+        try {
+            const session = await connect(dapp, wallet)
+            expect(await dapp.request({ topic: session.topic, chainId: "eip155:1", method: "eth_chainId", params: [] }))
+                .toEqual("reliable")
+        } finally {
+            await dapp.destroy()
+            await wallet.destroy()
+        }
+    })
+
+    it("restore a persisted session after reload", async () => {
+        const bus = new InMemoryRelayBus()
+        const storage = new MemoryStorage()
+        const dapp = await createDapp(bus, storage)
+        const wallet = await createWallet(bus, "first")
+
+        try {
+            const session = await connect(dapp, wallet)
+
+            // 同一存储上新建的 SessionManager 和 DappClient 恢复已建立的 Session（销毁会断开 Session，最后销毁）
+            const dappStorage = new PrefixedStorage(storage, "dapp")
+            const relay = new InMemoryRelay(new InMemoryRelayBus())
+            const cryptoManager = new CryptoManager(new KeyChain({ storage: dappStorage }))
+            const pairingManager = new PairingManager(relay, metadata, cryptoManager, new PairingStore(dappStorage))
+            const sessionManager = new SessionManager(metadata, cryptoManager, new SessionStore(dappStorage))
+            sessionManager.setPairingManager(pairingManager, false)
+            await pairingManager.initialize()
+            await sessionManager.init(relay)
+            const reloaded = await createDapp(new InMemoryRelayBus(), storage)
+
+            try {
+                expect(sessionManager.getAll().map(s => [s.topic, s.status])).toStrictEqual([[session.topic, session.status]])
+                expect(reloaded.getActiveSession()?.topic).toEqual(session.topic)
+                expect(reloaded.getSessions().map(s => s.topic)).toStrictEqual([session.topic])
+            } finally {
+                await reloaded.destroy()
+                await sessionManager.destroy()
+                await pairingManager.destroy()
+            }
+        } finally {
+            await dapp.destroy()
+            await wallet.destroy()
+        }
+    })
+})
+
+describe("DappClient with multiple sessions", () => {
+    let dapp: DappClient
+    let wallets: WalletClient[]
+    let sessions: SessionData[]
+
+    beforeEach(async () => {
+        const bus = new InMemoryRelayBus()
+        dapp = await createDapp(bus)
+        wallets = [await createWallet(bus, "first"), await createWallet(bus, "second")]
+        sessions = [await connect(dapp, wallets[0]), await connect(dapp, wallets[1])]
+    })
+
+    afterEach(async () => {
+        await dapp.destroy()
+        for (const wallet of wallets) {
+            await wallet.destroy()
+        }
+    })
+
+    it("route requests by topic", async () => {
+        const request = (topic?: string) => dapp.request({ topic, chainId: "eip155:1", method: "eth_chainId", params: [] })
+
+        expect(await request(sessions[0].topic)).toEqual("first")
+        expect(await request(sessions[1].topic)).toEqual("second")
+        // 默认使用最新的 Session
+        expect(await request()).toEqual("second")
+        dapp.selectSession(sessions[0].topic)
+        expect(await request()).toEqual("first")
+    })
+
+    it("disconnect one session and fall back to the other", async () => {
+        expect(dapp.getActiveSession()?.topic).toEqual(sessions[1].topic)
+
+        await dapp.disconnect(sessions[1].topic)
+        expect(dapp.getSessions().map(session => session.topic)).toStrictEqual([sessions[0].topic])
+        expect(dapp.getActiveSession()?.topic).toEqual(sessions[0].topic)
+        expect(dapp.isConnected(sessions[0].topic)).toBeTruthy()
+        expect(dapp.isConnected(sessions[1].topic)).toBeFalsy()
+
+        // 钱包断开当前 Session 后没有可用的 Session
+        const deleted = once(dapp, SessionEvent.DELETED)
+        await wallets[0].disconnectSession({ topic: sessions[0].topic, reason: "Bye" })
+        await deleted
+        expect(dapp.getActiveSession()).toBeUndefined()
+    })
+
+    it("fire scoped events only for their own topic", async () => {
+        const received: string[] = []
+        for (const session of sessions) {
+            dapp.on(scopedEvent(SessionEvent.EVENT_RECEIVED, session.topic), () => received.push(session.topic))
+        }
+
+        const event = once(dapp, SessionEvent.EVENT_RECEIVED)
+        await wallets[1].updateChain({ topic: sessions[1].topic, chainId: "eip155:1" })
+        await event
+        expect(received).toStrictEqual([sessions[1].topic])
+    })
+})
@@ -0,0 +1,29 @@
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+
+describe("CryptoManager", () => {
+    it("derive the same symmetric key on both sides", async () => {
+        const dapp = new CryptoManager()
+        const wallet = new CryptoManager()
+        const dappKeyPair = await dapp.generateKeyPair()
+        const walletKeyPair = await wallet.generateKeyPair()
+
+        const dappShared = await dapp.generateSharedKey(dappKeyPair.privateKey, walletKeyPair.publicKey)
+        const walletShared = await wallet.generateSharedKey(walletKeyPair.privateKey, dappKeyPair.publicKey)
+        expect(dappShared).toEqual(walletShared)
+
+        const dappKey = await dapp.deriveSymmetricKey(dappShared, "wc_session_key")
+        const walletKey = await wallet.deriveSymmetricKey(walletShared, "wc_session_key")
+        expect(dappKey).toEqual(walletKey)
+        expect(dappKey).not.toEqual(dappShared)
+        expect(await dapp.deriveSymmetricKey(dappShared, "other")).not.toEqual(dappKey)
+    })
+
+    it("store symmetric keys by topic", async () => {
+        const cryptoManager = new CryptoManager()
+        const symKey = await cryptoManager.generateSymmetricKey()
+        await cryptoManager.setSymKey("topic", symKey)
+        expect(await cryptoManager.getSymKey("topic")).toEqual(symKey)
+        await cryptoManager.deleteSymKey("topic")
+        expect(await cryptoManager.getSymKey("topic")).toBeUndefined()
+    })
+})
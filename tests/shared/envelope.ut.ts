@@ -0,0 +1,37 @@
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { openMessage, sealMessage } from "../../src/shared/utils/envelope"
+
+describe("Envelope", () => {
+    const cryptoManager = new CryptoManager()
+
+    it("seal and open", async () => {
+        const key = await cryptoManager.generateSymmetricKey()
+        const message = { method: "wc_pairingPing", params: {} }
+        const payload = await sealMessage(cryptoManager, key, message)
+        expect(payload).not.toContain("wc_pairingPing")
+        expect(await openMessage(cryptoManager, key, payload)).toStrictEqual(message)
+    })
+
+    it("reject wrong key", async () => {
+        const key1 = await cryptoManager.generateSymmetricKey()
+        const key2 = await cryptoManager.generateSymmetricKey()
+        const payload = await sealMessage(cryptoManager, key1, { method: "wc_sessionPing" })
+        await expect(openMessage(cryptoManager, key2, payload)).rejects.toThrow("Message authentication failed")
+    })
+
+    it("reject tampered ciphertext", async () => {
+        const key = await cryptoManager.generateSymmetricKey()
+        const encrypted = JSON.parse(await sealMessage(cryptoManager, key, { method: "wc_sessionPing" }))
+        const last = encrypted.ciphertext.slice(-1)
+        encrypted.ciphertext = encrypted.ciphertext.slice(0, -1) + (last === "0" ? "1" : "0")
+        await expect(openMessage(cryptoManager, key, JSON.stringify(encrypted))).rejects.toThrow(
+            "Message authentication failed"
+        )
+    })
+
+    it("reject plaintext payload", async () => {
+        const key = await cryptoManager.generateSymmetricKey()
+        const payload = JSON.stringify({ method: "wc_sessionRequest", params: {} })
+        await expect(openMessage(cryptoManager, key, payload)).rejects.toThrow("Invalid encrypted payload")
+    })
+})
@@ -0,0 +1,60 @@
+import { ExpiryScheduler } from "../../src/shared/utils/expiry"
+import { InMemoryRelay, InMemoryRelayBus } from "../../src/shared/relay/memory"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { PairingManager } from "../../src/shared/core/PairingManager"
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { PairingStore } from "../../src/shared/store/PairingStore"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { PairingEvent } from "../../src/shared/types/common"
+import { PairingStatus } from "../../src/shared/types/pairing"
+
+const metadata = { name: "test", description: "test", url: "https://example.com", icons: [] }
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe("Expiry", () => {
+    it("warn before expiry and expire on time", async () => {
+        const events: string[] = []
+        const scheduler = new ExpiryScheduler({
+            onExpire: topic => events.push(`expired:${topic}`),
+            onExpiring: topic => events.push(`expiring:${topic}`)
+        }, 0.1)
+
+        scheduler.schedule("a", (Date.now() + 200) / 1000)
+        scheduler.schedule("b", (Date.now() + 200) / 1000)
+        scheduler.cancel("b")
+        expect(scheduler.has("a")).toBeTruthy()
+        expect(scheduler.has("b")).toBeFalsy()
+
+        await sleep(150)
+        expect(events).toStrictEqual(["expiring:a"])
+
+        await sleep(150)
+        expect(events).toStrictEqual(["expiring:a", "expired:a"])
+        expect(scheduler.has("a")).toBeFalsy()
+    })
+
+    it("emit expired when a pairing reaches its expiry", async () => {
+        const storage = new MemoryStorage()
+        const relay = new InMemoryRelay(new InMemoryRelayBus())
+        const pairingManager = new PairingManager(
+            relay, metadata, new CryptoManager(new KeyChain({ storage })), new PairingStore(storage)
+        )
+        await pairingManager.initialize()
+
+        try {
+            const expired = new Promise<any>(resolve => pairingManager.once(PairingEvent.EXPIRED, resolve))
+            const result = await pairingManager.create({ relay: relay.getProtocol(), expiry: 1 })
+            result.approval().catch(() => undefined)
+
+            const data = await expired
+            expect(data.topic).toEqual(result.topic)
+            expect(data.pairing.status).toEqual(PairingStatus.EXPIRED)
+            expect(await pairingManager.get(result.topic)).toBeUndefined()
+        } finally {
+            await pairingManager.destroy()
+        }
+    })
+})
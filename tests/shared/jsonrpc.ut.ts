@@ -0,0 +1,164 @@
+import { formatJsonRpcError, formatJsonRpcRequest, formatJsonRpcResult, getStandardError, validateJsonRpcPayload } from "../../src/shared/utils/jsonrpc"
+import { JsonRpcErrorCode, JsonRpcValidationError, ProviderErrorCode } from "../../src/shared/types/jsonrpc"
+import { fromJsonRpcError, toJsonRpcError, toRpcErrorCode } from "../../src/shared/utils/errors"
+import { InMemoryRelay, InMemoryRelayBus } from "../../src/shared/relay/memory"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { PairingManager } from "../../src/shared/core/PairingManager"
+import { SessionManager } from "../../src/shared/core/SessionManager"
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { PairingStore } from "../../src/shared/store/PairingStore"
+import { SessionStore } from "../../src/shared/store/SessionStore"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { PairingEvent, SessionEvent } from "../../src/shared/types/common"
+import { SessionData, SessionError, SessionErrorCode, SessionProposal, SessionRequest } from "../../src/shared/types/session"
+
+const metadata = { name: "test", description: "test", url: "https://example.com", icons: [] }
+const namespaces = {
+    eip155: {
+        chains: ["eip155:1"],
+        methods: ["eth_chainId"],
+        events: ["chainChanged"]
+    }
+}
+
+function createPeer(bus: InMemoryRelayBus, isWallet: boolean) {
+    const storage = new MemoryStorage()
+    const relay = new InMemoryRelay(bus)
+    const cryptoManager = new CryptoManager(new KeyChain({ storage }))
+    const pairingManager = new PairingManager(relay, metadata, cryptoManager, new PairingStore(storage))
+    const sessionManager = new SessionManager(metadata, cryptoManager, new SessionStore(storage))
+    sessionManager.setPairingManager(pairingManager, isWallet)
+    return { relay, pairingManager, sessionManager }
+}
+
+function once<T>(emitter: { once(event: string, callback: (data: T) => void): void }, event: string): Promise<T> {
+    return new Promise(resolve => emitter.once(event, resolve))
+}
+
+function validationError(message: any): JsonRpcValidationError {
+    try {
+        validateJsonRpcPayload(message)
+    } catch (error) {
+        return error as JsonRpcValidationError
+    }
+    throw new Error("expected validation error")
+}
+
+describe("JSON-RPC", () => {
+    it("format and validate payloads", () => {
+        const request = formatJsonRpcRequest("wc_sessionPing", {}, 1)
+        expect(validateJsonRpcPayload(request)).toStrictEqual({ jsonrpc: "2.0", id: 1, method: "wc_sessionPing", params: {} })
+        expect(validateJsonRpcPayload(formatJsonRpcResult(1, true))).toStrictEqual({ jsonrpc: "2.0", id: 1, result: true })
+
+        const error = formatJsonRpcError(2, getStandardError(JsonRpcErrorCode.METHOD_NOT_FOUND))
+        expect(error.error).toStrictEqual({ code: -32601, message: "Method not found" })
+
+        expect(validationError({ id: 1, method: "x" }).code).toEqual(JsonRpcErrorCode.INVALID_REQUEST)
+        expect(validationError({ jsonrpc: "2.0", id: "1", method: "x" }).id).toBeUndefined()
+        expect(validationError({ jsonrpc: "2.0", id: 3, method: "x", params: "bad" })).toMatchObject({
+            code: JsonRpcErrorCode.INVALID_PARAMS,
+            id: 3
+        })
+        // 格式错误的响应不带 id，接收方不会回复错误
+        expect(validationError({ jsonrpc: "2.0", id: 4, result: 1, error: { code: 1, message: "x" } })).toMatchObject({
+            code: JsonRpcErrorCode.INVALID_REQUEST,
+            id: undefined
+        })
+        expect(validationError({ jsonrpc: "1.0", id: 6, result: 1 }).id).toBeUndefined()
+        expect(validationError({ jsonrpc: "2.0", id: 5, error: { message: "x" } }).code)
+            .toEqual(JsonRpcErrorCode.INVALID_REQUEST)
+    })
+
+    it("map session errors to provider errors and back", () => {
+        expect(toRpcErrorCode(SessionErrorCode.UNSUPPORTED_CHAINS)).toEqual(ProviderErrorCode.UNRECOGNIZED_CHAIN)
+        expect(toRpcErrorCode(JsonRpcErrorCode.INVALID_PARAMS)).toEqual(JsonRpcErrorCode.INVALID_PARAMS)
+        expect(toRpcErrorCode(12345)).toEqual(12345)
+        expect(toRpcErrorCode(SessionErrorCode.INVALID_METHOD)).toEqual(ProviderErrorCode.UNSUPPORTED_METHOD)
+        expect(toRpcErrorCode(SessionErrorCode.USER_REJECTED)).toEqual(ProviderErrorCode.USER_REJECTED)
+        expect(toRpcErrorCode(SessionErrorCode.INVALID_REQUEST)).toEqual(JsonRpcErrorCode.INVALID_REQUEST)
+        // 上一版本的对端直接发送 4000 / 4002
+        expect(fromJsonRpcError({ code: 4000, message: "x" }).code).toEqual(SessionErrorCode.INVALID_REQUEST)
+        expect(fromJsonRpcError({ code: 4002, message: "x" }).code).toEqual(SessionErrorCode.INVALID_PARAMS)
+        expect(fromJsonRpcError({ code: JsonRpcErrorCode.METHOD_NOT_FOUND, message: "x" }).code)
+            .toEqual(SessionErrorCode.UNSUPPORTED_METHODS)
+
+        const error = toJsonRpcError({ code: SessionErrorCode.UNSUPPORTED_METHODS, message: "Unsupported", data: [1] })
+        expect(error).toStrictEqual({ code: ProviderErrorCode.UNSUPPORTED_METHOD, message: "Unsupported", data: [1] })
+        expect(fromJsonRpcError(error)).toMatchObject({
+            code: SessionErrorCode.UNSUPPORTED_METHODS,
+            rpcCode: ProviderErrorCode.UNSUPPORTED_METHOD,
+            data: [1]
+        })
+        expect(fromJsonRpcError({ code: 12345, message: "x" }).code).toEqual(SessionErrorCode.UNKNOWN_ERROR)
+    })
+
+    it("correlate ping and request responses by id", async () => {
+        const bus = new InMemoryRelayBus()
+        const dapp = createPeer(bus, false)
+        const wallet = createPeer(bus, true)
+        await dapp.pairingManager.initialize()
+        await dapp.sessionManager.init(dapp.relay)
+        await wallet.pairingManager.initialize()
+        await wallet.sessionManager.init(wallet.relay)
+
+        try {
+            const result = await dapp.pairingManager.create({ relay: dapp.relay.getProtocol() })
+            await wallet.pairingManager.activate({ uri: result.uri, appMetadata: metadata })
+            const pairing = await result.approval()
+
+            const pairingPong = once(dapp.pairingManager, PairingEvent.PONG)
+            const pairingLatency = await dapp.pairingManager.ping(pairing.topic)
+            expect(pairingLatency).toBeGreaterThanOrEqual(0)
+            expect(await pairingPong).toStrictEqual({ topic: pairing.topic, latency: pairingLatency })
+
+            const proposed = once<SessionProposal>(wallet.sessionManager, SessionEvent.PROPOSAL)
+            await dapp.sessionManager.propose({ pairingTopic: pairing.topic, requiredNamespaces: namespaces })
+            const proposal = await proposed
+            const settled = once<SessionData>(dapp.sessionManager, SessionEvent.SETTLED)
+            await wallet.sessionManager.approve({ proposalId: proposal.proposalId, namespaces })
+            const session = await settled
+
+            const sessionPong = once(dapp.sessionManager, SessionEvent.PONG)
+            const sessionLatency = await dapp.sessionManager.ping(session.topic)
+            expect(await sessionPong).toStrictEqual({ topic: session.topic, latency: sessionLatency })
+
+            // 错误响应使请求被拒绝，用户拒绝和不支持的方法使用不同的错误码
+            wallet.sessionManager.on(SessionEvent.REQUEST, (request: SessionRequest) => {
+                wallet.sessionManager.respond({
+                    id: request.id,
+                    topic: request.topic,
+                    error: request.params[0] === "unknown"
+                        ? { code: SessionErrorCode.INVALID_METHOD, message: "Unknown method" }
+                        : { code: SessionErrorCode.USER_REJECTED, message: "User rejected", data: { reason: "denied" } }
+                })
+            })
+            const rejection = dapp.sessionManager.request({
+                topic: session.topic,
+                chainId: "eip155:1",
+                method: "eth_chainId",
+                params: []
+            })
+            await expect(rejection).rejects.toThrow(SessionError)
+            await expect(rejection).rejects.toMatchObject({
+                code: SessionErrorCode.USER_REJECTED,
+                rpcCode: ProviderErrorCode.USER_REJECTED,
+                message: "User rejected",
+                data: { reason: "denied" }
+            })
+            await expect(dapp.sessionManager.request({
+                topic: session.topic,
+                chainId: "eip155:1",
+                method: "eth_chainId",
+                params: ["unknown"]
+            })).rejects.toMatchObject({
+                code: SessionErrorCode.UNSUPPORTED_METHODS,
+                rpcCode: ProviderErrorCode.UNSUPPORTED_METHOD
+            })
+        } finally {
+            await dapp.sessionManager.destroy()
+            await dapp.pairingManager.destroy()
+            await wallet.sessionManager.destroy()
+            await wallet.pairingManager.destroy()
+        }
+    })
+})
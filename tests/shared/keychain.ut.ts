@@ -0,0 +1,43 @@
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { InvalidPassword } from "../../src/common/error"
+
+describe("KeyChain", () => {
+    it("restore key material after restart", async () => {
+        const storage = new MemoryStorage()
+        const cryptoManager = new CryptoManager(new KeyChain({ storage }))
+        const keyPair = await cryptoManager.generateKeyPair()
+        await cryptoManager.setSymKey("topic", "0x01")
+
+        const restored = new CryptoManager(new KeyChain({ storage }))
+        expect(await restored.getKeyPair(keyPair.publicKey)).toStrictEqual(keyPair)
+        expect(await restored.getSymKey("topic")).toEqual("0x01")
+    })
+
+    it("encrypt at rest with secret", async () => {
+        const storage = new MemoryStorage()
+        const keychain = new KeyChain({ storage, secret: "123456" })
+        await keychain.set("symkey:topic", "0xdeadbeef")
+        expect(await storage.getItem("wc_keychain")).not.toContain("0xdeadbeef")
+
+        expect(await new KeyChain({ storage, secret: "123456" }).get("symkey:topic")).toEqual("0xdeadbeef")
+        await expect(new KeyChain({ storage, secret: "654321" }).get("symkey:topic")).rejects.toThrow(InvalidPassword)
+    })
+
+    it("keep every concurrent write and derive the key once", async () => {
+        const storage = new MemoryStorage()
+        const keychain = new KeyChain({ storage, secret: "123456" })
+        const deriveKey = jest.spyOn(crypto.subtle, "deriveKey")
+
+        try {
+            await Promise.all(Array.from({ length: 5 }, (_, i) => keychain.set(`symkey:${i}`, `0x0${i}`)))
+            expect(deriveKey).toHaveBeenCalledTimes(1)
+        } finally {
+            deriveKey.mockRestore()
+        }
+
+        const restored = new KeyChain({ storage, secret: "123456" })
+        expect((await restored.keys()).sort()).toStrictEqual(["symkey:0", "symkey:1", "symkey:2", "symkey:3", "symkey:4"])
+    })
+})
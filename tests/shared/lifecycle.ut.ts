@@ -0,0 +1,113 @@
+import { applyTransition, initialHistory, PAIRING_TRANSITIONS, SESSION_TRANSITIONS } from "../../src/shared/utils/lifecycle"
+import { InvalidTransitionError } from "../../src/shared/types/lifecycle"
+import { PairingStatus } from "../../src/shared/types/pairing"
+import { SessionData, SessionStatus } from "../../src/shared/types/session"
+import { InMemoryRelay, InMemoryRelayBus } from "../../src/shared/relay/memory"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { PairingManager } from "../../src/shared/core/PairingManager"
+import { SessionManager } from "../../src/shared/core/SessionManager"
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { PairingStore } from "../../src/shared/store/PairingStore"
+import { SessionStore } from "../../src/shared/store/SessionStore"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { PairingEvent, SessionEvent } from "../../src/shared/types/common"
+
+const metadata = { name: "test", description: "test", url: "https://example.com", icons: [] }
+const namespaces = {
+    eip155: {
+        chains: ["eip155:1"],
+        methods: ["eth_chainId"],
+        events: ["chainChanged"]
+    }
+}
+
+function createPeer(bus: InMemoryRelayBus, isWallet: boolean) {
+    const storage = new MemoryStorage()
+    const relay = new InMemoryRelay(bus)
+    const cryptoManager = new CryptoManager(new KeyChain({ storage }))
+    const pairingManager = new PairingManager(relay, metadata, cryptoManager, new PairingStore(storage))
+    const sessionManager = new SessionManager(metadata, cryptoManager, new SessionStore(storage))
+    sessionManager.setPairingManager(pairingManager, isWallet)
+    return { relay, pairingManager, sessionManager }
+}
+
+function once<T>(emitter: { once(event: string, callback: (data: T) => void): void }, event: string): Promise<T> {
+    return new Promise(resolve => emitter.once(event, resolve))
+}
+
+describe("Lifecycle", () => {
+    it("guard transitions and record history", () => {
+        const pairing = {
+            topic: "topic",
+            status: PairingStatus.PENDING,
+            history: initialHistory(PairingStatus.PENDING),
+            updatedAt: 0
+        }
+
+        applyTransition("pairing", PAIRING_TRANSITIONS, pairing, PairingStatus.ACTIVE)
+        applyTransition("pairing", PAIRING_TRANSITIONS, pairing, PairingStatus.DELETED, "User disconnected")
+        expect(pairing.status).toEqual(PairingStatus.DELETED)
+        expect(pairing.history.map(item => [item.from, item.to])).toStrictEqual([
+            [null, PairingStatus.PENDING],
+            [PairingStatus.PENDING, PairingStatus.ACTIVE],
+            [PairingStatus.ACTIVE, PairingStatus.DELETED]
+        ])
+        expect(pairing.history[2].reason).toEqual("User disconnected")
+
+        // 终止状态不能再转换
+        expect(() => applyTransition("pairing", PAIRING_TRANSITIONS, pairing, PairingStatus.ACTIVE))
+            .toThrow(InvalidTransitionError)
+
+        const session = { topic: "topic", status: SessionStatus.SETTLED, updatedAt: 0 }
+        expect(() => applyTransition("session", SESSION_TRANSITIONS, session, SessionStatus.PROPOSED))
+            .toThrow("Invalid session transition for topic: settled -> proposed")
+        expect(session.status).toEqual(SessionStatus.SETTLED)
+    })
+
+    it("emit one event per state change", async () => {
+        const bus = new InMemoryRelayBus()
+        const dapp = createPeer(bus, false)
+        const wallet = createPeer(bus, true)
+        await dapp.pairingManager.initialize()
+        await dapp.sessionManager.init(dapp.relay)
+        await wallet.pairingManager.initialize()
+        await wallet.sessionManager.init(wallet.relay)
+
+        const pairingEvents: string[] = []
+        for (const event of Object.values(PairingEvent)) {
+            dapp.pairingManager.on(event, () => pairingEvents.push(event))
+        }
+        const pairingDeleted = once(wallet.pairingManager, PairingEvent.DELETED)
+
+        try {
+            const result = await dapp.pairingManager.create({ relay: dapp.relay.getProtocol() })
+            await wallet.pairingManager.activate({ uri: result.uri, appMetadata: metadata })
+            const pairing = await result.approval()
+            expect(pairing.history!.map(item => item.to)).toStrictEqual([PairingStatus.PENDING, PairingStatus.ACTIVE])
+
+            const proposed = once<any>(wallet.sessionManager, SessionEvent.PROPOSAL)
+            await dapp.sessionManager.propose({ pairingTopic: pairing.topic, requiredNamespaces: namespaces })
+            const proposal = await proposed
+            const settled = once<SessionData>(dapp.sessionManager, SessionEvent.SETTLED)
+            const walletSettled = once<SessionData>(wallet.sessionManager, SessionEvent.SETTLED)
+            await wallet.sessionManager.approve({ proposalId: proposal.proposalId, namespaces })
+            const session = await settled
+            await walletSettled
+
+            const deleted = once<{ topic: string, session: SessionData }>(wallet.sessionManager, SessionEvent.DELETED)
+            await dapp.sessionManager.disconnect({ topic: session.topic, reason: { code: 6000, message: "User disconnected" } })
+            const removed = await deleted
+            expect(removed.topic).toEqual(session.topic)
+            expect(removed.session.history!.map(item => item.to)).toStrictEqual([SessionStatus.SETTLED, SessionStatus.DISCONNECTED])
+
+            await dapp.pairingManager.delete(pairing.topic, "User disconnected")
+            expect(pairingEvents).toStrictEqual([PairingEvent.CREATED, PairingEvent.APPROVED, PairingEvent.DELETED])
+        } finally {
+            await dapp.sessionManager.destroy()
+            await dapp.pairingManager.destroy()
+            await pairingDeleted
+            await wallet.sessionManager.destroy()
+            await wallet.pairingManager.destroy()
+        }
+    })
+})
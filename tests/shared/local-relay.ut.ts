@@ -0,0 +1,115 @@
+import { BroadcastChannel } from "worker_threads"
+import { BroadcastChannelRelay } from "../../src/shared/relay/broadcast"
+import { PostMessageEvent, PostMessageRelay, PostMessageTarget } from "../../src/shared/relay/postmessage"
+import { InMemoryRelay } from "../../src/shared/relay/memory"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { PairingManager } from "../../src/shared/core/PairingManager"
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { PairingStore } from "../../src/shared/store/PairingStore"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { IRelay, RelayMessage } from "../../src/shared/types/relay"
+
+const metadata = { name: "test", description: "test", url: "https://example.com", icons: [] }
+
+function createPairingManager(relay: IRelay) {
+    const storage = new MemoryStorage()
+    return new PairingManager(relay, metadata, new CryptoManager(new KeyChain({ storage })), new PairingStore(storage))
+}
+
+// 模拟浏览器窗口：postMessage 把消息派发给窗口自身的 message 监听器，source 为对端窗口
+class FakeWindow implements PostMessageTarget {
+    peer?: FakeWindow
+    private listeners: ((event: PostMessageEvent) => void)[] = []
+
+    constructor(public origin: string) {}
+
+    postMessage(message: any, targetOrigin: string): void {
+        if (targetOrigin === this.origin) {
+            this.dispatch(message, this.peer!.origin, this.peer!)
+        }
+    }
+
+    dispatch(data: any, origin: string, source: FakeWindow): void {
+        const event: PostMessageEvent = { data, origin, source }
+        setTimeout(() => this.listeners.forEach(listener => listener(event)), 0)
+    }
+
+    addEventListener(_type: "message", listener: (event: PostMessageEvent) => void): void {
+        this.listeners.push(listener)
+    }
+
+    removeEventListener(_type: "message", listener: (event: PostMessageEvent) => void): void {
+        this.listeners = this.listeners.filter(l => l !== listener)
+    }
+}
+
+describe("Local relay", () => {
+    it("pairs over BroadcastChannel", async () => {
+        const dappRelay = new BroadcastChannelRelay({ channelName: "test" }, BroadcastChannel)
+        const walletRelay = new BroadcastChannelRelay({ channelName: "test" }, BroadcastChannel)
+        const dapp = createPairingManager(dappRelay)
+        const wallet = createPairingManager(walletRelay)
+        await dapp.initialize()
+        await wallet.initialize()
+
+        try {
+            const result = await dapp.create({ relay: dappRelay.getProtocol() })
+            expect(result.uri).toContain("relay-protocol=broadcastchannel")
+            await wallet.activate({ uri: result.uri, appMetadata: metadata })
+            const pairing = await result.approval()
+            expect(pairing.peer.publicKey).not.toEqual("")
+        } finally {
+            await dapp.destroy()
+            await wallet.destroy()
+            await dappRelay.stop()
+            await walletRelay.stop()
+        }
+    })
+
+    it("rejects a local pairing URI on a different relay", async () => {
+        const dappRelay = new BroadcastChannelRelay({ channelName: "test" }, BroadcastChannel)
+        const walletRelay = new InMemoryRelay()
+        const dapp = createPairingManager(dappRelay)
+        const wallet = createPairingManager(walletRelay)
+        await dapp.initialize()
+        await wallet.initialize()
+
+        try {
+            const result = await dapp.create({ relay: dappRelay.getProtocol() })
+            result.approval().catch(() => undefined)
+            await expect(wallet.activate({ uri: result.uri, appMetadata: metadata })).rejects.toThrow("Relay protocol mismatch")
+        } finally {
+            await dapp.destroy()
+            await wallet.destroy()
+            await dappRelay.stop()
+            await walletRelay.stop()
+        }
+    })
+
+    it("checks postMessage origins", async () => {
+        const dappWindow = new FakeWindow("https://dapp.example")
+        const walletWindow = new FakeWindow("https://wallet.example")
+        dappWindow.peer = walletWindow
+        walletWindow.peer = dappWindow
+
+        expect(() => new PostMessageRelay({ target: walletWindow, targetOrigin: "*", source: dappWindow })).toThrow("explicit targetOrigin")
+
+        const dappRelay = new PostMessageRelay({ target: walletWindow, targetOrigin: walletWindow.origin, source: dappWindow })
+        const walletRelay = new PostMessageRelay({ target: dappWindow, targetOrigin: dappWindow.origin, source: walletWindow })
+        await dappRelay.start()
+        await walletRelay.start()
+
+        const received: RelayMessage[] = []
+        await dappRelay.subscribe("topic", message => received.push(message))
+
+        // 来自未授权 origin 的消息被丢弃
+        const frame = { channel: "yeying-relay", message: { topic: "topic", payload: "evil", publishedAt: Date.now() } }
+        dappWindow.dispatch(frame, "https://evil.example", new FakeWindow("https://evil.example"))
+        await walletRelay.publish("topic", "payload")
+        await new Promise(resolve => setTimeout(resolve, 10))
+
+        expect(received.map(message => message.payload)).toStrictEqual(["payload"])
+        await dappRelay.stop()
+        await walletRelay.stop()
+    })
+})
@@ -0,0 +1,83 @@
+import { MethodRegistry } from "../../src/shared/utils/method-registry"
+import { SessionData, SessionError, SessionErrorCode, SessionRequest, SessionStatus } from "../../src/shared/types/session"
+
+const session = {
+    topic: "topic",
+    namespaces: {
+        eip155: {
+            chains: ["eip155:1"],
+            methods: ["eth_chainId", "personal_sign"],
+            events: []
+        }
+    },
+    status: SessionStatus.SETTLED
+} as unknown as SessionData
+
+function request(method: string, params: any = [], chainId = "eip155:1"): SessionRequest {
+    return { id: 1, topic: "topic", method, params, chainId }
+}
+
+describe("MethodRegistry", () => {
+    it("dispatch to handlers with validation and confirmation", async () => {
+        const confirmed: string[] = []
+        let approve = true
+        const registry = new MethodRegistry({
+            confirm: context => {
+                confirmed.push(context.request.method)
+                return approve
+            }
+        })
+        registry.register("eip155", "eth_chainId", (params, context) => context.chainId)
+        registry.register("eip155", "personal_sign", params => `signed:${params[0]}`, {
+            validate: params => Array.isArray(params) && typeof params[0] === "string",
+            confirm: true
+        })
+        expect(registry.getMethods()).toStrictEqual({ eip155: ["eth_chainId", "personal_sign"] })
+
+        expect(await registry.dispatch(request("eth_chainId"), session)).toStrictEqual({ result: "eip155:1" })
+        expect(await registry.dispatch(request("personal_sign", ["0x1"]), session)).toStrictEqual({ result: "signed:0x1" })
+        expect((await registry.dispatch(request("personal_sign", [1]), session))!.error!.code)
+            .toEqual(SessionErrorCode.INVALID_PARAMS)
+
+        approve = false
+        expect((await registry.dispatch(request("personal_sign", ["0x1"]), session))!.error!.code)
+            .toEqual(SessionErrorCode.USER_REJECTED)
+        expect(confirmed).toStrictEqual(["personal_sign", "personal_sign"])
+
+        // 未授权的链
+        expect((await registry.dispatch(request("eth_chainId", [], "eip155:137"), session))!.error!.code)
+            .toEqual(SessionErrorCode.UNSUPPORTED_CHAINS)
+    })
+
+    it("turn thrown errors into error responses and handle unknown methods", async () => {
+        const registry = new MethodRegistry()
+        registry.register("eip155", "eth_chainId", () => {
+            throw new SessionError(SessionErrorCode.UNAUTHORIZED, "Locked", { locked: true })
+        })
+        registry.register("eip155", "personal_sign", () => {
+            throw new Error("Boom")
+        })
+
+        expect(await registry.dispatch(request("eth_chainId"), session)).toStrictEqual({
+            error: { code: SessionErrorCode.UNAUTHORIZED, message: "Locked", data: { locked: true } }
+        })
+        expect(await registry.dispatch(request("personal_sign"), session)).toStrictEqual({
+            error: { code: SessionErrorCode.UNKNOWN_ERROR, message: "Boom" }
+        })
+
+        // 默认交给应用处理
+        expect(await registry.dispatch(request("eth_accounts"), session)).toBeUndefined()
+
+        const strict = new MethodRegistry({ rejectUnknown: true })
+        expect((await strict.dispatch(request("eth_accounts"), session))!.error!.code)
+            .toEqual(SessionErrorCode.UNSUPPORTED_METHODS)
+
+        const fallback = new MethodRegistry({ onUnknownMethod: (params, context) => context.request.method })
+        expect(await fallback.dispatch(request("personal_sign"), session)).toStrictEqual({ result: "personal_sign" })
+        // 兜底处理不绕过 Session 授权
+        expect((await fallback.dispatch(request("eth_accounts"), session))!.error!.code)
+            .toEqual(SessionErrorCode.UNSUPPORTED_METHODS)
+        expect((await fallback.dispatch(request("personal_sign", [], "eip155:137"), session))!.error!.code)
+            .toEqual(SessionErrorCode.UNSUPPORTED_CHAINS)
+    })
+})
@@ -0,0 +1,173 @@
+import { EventEmitter } from "events"
+import { BroadcastChannel } from "worker_threads"
+import { InMemoryRelay, InMemoryRelayBus } from "../../src/shared/relay/memory"
+import { BroadcastChannelRelay } from "../../src/shared/relay/broadcast"
+import { MultiRelay } from "../../src/shared/relay/multi"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { PairingManager } from "../../src/shared/core/PairingManager"
+import { SessionManager } from "../../src/shared/core/SessionManager"
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { PairingStore } from "../../src/shared/store/PairingStore"
+import { SessionStore } from "../../src/shared/store/SessionStore"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { RelayEvent, SessionEvent } from "../../src/shared/types/common"
+import { IRelay, MessageCallback, RelayConnectionState, RelayMessage } from "../../src/shared/types/relay"
+import { SessionData, SessionProposal, SessionRequest } from "../../src/shared/types/session"
+
+const metadata = { name: "test", description: "test", url: "https://example.com", icons: [] }
+const namespaces = {
+    eip155: {
+        chains: ["eip155:1"],
+        methods: ["eth_chainId"],
+        events: ["chainChanged"]
+    }
+}
+
+function createPeer(bus: InMemoryRelayBus, isWallet: boolean) {
+    const storage = new MemoryStorage()
+    const memory = new InMemoryRelay(bus)
+    const broadcast = new BroadcastChannelRelay({ channelName: "multi-test" }, BroadcastChannel)
+    const relay = new MultiRelay([memory, broadcast])
+    const cryptoManager = new CryptoManager(new KeyChain({ storage }))
+    const pairingManager = new PairingManager(relay, metadata, cryptoManager, new PairingStore(storage))
+    const sessionManager = new SessionManager(metadata, cryptoManager, new SessionStore(storage))
+    sessionManager.setPairingManager(pairingManager, isWallet)
+    return { memory, relay, pairingManager, sessionManager }
+}
+
+// 可手动断开和恢复的 relay，断开时订阅失败
+class SwitchableRelay extends EventEmitter implements IRelay {
+    private connected = true
+
+    constructor(private inner: InMemoryRelay) {
+        super()
+    }
+
+    async init() {}
+    async start() { await this.inner.start() }
+    async stop() { await this.inner.stop() }
+    async publish(topic: string, payload: string) { await this.inner.publish(topic, payload) }
+    async unsubscribe(topic: string) { await this.inner.unsubscribe(topic) }
+    isConnected() { return this.connected && this.inner.isConnected() }
+    getProtocol() { return { protocol: "switchable" } }
+
+    async subscribe(topic: string, callback: MessageCallback) {
+        if (!this.connected) {
+            throw new Error("Relay is down")
+        }
+        await this.inner.subscribe(topic, callback)
+    }
+
+    setConnected(connected: boolean) {
+        const previous = this.connected ? RelayConnectionState.CONNECTED : RelayConnectionState.DISCONNECTED
+        this.connected = connected
+        const state = connected ? RelayConnectionState.CONNECTED : RelayConnectionState.DISCONNECTED
+        this.emit(RelayEvent.STATE_CHANGED, { state, previous })
+    }
+}
+
+function once<T>(emitter: { once(event: string, callback: (data: T) => void): void }, event: string): Promise<T> {
+    return new Promise(resolve => emitter.once(event, resolve))
+}
+
+describe("MultiRelay", () => {
+    it("falls back to the next relay and merges duplicates", async () => {
+        const primaryBus = new InMemoryRelayBus()
+        const backupBus = new InMemoryRelayBus()
+        const primary = new InMemoryRelay(primaryBus)
+        const sender = new MultiRelay([primary, new InMemoryRelay(backupBus)])
+        const receiver = new MultiRelay([new InMemoryRelay(primaryBus), new InMemoryRelay(backupBus)])
+        await sender.start()
+        await receiver.start()
+
+        const received: RelayMessage[] = []
+        await receiver.subscribe("topic", message => received.push(message))
+
+        // 同一条消息从两个 relay 到达，只投递一次
+        primaryBus.publish({ topic: "topic", payload: "same", publishedAt: 1 })
+        backupBus.publish({ topic: "topic", payload: "same", publishedAt: 2 })
+
+        // 主 relay 故障时切换到备用 relay
+        await primary.stop()
+        await sender.publish("topic", "fallback")
+        await new Promise(resolve => setTimeout(resolve, 10))
+
+        expect(received.map(message => message.payload)).toStrictEqual(["same", "fallback"])
+        await sender.stop()
+        await receiver.stop()
+        await expect(sender.publish("topic", "payload")).rejects.toThrow("Failed to publish message on all relays")
+    })
+
+    it("resubscribes on a relay that was down when it reconnects", async () => {
+        const primaryBus = new InMemoryRelayBus()
+        const backupBus = new InMemoryRelayBus()
+        const backup = new SwitchableRelay(new InMemoryRelay(backupBus))
+        const receiver = new MultiRelay([new InMemoryRelay(primaryBus), backup])
+        const sender = new InMemoryRelay(backupBus)
+        await receiver.start()
+        await sender.start()
+
+        // 订阅时备用 relay 不可用
+        backup.setConnected(false)
+        const received: string[] = []
+        await receiver.subscribe("topic", message => received.push(message.payload))
+        await sender.publish("topic", "lost")
+
+        backup.setConnected(true)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        await sender.publish("topic", "recovered")
+        await new Promise(resolve => setTimeout(resolve, 10))
+
+        expect(received).toStrictEqual(["recovered"])
+        await receiver.stop()
+        await sender.stop()
+    })
+
+    it("negotiates relays and keeps a session alive when one relay fails", async () => {
+        const bus = new InMemoryRelayBus()
+        const dapp = createPeer(bus, false)
+        const wallet = createPeer(bus, true)
+        await dapp.pairingManager.initialize()
+        await dapp.sessionManager.init(dapp.relay)
+        await wallet.pairingManager.initialize()
+        await wallet.sessionManager.init(wallet.relay)
+
+        try {
+            const result = await dapp.pairingManager.create({ relay: dapp.relay.getProtocol() })
+            await wallet.pairingManager.activate({ uri: result.uri, appMetadata: metadata })
+            const pairing = await result.approval()
+
+            const proposed = once<SessionProposal>(wallet.sessionManager, SessionEvent.PROPOSAL)
+            await dapp.sessionManager.propose({ pairingTopic: pairing.topic, requiredNamespaces: namespaces })
+            const proposal = await proposed
+            expect(proposal.relays!.map(relay => relay.protocol)).toStrictEqual(["memory", "broadcastchannel"])
+
+            const settled = once<SessionData>(dapp.sessionManager, SessionEvent.SETTLED)
+            await wallet.sessionManager.approve({ proposalId: proposal.proposalId, namespaces })
+            const session = await settled
+            expect(session.relays!.map(relay => relay.protocol)).toStrictEqual(["memory", "broadcastchannel"])
+
+            // 双方的主 relay 都故障，Session 通过备用 relay 继续工作
+            await dapp.memory.stop()
+            await wallet.memory.stop()
+
+            wallet.sessionManager.on(SessionEvent.REQUEST, (request: SessionRequest) => {
+                wallet.sessionManager.respond({ id: request.id, topic: request.topic, result: "0x1" })
+            })
+            const chainId = await dapp.sessionManager.request({
+                topic: session.topic,
+                chainId: "eip155:1",
+                method: "eth_chainId",
+                params: []
+            })
+            expect(chainId).toEqual("0x1")
+        } finally {
+            await dapp.sessionManager.destroy()
+            await dapp.pairingManager.destroy()
+            await wallet.sessionManager.destroy()
+            await wallet.pairingManager.destroy()
+            await dapp.relay.stop()
+            await wallet.relay.stop()
+        }
+    })
+})
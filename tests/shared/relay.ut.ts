@@ -0,0 +1,23 @@
+import { InMemoryRelay, InMemoryRelayBus } from "../../src/shared/relay/memory"
+import { RelayMessage } from "../../src/shared/types/relay"
+
+describe("InMemoryRelay", () => {
+    it("publish and subscribe", async () => {
+        const bus = new InMemoryRelayBus()
+        const publisher = new InMemoryRelay(bus)
+        const subscriber = new InMemoryRelay(bus)
+        await publisher.start()
+        await subscriber.start()
+
+        const received = new Promise<RelayMessage>(resolve => subscriber.subscribe("topic", resolve))
+        await publisher.publish("topic", "payload")
+        const message = await received
+        expect(message.topic).toEqual("topic")
+        expect(message.payload).toEqual("payload")
+
+        await subscriber.unsubscribe("topic")
+        expect(subscriber.getSubscribedTopics()).toStrictEqual([])
+        await publisher.stop()
+        await expect(publisher.publish("topic", "payload")).rejects.toThrow("Relay not started")
+    })
+})
@@ -0,0 +1,180 @@
+import { InMemoryRelay, InMemoryRelayBus } from "../../src/shared/relay/memory"
+import { ReliableRelay } from "../../src/shared/relay/reliable"
+import { RelayEvent } from "../../src/shared/types/common"
+import { DeliveryReport, DeliveryStatus, RelayMessage } from "../../src/shared/types/relay"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { isEncryptedData } from "../../src/shared/utils/envelope"
+
+// 可以模拟断线的 relay
+class FlakyRelay extends InMemoryRelay {
+    online = true
+
+    isConnected(): boolean {
+        return this.online && super.isConnected()
+    }
+}
+
+function collect(relay: ReliableRelay): DeliveryStatus[] {
+    const statuses: DeliveryStatus[] = []
+    relay.on(RelayEvent.DELIVERY_STATUS, (report: DeliveryReport) => statuses.push(report.status))
+    return statuses
+}
+
+function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+    const start = Date.now()
+    return new Promise((resolve, reject) => {
+        const check = () => {
+            if (condition()) {
+                resolve()
+            } else if (Date.now() - start > timeout) {
+                reject(new Error("Timed out"))
+            } else {
+                setTimeout(check, 5)
+            }
+        }
+        check()
+    })
+}
+
+describe("ReliableRelay", () => {
+    it("acknowledges delivered messages", async () => {
+        const bus = new InMemoryRelayBus()
+        const sender = new ReliableRelay(new InMemoryRelay(bus), { ackTimeout: 50 })
+        const receiver = new ReliableRelay(new InMemoryRelay(bus), { ackTimeout: 50 })
+        await sender.start()
+        await receiver.start()
+        const statuses = collect(sender)
+
+        const received: RelayMessage[] = []
+        await sender.subscribe("topic", message => received.push(message))
+        await receiver.subscribe("topic", message => received.push(message))
+        await sender.publish("topic", "payload")
+
+        await waitFor(() => statuses.includes(DeliveryStatus.DELIVERED))
+        expect(statuses).toStrictEqual([DeliveryStatus.SENT, DeliveryStatus.DELIVERED])
+        expect(received.map(message => message.payload)).toStrictEqual(["payload"])
+        expect(sender.getPendingCount()).toEqual(0)
+
+        await sender.stop()
+        await receiver.stop()
+    })
+
+    it("retries until acknowledged and drops duplicates", async () => {
+        const bus = new InMemoryRelayBus()
+        const sender = new ReliableRelay(new InMemoryRelay(bus), { ackTimeout: 20, maxRetries: 3 })
+        const receiverRelay = new InMemoryRelay(bus)
+        await sender.start()
+        await receiverRelay.start()
+        const statuses = collect(sender)
+        await sender.subscribe("topic", () => undefined)
+
+        // 接收方第一次不回复 ack，然后再启用可靠传输
+        const frames: string[] = []
+        await receiverRelay.subscribe("topic", message => frames.push(message.payload))
+        await sender.publish("topic", "payload")
+        await waitFor(() => statuses.includes(DeliveryStatus.RETRYING))
+        await receiverRelay.stop()
+
+        const receiver = new ReliableRelay(new InMemoryRelay(bus))
+        await receiver.start()
+        const received: string[] = []
+        await receiver.subscribe("topic", message => received.push(message.payload))
+
+        // 重放第一次收到的帧，应被去重
+        await waitFor(() => statuses.includes(DeliveryStatus.DELIVERED))
+        const replay = new InMemoryRelay(bus)
+        await replay.start()
+        await replay.publish("topic", frames[0])
+        await new Promise(resolve => setTimeout(resolve, 20))
+
+        expect(received).toStrictEqual(["payload"])
+
+        await sender.stop()
+        await receiver.stop()
+        await replay.stop()
+    })
+
+    it("fails after the retry limit", async () => {
+        const sender = new ReliableRelay(new InMemoryRelay(new InMemoryRelayBus()), { ackTimeout: 5, maxRetries: 2 })
+        await sender.start()
+        const statuses = collect(sender)
+
+        await sender.publish("topic", "payload")
+        await waitFor(() => statuses.includes(DeliveryStatus.FAILED))
+        expect(statuses.filter(status => status === DeliveryStatus.SENT).length).toEqual(3)
+        await sender.stop()
+    })
+
+    it("queues messages while offline and flushes on reconnect", async () => {
+        const bus = new InMemoryRelayBus()
+        const inner = new FlakyRelay(bus)
+        const sender = new ReliableRelay(inner, { ackTimeout: 50, flushInterval: 10 })
+        const receiver = new ReliableRelay(new InMemoryRelay(bus))
+        await sender.start()
+        await receiver.start()
+        const statuses = collect(sender)
+
+        const received: string[] = []
+        await receiver.subscribe("topic", message => received.push(message.payload))
+        await sender.subscribe("topic", () => undefined)
+
+        inner.online = false
+        await sender.publish("topic", "offline")
+        expect(statuses).toStrictEqual([DeliveryStatus.QUEUED])
+        expect(sender.getOutboxSize()).toEqual(1)
+
+        inner.online = true
+        await waitFor(() => statuses.includes(DeliveryStatus.DELIVERED))
+        expect(received).toStrictEqual(["offline"])
+        expect(sender.getOutboxSize()).toEqual(0)
+
+        await sender.stop()
+        await receiver.stop()
+    })
+
+    it("encrypts frames and ignores forged acks", async () => {
+        const bus = new InMemoryRelayBus()
+        const symKey = await new CryptoManager().generateSymmetricKey()
+        const createCryptoManager = async () => {
+            const cryptoManager = new CryptoManager(new KeyChain({ storage: new MemoryStorage() }))
+            await cryptoManager.setSymKey("topic", symKey)
+            return cryptoManager
+        }
+        const sender = new ReliableRelay(new InMemoryRelay(bus), { ackTimeout: 50 }, await createCryptoManager())
+        const attacker = new InMemoryRelay(bus)
+        await sender.start()
+        await attacker.start()
+        const reports: DeliveryReport[] = []
+        sender.on(RelayEvent.DELIVERY_STATUS, (report: DeliveryReport) => reports.push(report))
+        await sender.subscribe("topic", () => undefined)
+
+        // 线上的帧不暴露 ID 和发送方
+        const frames: string[] = []
+        await attacker.subscribe("topic", message => frames.push(message.payload))
+        await sender.publish("topic", "payload")
+        await waitFor(() => frames.length > 0)
+        const wire = JSON.parse(frames[0])
+        expect(isEncryptedData(wire)).toBeTruthy()
+        expect(wire.from).toBeUndefined()
+
+        // 伪造的明文 ack 不会确认消息
+        const id = reports[0].id
+        await attacker.publish("topic", JSON.stringify({ type: "ack", id, from: "attacker" }))
+        await new Promise(resolve => setTimeout(resolve, 20))
+        expect(reports.map(report => report.status)).not.toContain(DeliveryStatus.DELIVERED)
+        expect(sender.getPendingCount()).toEqual(1)
+
+        const receiver = new ReliableRelay(new InMemoryRelay(bus), {}, await createCryptoManager())
+        await receiver.start()
+        const received: string[] = []
+        await receiver.subscribe("topic", message => received.push(message.payload))
+        await waitFor(() => reports.some(report => report.status === DeliveryStatus.DELIVERED))
+        expect(received).toStrictEqual(["payload"])
+
+        await sender.stop()
+        await receiver.stop()
+        await attacker.stop()
+    })
+})
@@ -0,0 +1,351 @@
+import { InMemoryRelay, InMemoryRelayBus } from "../../src/shared/relay/memory"
+import { CryptoManager } from "../../src/shared/core/CryptoManager"
+import { PairingManager } from "../../src/shared/core/PairingManager"
+import { SessionManager } from "../../src/shared/core/SessionManager"
+import { KeyChain } from "../../src/shared/store/KeyChain"
+import { PairingStore } from "../../src/shared/store/PairingStore"
+import { SessionStore } from "../../src/shared/store/SessionStore"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { openMessage, sealMessage } from "../../src/shared/utils/envelope"
+import { formatJsonRpcRequest } from "../../src/shared/utils/jsonrpc"
+import { PairingEvent, PeerLivenessEvent, SessionEvent } from "../../src/shared/types/common"
+import { MessageCallback } from "../../src/shared/types/relay"
+import {
+    RequestCancelled,
+    SessionChangeRejected,
+    SessionData,
+    SessionErrorCode,
+    SessionEventData,
+    SessionManagerOptions,
+    SessionMethod,
+    SessionProposal,
+    SessionRequest
+} from "../../src/shared/types/session"
+
+const metadata = { name: "test", description: "test", url: "https://example.com", icons: [] }
+const namespaces = {
+    eip155: {
+        chains: ["eip155:1"],
+        methods: ["eth_chainId"],
+        events: ["chainChanged"]
+    }
+}
+
+// 可以模拟离线的 relay，离线时丢弃收到的消息
+class OfflineRelay extends InMemoryRelay {
+    online = true
+
+    async subscribe(topic: string, callback: MessageCallback): Promise<void> {
+        await super.subscribe(topic, message => {
+            if (this.online) {
+                callback(message)
+            }
+        })
+    }
+}
+
+interface Peer {
+    relay: InMemoryRelay
+    cryptoManager: CryptoManager
+    pairingManager: PairingManager
+    sessionManager: SessionManager
+}
+
+function once<T>(emitter: { once(event: string, callback: (data: T) => void): void }, event: string): Promise<T> {
+    return new Promise(resolve => emitter.once(event, resolve))
+}
+
+describe("SessionManager", () => {
+    let bus: InMemoryRelayBus
+    let peers: Peer[]
+
+    async function createPeer(isWallet: boolean, options?: SessionManagerOptions, relay = new InMemoryRelay(bus)) {
+        const storage = new MemoryStorage()
+        const cryptoManager = new CryptoManager(new KeyChain({ storage }))
+        const pairingManager = new PairingManager(relay, metadata, cryptoManager, new PairingStore(storage))
+        const sessionManager = new SessionManager(metadata, cryptoManager, new SessionStore(storage), options)
+        sessionManager.setPairingManager(pairingManager, isWallet)
+        await pairingManager.initialize()
+        await sessionManager.init(relay)
+
+        const peer = { relay, cryptoManager, pairingManager, sessionManager }
+        peers.push(peer)
+        return peer
+    }
+
+    async function destroyPeer(peer: Peer) {
+        peers = peers.filter(other => other !== peer)
+        await peer.sessionManager.destroy()
+        await peer.pairingManager.destroy()
+    }
+
+    // Dapp 发起配对，Wallet 激活
+    async function pair(dapp: Peer, wallet: Peer) {
+        const result = await dapp.pairingManager.create({ relay: dapp.relay.getProtocol() })
+        await wallet.pairingManager.activate({ uri: result.uri, appMetadata: metadata })
+        return result.approval()
+    }
+
+    // Dapp 提议 Session，返回 Wallet 收到的提案
+    async function propose(dapp: Peer, wallet: Peer, pairingTopic: string) {
+        const proposed = once<SessionProposal>(wallet.sessionManager, SessionEvent.PROPOSAL)
+        await dapp.sessionManager.propose({ pairingTopic, requiredNamespaces: namespaces })
+        return proposed
+    }
+
+    async function settleSession(walletRelay?: InMemoryRelay) {
+        const dapp = await createPeer(false)
+        const wallet = await createPeer(true, undefined, walletRelay)
+        const pairing = await pair(dapp, wallet)
+        const proposal = await propose(dapp, wallet, pairing.topic)
+        const settled = once<SessionData>(dapp.sessionManager, SessionEvent.SETTLED)
+        const session = await wallet.sessionManager.approve({ proposalId: proposal.proposalId, namespaces })
+        await settled
+        return { dapp, wallet, session }
+    }
+
+    beforeEach(() => {
+        bus = new InMemoryRelayBus()
+        peers = []
+    })
+
+    afterEach(async () => {
+        for (const peer of [...peers]) {
+            await destroyPeer(peer)
+        }
+    })
+
+    it("pair, settle a session and exchange requests in one process", async () => {
+        const dapp = await createPeer(false)
+        const wallet = await createPeer(true)
+        const pairing = await pair(dapp, wallet)
+        const proposal = await propose(dapp, wallet, pairing.topic)
+
+        const settled = once<SessionData>(dapp.sessionManager, SessionEvent.SETTLED)
+        const walletSession = await wallet.sessionManager.approve({ proposalId: proposal.proposalId, namespaces })
+        const dappSession = await settled
+        expect(dappSession.topic).toEqual(walletSession.topic)
+        expect((await dapp.sessionManager.waitForApproval(proposal.proposalId)).topic).toEqual(walletSession.topic)
+        expect(walletSession.acknowledged).toBe(false)
+
+        // 请求和响应
+        wallet.sessionManager.on(SessionEvent.REQUEST, (request: SessionRequest) => {
+            wallet.sessionManager.respond({ id: request.id, topic: request.topic, result: "0x1" })
+        })
+        const chainId = await dapp.sessionManager.request({
+            topic: dappSession.topic,
+            chainId: "eip155:1",
+            method: "eth_chainId",
+            params: []
+        })
+        expect(chainId).toEqual("0x1")
+        expect(wallet.sessionManager.get(walletSession.topic)!.acknowledged).toBe(true)
+        expect(dapp.sessionManager.get(dappSession.topic)!.acknowledged).toBe(true)
+    })
+
+    it("reject the proposal approval when the wallet rejects or the dapp cancels", async () => {
+        const { dapp, wallet, session } = await settleSession()
+
+        const proposed = once<SessionProposal>(wallet.sessionManager, SessionEvent.PROPOSAL)
+        const rejected = await dapp.sessionManager.propose({ pairingTopic: session.pairingTopic, requiredNamespaces: namespaces })
+        await proposed
+        await wallet.sessionManager.reject({ proposalId: rejected.proposalId, reason: { code: 5000, message: "User rejected" } })
+        await expect(dapp.sessionManager.waitForApproval(rejected.proposalId))
+            .rejects.toMatchObject({ code: SessionErrorCode.USER_REJECTED, message: "User rejected" })
+
+        const cancelled = await dapp.sessionManager.propose({ pairingTopic: session.pairingTopic, requiredNamespaces: namespaces })
+        const approval = dapp.sessionManager.waitForApproval(cancelled.proposalId)
+        await dapp.sessionManager.cancelProposal(cancelled.proposalId)
+        await expect(approval).rejects.toMatchObject({ code: SessionErrorCode.USER_CANCELLED })
+    })
+
+    it("deliver approved session events and reject unapproved ones", async () => {
+        const { dapp, wallet, session } = await settleSession()
+
+        const received = once<SessionEventData>(dapp.sessionManager, SessionEvent.EVENT_RECEIVED)
+        const event = { topic: session.topic, event: { name: "chainChanged", data: "eip155:1" }, chainId: "eip155:1" }
+        await wallet.sessionManager.emitEvent(event)
+        expect(await received).toStrictEqual(event)
+
+        await expect(wallet.sessionManager.emitEvent({ ...event, event: { name: "accountsChanged", data: [] } }))
+            .rejects.toMatchObject({ code: SessionErrorCode.UNSUPPORTED_EVENTS })
+        await expect(wallet.sessionManager.emitEvent({ ...event, chainId: "eip155:137" }))
+            .rejects.toMatchObject({ code: SessionErrorCode.UNSUPPORTED_CHAINS })
+    })
+
+    it("accept session update and extend only from the controller", async () => {
+        const { dapp, wallet, session } = await settleSession()
+
+        // Dapp 不是 controller
+        await expect(dapp.sessionManager.extend({ topic: session.topic, expiry: session.expiry + 60 }))
+            .rejects.toMatchObject({ code: SessionErrorCode.UNAUTHORIZED })
+
+        // 不能授予未请求的方法
+        const escalated = { eip155: { ...namespaces.eip155, methods: ["eth_chainId", "eth_sendTransaction"] } }
+        await expect(wallet.sessionManager.update({ topic: session.topic, namespaces: escalated }))
+            .rejects.toMatchObject({ code: SessionErrorCode.UNSUPPORTED_METHODS })
+
+        // 延长时间被截断到协议上限
+        const extended = once<SessionData>(dapp.sessionManager, SessionEvent.EXTENDED)
+        await wallet.sessionManager.extend({ topic: session.topic, expiry: session.expiry + 30 * 24 * 60 * 60 })
+        const maxExpiry = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60
+        expect((await extended).expiry).toBeLessThanOrEqual(maxExpiry)
+        expect(wallet.sessionManager.get(session.topic)!.expiry).toEqual(dapp.sessionManager.get(session.topic)!.expiry)
+
+        // Dapp 用 Session 密钥伪造的更新被 Wallet 拒绝
+        const rejected = once<SessionChangeRejected>(wallet.sessionManager, SessionEvent.CHANGE_REJECTED)
+        const sessionKey = (await dapp.cryptoManager.getSymKey(session.topic))!
+        const forged = formatJsonRpcRequest(SessionMethod.UPDATE, { namespaces: escalated })
+        await dapp.relay.publish(session.topic, await sealMessage(dapp.cryptoManager, sessionKey, forged))
+        expect(await rejected).toMatchObject({
+            topic: session.topic,
+            method: SessionMethod.UPDATE,
+            reason: { code: SessionErrorCode.UNAUTHORIZED }
+        })
+        expect(wallet.sessionManager.get(session.topic)!.namespaces).toStrictEqual(namespaces)
+    })
+
+    it("answer malformed requests with an error and drop malformed responses", async () => {
+        const { dapp, wallet, session } = await settleSession()
+        const sessionKey = (await dapp.cryptoManager.getSymKey(session.topic))!
+        // 等待 settle 确认等消息发完
+        await new Promise(resolve => setTimeout(resolve, 20))
+        const published = jest.spyOn(wallet.relay, "publish")
+
+        // 同时带 result 和 error 的响应直接丢弃，不回复错误
+        const response = { jsonrpc: "2.0", id: 1, result: true, error: { code: -32000, message: "x" } }
+        await dapp.relay.publish(session.topic, await sealMessage(dapp.cryptoManager, sessionKey, response))
+
+        // 带 id 的格式错误请求回复错误响应
+        const request = { jsonrpc: "2.0", id: 2, method: SessionMethod.PING, params: "bad" }
+        await dapp.relay.publish(session.topic, await sealMessage(dapp.cryptoManager, sessionKey, request))
+        while (published.mock.calls.length === 0) {
+            await new Promise(resolve => setTimeout(resolve, 5))
+        }
+        await new Promise(resolve => setTimeout(resolve, 50))
+
+        const replies = await Promise.all(published.mock.calls.map(([, payload]) => openMessage(wallet.cryptoManager, sessionKey, payload)))
+        expect(replies).toMatchObject([{ id: 2, error: { code: -32602 } }])
+    })
+
+    it("roll back a session the dapp never acknowledges", async () => {
+        const dapp = await createPeer(false)
+        const wallet = await createPeer(true, { settleAckTimeout: 50 })
+        const pairing = await pair(dapp, wallet)
+        const proposal = await propose(dapp, wallet, pairing.topic)
+
+        // Dapp 收不到 settle
+        dapp.pairingManager.removeAllListeners(SessionEvent.SETTLED)
+        const deleted = once<{ topic: string, reason: { code: number } }>(wallet.sessionManager, SessionEvent.DELETED)
+        const session = await wallet.sessionManager.approve({ proposalId: proposal.proposalId, namespaces })
+
+        expect(await deleted).toMatchObject({
+            topic: session.topic,
+            reason: { code: SessionErrorCode.SESSION_NOT_ACKNOWLEDGED }
+        })
+        expect(wallet.sessionManager.get(session.topic)).toBeUndefined()
+
+        // 等 Wallet 处理完 Dapp 销毁时删除的 Pairing
+        const pairingDeleted = once(wallet.pairingManager, PairingEvent.DELETED)
+        await destroyPeer(dapp)
+        await pairingDeleted
+    })
+
+    it("end a session once when a peer delete races a local disconnect", async () => {
+        const { dapp, wallet, session } = await settleSession()
+        const reason = { code: SessionErrorCode.USER_DISCONNECTED, message: "Bye" }
+        const deleted: string[] = []
+        for (const peer of [dapp, wallet]) {
+            peer.sessionManager.on(SessionEvent.DELETED, () => deleted.push(peer === dapp ? "dapp" : "wallet"))
+        }
+
+        // 本地重复断开，同时对端也断开
+        await Promise.all([
+            dapp.sessionManager.disconnect({ topic: session.topic, reason }),
+            dapp.sessionManager.disconnect({ topic: session.topic, reason }),
+            wallet.sessionManager.disconnect({ topic: session.topic, reason })
+        ])
+        await new Promise(resolve => setTimeout(resolve, 20))
+
+        expect(deleted.sort()).toStrictEqual(["dapp", "wallet"])
+        for (const peer of [dapp, wallet]) {
+            expect(peer.sessionManager.get(session.topic)).toBeUndefined()
+            expect(await peer.cryptoManager.getSymKey(session.topic)).toBeUndefined()
+            expect(peer.relay.getSubscribedTopics()).not.toContain(session.topic)
+        }
+    })
+
+    it("cancel a request still waiting for the settle acknowledgement", async () => {
+        const walletRelay = new OfflineRelay(bus)
+        const dapp = await createPeer(false)
+        const wallet = await createPeer(true, undefined, walletRelay)
+        const pairing = await pair(dapp, wallet)
+        const proposal = await propose(dapp, wallet, pairing.topic)
+
+        // Wallet 收不到 Dapp 的确认，请求在本地排队
+        const settled = once<SessionData>(dapp.sessionManager, SessionEvent.SETTLED)
+        await wallet.sessionManager.approve({ proposalId: proposal.proposalId, namespaces })
+        walletRelay.online = false
+        const session = await settled
+        expect(dapp.sessionManager.get(session.topic)!.acknowledged).toBe(false)
+
+        const controller = new AbortController()
+        const pending = dapp.sessionManager.request(
+            { topic: session.topic, chainId: "eip155:1", method: "eth_chainId", params: [] },
+            { signal: controller.signal }
+        )
+        await new Promise(resolve => setTimeout(resolve, 10))
+        const start = Date.now()
+        controller.abort()
+        await expect(pending).rejects.toMatchObject({ code: SessionErrorCode.USER_CANCELLED })
+        expect(Date.now() - start).toBeLessThan(100)
+    })
+
+    it("time out pings and report an unresponsive wallet", async () => {
+        const walletRelay = new OfflineRelay(bus)
+        const { dapp, session } = await settleSession(walletRelay)
+        expect(await dapp.sessionManager.ping(session.topic)).toBeGreaterThanOrEqual(0)
+
+        // 钱包离线
+        walletRelay.online = false
+        await expect(dapp.sessionManager.ping(session.topic, 20))
+            .rejects.toMatchObject({ code: SessionErrorCode.RESPONSE_TIMEOUT })
+
+        const unresponsive = once<PeerLivenessEvent>(dapp.sessionManager, SessionEvent.PEER_UNRESPONSIVE)
+        dapp.sessionManager.startHeartbeat(session.topic, { interval: 10, timeout: 20, maxMissed: 2 })
+        expect(await unresponsive).toStrictEqual({ topic: session.topic, missed: 2 })
+        expect(dapp.sessionManager.isPeerResponsive(session.topic)).toBeFalsy()
+
+        // 钱包重新上线
+        const responsive = once<PeerLivenessEvent>(dapp.sessionManager, SessionEvent.PEER_RESPONSIVE)
+        walletRelay.online = true
+        expect(await responsive).toMatchObject({ topic: session.topic })
+        expect(dapp.sessionManager.isPeerResponsive(session.topic)).toBeTruthy()
+        dapp.sessionManager.stopHeartbeat(session.topic)
+    })
+
+    it("cancel or expire a pending request on both sides", async () => {
+        const { dapp, wallet, session } = await settleSession()
+        const request = { topic: session.topic, chainId: "eip155:1", method: "eth_chainId", params: [] }
+
+        // Dapp 取消
+        const received = once<SessionRequest>(wallet.sessionManager, SessionEvent.REQUEST)
+        const controller = new AbortController()
+        const pending = dapp.sessionManager.request(request, { signal: controller.signal })
+        const incoming = await received
+        expect(incoming.expiryTimestamp).toBeGreaterThan(Date.now())
+
+        const cancelled = once<RequestCancelled>(wallet.sessionManager, SessionEvent.REQUEST_CANCELLED)
+        controller.abort()
+        await expect(pending).rejects.toMatchObject({ code: SessionErrorCode.USER_CANCELLED })
+        expect(await cancelled).toStrictEqual({ id: incoming.id, topic: session.topic, reason: "cancelled" })
+        await expect(wallet.sessionManager.respond({ id: incoming.id, topic: session.topic, result: "0x1" }))
+            .rejects.toMatchObject({ code: SessionErrorCode.INVALID_REQUEST })
+
+        // 超时后 Wallet 丢弃请求
+        const expired = once<RequestCancelled>(wallet.sessionManager, SessionEvent.REQUEST_CANCELLED)
+        await expect(dapp.sessionManager.request(request, { timeout: 30 }))
+            .rejects.toMatchObject({ code: SessionErrorCode.RESPONSE_TIMEOUT })
+        expect(await expired).toMatchObject({ topic: session.topic, reason: "expired" })
+    })
+})
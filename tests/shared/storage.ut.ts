@@ -0,0 +1,140 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { FileSystemStorage } from "../../src/shared/storage/file"
+import { LEGACY_CLIENT_STORAGE_KEYS, PrefixedStorage } from "../../src/shared/storage/prefixed"
+import { PairingStore } from "../../src/shared/store/PairingStore"
+import { SessionStore } from "../../src/shared/store/SessionStore"
+import { WatermarkStore } from "../../src/shared/store/WatermarkStore"
+import { Pairing, PairingStatus } from "../../src/shared/types/pairing"
+import { SessionData, SessionStatus } from "../../src/shared/types/session"
+
+function createPairing(topic: string, expiry: number): Pairing {
+    return {
+        topic,
+        relay: { protocol: "waku" },
+        self: { publicKey: "0x01" },
+        peer: { publicKey: "0x02" },
+        status: PairingStatus.ACTIVE,
+        expiry,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        initiator: true
+    }
+}
+
+function createSession(topic: string, expiry: number): SessionData {
+    const metadata = { name: "test", description: "test", url: "https://example.com", icons: [] }
+    return {
+        topic,
+        pairingTopic: "pairing",
+        relay: { protocol: "waku" },
+        expiry,
+        acknowledged: true,
+        controller: "0x02",
+        namespaces: {},
+        requiredNamespaces: {},
+        self: { publicKey: "0x01", metadata },
+        peer: { publicKey: "0x02", metadata },
+        status: SessionStatus.SETTLED,
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+    }
+}
+
+describe("Storage", () => {
+    it("file system storage", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "yeying-web3-"))
+        const filePath = path.join(dir, "storage.json")
+        try {
+            const storage = new FileSystemStorage(filePath)
+            await storage.setItem("a", "1")
+            await storage.setItem("b", "2")
+            await storage.removeItem("a")
+
+            const reopened = new FileSystemStorage(filePath)
+            expect(await reopened.getItem("a")).toBeUndefined()
+            expect(await reopened.getEntries()).toStrictEqual([["b", "2"]])
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true })
+        }
+    })
+
+    it("pairing store persists and prunes expired", async () => {
+        const storage = new MemoryStorage()
+        const now = Math.floor(Date.now() / 1000)
+        const store = new PairingStore(storage)
+        await store.set("active", createPairing("active", now + 60))
+        await store.set("expired", createPairing("expired", now - 60))
+
+        const reopened = new PairingStore(storage)
+        expect((await reopened.getAll()).map(p => p.topic)).toStrictEqual(["active"])
+        expect(await storage.getItem("wc_pairings")).not.toContain("expired")
+    })
+
+    it("session store persists sessions and proposals", async () => {
+        const storage = new MemoryStorage()
+        const now = Math.floor(Date.now() / 1000)
+        const store = new SessionStore(storage)
+        await store.set("session", createSession("session", now + 60))
+        await store.set("expired", createSession("expired", now - 60))
+        await store.setProposal(1, {
+            proposalId: 1,
+            pairingTopic: "pairing",
+            proposer: { publicKey: "0x01", metadata: { name: "", description: "", url: "", icons: [] } },
+            requiredNamespaces: {},
+            relay: { protocol: "waku" },
+            expiryTimestamp: Date.now() + 60000
+        })
+
+        const reopened = new SessionStore(storage)
+        expect((await reopened.getAll()).map(s => s.topic)).toStrictEqual(["session"])
+        expect((await reopened.getProposal(1))?.pairingTopic).toEqual("pairing")
+    })
+
+    it("prefixed storage keeps clients on a shared storage apart", async () => {
+        const storage = new MemoryStorage()
+        const dapp = new SessionStore(new PrefixedStorage(storage, "dapp"))
+        const wallet = new SessionStore(new PrefixedStorage(storage, "wallet"))
+        const expiry = Math.floor(Date.now() / 1000) + 60
+        await dapp.set("dapp-session", createSession("dapp-session", expiry))
+        await wallet.set("wallet-session", createSession("wallet-session", expiry))
+
+        expect((await new SessionStore(new PrefixedStorage(storage, "dapp")).getAll()).map(s => s.topic))
+            .toStrictEqual(["dapp-session"])
+        expect(await new PrefixedStorage(storage, "wallet").getKeys()).toStrictEqual(["wc_sessions"])
+        expect(await storage.getItem("wc_sessions")).toBeUndefined()
+    })
+
+    it("prefixed storage migrates unprefixed keys written before upgrade once", async () => {
+        const storage = new MemoryStorage()
+        const expiry = Math.floor(Date.now() / 1000) + 60
+        await new SessionStore(storage).set("legacy-session", createSession("legacy-session", expiry))
+        await storage.setItem("unrelated", "value")
+
+        const dapp = new SessionStore(new PrefixedStorage(storage, "dapp", LEGACY_CLIENT_STORAGE_KEYS))
+        expect((await dapp.getAll()).map(s => s.topic)).toStrictEqual(["legacy-session"])
+        expect(await storage.getItem("wc_sessions")).toBeUndefined()
+        expect(await storage.getItem("unrelated")).toEqual("value")
+
+        // 旧键已迁移，其他命名空间不会再取到
+        const wallet = new SessionStore(new PrefixedStorage(storage, "wallet", LEGACY_CLIENT_STORAGE_KEYS))
+        expect(await wallet.getAll()).toStrictEqual([])
+        const reopened = new SessionStore(new PrefixedStorage(storage, "dapp", LEGACY_CLIENT_STORAGE_KEYS))
+        expect((await reopened.getAll()).map(s => s.topic)).toStrictEqual(["legacy-session"])
+    })
+    it("watermark store only moves forward and drops stale topics", async () => {
+        const storage = new MemoryStorage()
+        const store = new WatermarkStore(storage, 60 * 1000)
+        const now = Date.now()
+        await store.advance("recent", now)
+        await store.advance("recent", now - 10)
+        await store.advance("stale", now - 120 * 1000)
+        expect(await store.get("recent")).toEqual(now)
+
+        const reopened = new WatermarkStore(storage, 60 * 1000)
+        expect(await reopened.get("recent")).toEqual(now)
+        expect(await reopened.get("stale")).toBeUndefined()
+    })
+})
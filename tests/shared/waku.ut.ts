@@ -0,0 +1,156 @@
+// 模拟 Waku 节点：Filter 推送实时消息，Store 返回历史消息（@waku/sdk 只提供 ESM，jest 无法直接加载）
+const mockNetwork: {
+    handlers: Map<string, (message: any) => void>
+    stored: { contentTopic: string, hashStr: string, payload: Uint8Array }[]
+    onQuery?: () => void
+} = { handlers: new Map(), stored: [] }
+
+jest.mock("@waku/sdk", () => ({
+    Protocols: { LightPush: "lightpush", Filter: "filter" },
+    HealthStatus: { Unhealthy: "Unhealthy", MinimallyHealthy: "MinimallyHealthy", SufficientlyHealthy: "SufficientlyHealthy" },
+    WakuEvent: { Health: "waku:health" },
+    createEncoder: ({ contentTopic }: { contentTopic: string }) => ({ contentTopic }),
+    createDecoder: (contentTopic: string) => ({ contentTopic }),
+    createLightNode: async () => ({
+        health: "SufficientlyHealthy",
+        events: { addEventListener: () => undefined, removeEventListener: () => undefined },
+        libp2p: { getPeers: () => ["peer"] },
+        start: async () => undefined,
+        stop: async () => undefined,
+        dial: async () => undefined,
+        waitForPeers: async () => undefined,
+        filter: {
+            subscribe: async ([decoder]: any[], handler: (message: any) => void) => {
+                mockNetwork.handlers.set(decoder.contentTopic, handler)
+            },
+            unsubscribe: async ([decoder]: any[]) => {
+                mockNetwork.handlers.delete(decoder.contentTopic)
+            }
+        },
+        store: {
+            queryWithOrderedCallback: async ([decoder]: any[], callback: (message: any) => void) => {
+                mockNetwork.onQuery?.()
+                for (const message of mockNetwork.stored.filter(stored => stored.contentTopic === decoder.contentTopic)) {
+                    callback(message)
+                }
+            }
+        }
+    })
+}), { virtual: true })
+
+import { WakuRelay } from "../../src/shared/relay/waku"
+import { MemoryStorage } from "../../src/shared/storage/memory"
+import { WatermarkStore } from "../../src/shared/store/WatermarkStore"
+
+const topic = "topic"
+const contentTopic = `/walletconnect/1/${topic}/proto`
+
+function wakuMessage(hashStr: string, payload: string, publishedAt: number) {
+    return {
+        contentTopic,
+        hashStr,
+        payload: new TextEncoder().encode(JSON.stringify({ topic, payload, publishedAt }))
+    }
+}
+
+async function createRelay(storage: MemoryStorage) {
+    const relay = new WakuRelay({ storeRecovery: true }, storage)
+    await relay.init()
+    await relay.start()
+    return relay
+}
+
+function waitFor(condition: () => boolean | Promise<boolean>, timeout = 2000): Promise<void> {
+    const start = Date.now()
+    return new Promise((resolve, reject) => {
+        const check = async () => {
+            if (await condition()) {
+                resolve()
+            } else if (Date.now() - start > timeout) {
+                reject(new Error("Timed out"))
+            } else {
+                setTimeout(check, 5)
+            }
+        }
+        check()
+    })
+}
+
+function getWatermark(storage: MemoryStorage) {
+    return new WatermarkStore(storage).get(topic)
+}
+
+describe("WakuRelay store recovery", () => {
+    const now = Date.now()
+
+    beforeEach(() => {
+        mockNetwork.handlers.clear()
+        mockNetwork.stored = []
+        mockNetwork.onQuery = undefined
+    })
+
+    it("recover messages after the watermark in publishedAt order", async () => {
+        const storage = new MemoryStorage()
+        await new WatermarkStore(storage).advance(topic, now - 100)
+        mockNetwork.stored = [
+            wakuMessage("old", "old", now - 200),
+            wakuMessage("c", "c", now - 10),
+            wakuMessage("a", "a", now - 90),
+            wakuMessage("b", "b", now - 50)
+        ]
+
+        const relay = await createRelay(storage)
+        const received: string[] = []
+        await relay.subscribe(topic, message => received.push(message.payload))
+
+        await waitFor(() => received.length === 3)
+        expect(received).toStrictEqual(["a", "b", "c"])
+        await waitFor(async () => await getWatermark(storage) === now - 10)
+        await relay.stop()
+    })
+
+    it("deliver each message once when live and stored messages overlap", async () => {
+        const storage = new MemoryStorage()
+        await new WatermarkStore(storage).advance(topic, now - 100)
+        const live = wakuMessage("b", "b", now - 50)
+        mockNetwork.stored = [wakuMessage("a", "a", now - 90), live]
+        // 补齐过程中实时消息先到达
+        mockNetwork.onQuery = () => mockNetwork.handlers.get(contentTopic)!(live)
+
+        const relay = await createRelay(storage)
+        const received: string[] = []
+        await relay.subscribe(topic, message => received.push(message.payload))
+
+        await waitFor(() => received.length === 2)
+        // 补齐后 Filter 重复推送已投递的消息
+        mockNetwork.handlers.get(contentTopic)!(wakuMessage("a", "a", now - 90))
+        await new Promise(resolve => setTimeout(resolve, 20))
+        expect(received).toStrictEqual(["b", "a"])
+        await relay.stop()
+    })
+
+    it("advance the watermark so a reopened relay only recovers newer messages", async () => {
+        const storage = new MemoryStorage()
+        const first = await createRelay(storage)
+        const received: string[] = []
+        await first.subscribe(topic, message => received.push(message.payload))
+
+        // 首次订阅从现在开始记录，不查询历史消息
+        await waitFor(async () => await getWatermark(storage) !== undefined)
+        expect(received).toStrictEqual([])
+
+        const publishedAt = Date.now() + 1000
+        const delivered = wakuMessage("a", "a", publishedAt)
+        mockNetwork.handlers.get(contentTopic)!(delivered)
+        await waitFor(async () => await getWatermark(storage) === publishedAt)
+        await first.stop()
+
+        mockNetwork.stored = [delivered, wakuMessage("b", "b", publishedAt + 10)]
+        const second = await createRelay(storage)
+        await second.subscribe(topic, message => received.push(message.payload))
+
+        await waitFor(() => received.length === 2)
+        expect(received).toStrictEqual(["a", "b"])
+        await second.stop()
+    })
+})
@@ -0,0 +1,129 @@
+import { WebSocketRelay } from "../../src/shared/relay/websocket"
+import { RelayServer, RelayServerSocket, RelayServerTransport } from "../../src/shared/relay/server"
+import { RelayConnectionState, RelayMessage, RelayStateChange } from "../../src/shared/types/relay"
+import { RelayEvent } from "../../src/shared/types/common"
+
+// 进程内模拟 ws 服务端和浏览器 WebSocket
+class FakeTransport implements RelayServerTransport {
+    private listener?: (socket: RelayServerSocket) => void
+
+    on(event: "connection", listener: (socket: RelayServerSocket) => void) {
+        this.listener = listener
+    }
+
+    accept(socket: RelayServerSocket) {
+        this.listener!(socket)
+    }
+}
+
+const transport = new FakeTransport()
+const serverSockets: FakeServerSocket[] = []
+
+class FakeServerSocket implements RelayServerSocket {
+    private listeners: Record<string, (data?: any) => void> = {}
+
+    constructor(private client: FakeWebSocket) {}
+
+    send(data: string) {
+        setTimeout(() => this.client.onmessage?.({ data } as MessageEvent), 0)
+    }
+
+    close() {
+        this.emit("close")
+        this.client.drop()
+    }
+
+    on(event: string, listener: (data?: any) => void) {
+        this.listeners[event] = listener
+    }
+
+    emit(event: string, data?: any) {
+        this.listeners[event]?.(data)
+    }
+}
+
+class FakeWebSocket {
+    readyState = 0
+    onopen: (() => void) | null = null
+    onclose: (() => void) | null = null
+    onerror: (() => void) | null = null
+    onmessage: ((event: MessageEvent) => void) | null = null
+    private server: FakeServerSocket
+
+    constructor(url: string) {
+        this.server = new FakeServerSocket(this)
+        setTimeout(() => {
+            serverSockets.push(this.server)
+            transport.accept(this.server)
+            this.readyState = 1
+            this.onopen?.()
+        }, 0)
+    }
+
+    send(data: string) {
+        this.server.emit("message", data)
+    }
+
+    close() {
+        this.server.emit("close")
+        this.drop()
+    }
+
+    drop() {
+        this.readyState = 3
+        this.onclose?.()
+    }
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+    return new Promise(resolve => {
+        const check = () => (condition() ? resolve() : setTimeout(check, 5))
+        check()
+    })
+}
+
+describe("WebSocketRelay", () => {
+    it("route messages by topic, report state and resubscribe after reconnect", async () => {
+        const server = new RelayServer(transport)
+        const config = { url: "ws://relay.test", reconnectInterval: 10 }
+        const publisher = new WebSocketRelay(config, FakeWebSocket as any)
+        const subscriber = new WebSocketRelay(config, FakeWebSocket as any)
+        await publisher.init()
+        await publisher.start()
+        await subscriber.init()
+        await subscriber.start()
+        expect(subscriber.getProtocol().protocol).toEqual("websocket")
+        expect(subscriber.getState()).toEqual(RelayConnectionState.CONNECTED)
+
+        const states: RelayConnectionState[] = []
+        subscriber.on(RelayEvent.STATE_CHANGED, (change: RelayStateChange) => states.push(change.state))
+
+        const received: RelayMessage[] = []
+        await subscriber.subscribe("topic", message => received.push(message))
+        await waitFor(() => server.getTopicCount() === 1)
+
+        await publisher.publish("other", "ignored")
+        await publisher.publish("topic", "first")
+        await waitFor(() => received.length === 1)
+        expect(received[0].payload).toEqual("first")
+
+        // 服务端断开订阅者连接，订阅者自动重连并恢复订阅
+        serverSockets[1].close()
+        expect(subscriber.isConnected()).toBe(false)
+        await waitFor(() => subscriber.isConnected() && server.getTopicCount() === 1)
+
+        await publisher.publish("topic", "second")
+        await waitFor(() => received.length === 2)
+        expect(received[1].payload).toEqual("second")
+
+        await publisher.stop()
+        await subscriber.stop()
+        expect(server.getConnectionCount()).toEqual(0)
+        expect(states).toStrictEqual([
+            RelayConnectionState.DISCONNECTED,
+            RelayConnectionState.CONNECTING,
+            RelayConnectionState.CONNECTED,
+            RelayConnectionState.DISCONNECTED
+        ])
+    })
+})
@@ -0,0 +1,150 @@
+import { getBytes, recoverAddress, Transaction, TypedDataEncoder, verifyMessage, verifyTypedData } from "ethers"
+import { createIdentity } from "../../src/wallet/identity"
+import { IdentitySigner, registerIdentityMethods } from "../../src/wallet/signer"
+import { IdentityTemplate } from "../../src/wallet/model"
+import { InvalidPassword } from "../../src/common/error"
+import { MethodRegistry } from "../../src/shared/utils/method-registry"
+import { SessionData, SessionErrorCode } from "../../src/shared/types/session"
+import { IdentityCodeEnum, NetworkTypeEnum } from "../../src/yeying/api/web3/web3"
+
+const password: string = "123456"
+
+const template: IdentityTemplate = {
+    language: "LANGUAGE_CODE_ZH_CH",
+    parent: "",
+    network: NetworkTypeEnum.NETWORK_TYPE_YEYING,
+    code: IdentityCodeEnum.IDENTITY_CODE_PERSONAL,
+    name: "name1",
+    description: "description1",
+    avatar: "avatar1",
+    extend: {
+        email: "email1",
+        telephone: "telephone1",
+        extend: "extend1"
+    }
+}
+
+const methods = ["personal_sign", "eth_sign", "eth_signTypedData_v4", "eth_signTransaction", "eth_accounts"]
+
+function createSession(accounts: string[]) {
+    return {
+        topic: "topic",
+        namespaces: { eip155: { chains: ["eip155:1"], methods, events: [], accounts } }
+    } as unknown as SessionData
+}
+
+describe("IdentitySigner", () => {
+    it("unlock identity and serve signing requests", async () => {
+        const identity = await createIdentity(template, password)
+        const signer = new IdentitySigner(identity)
+        await expect(signer.unlock("wrong")).rejects.toThrow(InvalidPassword)
+
+        const registry = new MethodRegistry({ confirm: () => true })
+        registerIdentityMethods({ registerMethod: registry.register.bind(registry) }, signer)
+
+        const accounts = signer.getAccounts(["eip155:1"])
+        expect(accounts).toStrictEqual([`eip155:1:${signer.address}`])
+        const session = createSession(accounts)
+        const dispatch = (method: string, params: any) =>
+            registry.dispatch({ id: 1, topic: "topic", method, params, chainId: "eip155:1" }, session)
+
+        // 未解锁时拒绝签名
+        expect((await dispatch("personal_sign", ["hello", signer.address]))!.error!.code)
+            .toEqual(SessionErrorCode.UNAUTHORIZED)
+
+        await signer.unlock(password)
+        expect(await dispatch("eth_accounts", [])).toStrictEqual({ result: [signer.address] })
+
+        const signed = await dispatch("personal_sign", ["hello", signer.address])
+        expect(verifyMessage("hello", signed!.result)).toEqual(signer.address)
+
+        const typedData = {
+            types: {
+                EIP712Domain: [{ name: "name", type: "string" }, { name: "chainId", type: "uint256" }],
+                Mail: [{ name: "contents", type: "string" }]
+            },
+            primaryType: "Mail",
+            domain: { name: "test", chainId: 1 },
+            message: { contents: "hi" }
+        }
+        const typed = await dispatch("eth_signTypedData_v4", [signer.address, JSON.stringify(typedData)])
+        expect(verifyTypedData(typedData.domain, { Mail: typedData.types.Mail }, typedData.message, typed!.result))
+            .toEqual(signer.address)
+
+        const tx = await dispatch("eth_signTransaction", [{
+            from: signer.address,
+            to: "0x0000000000000000000000000000000000000001",
+            value: "0x1",
+            gas: "0x5208",
+            gasPrice: "0x1",
+            nonce: "0x0"
+        }])
+        const parsed = Transaction.from(tx!.result)
+        expect(parsed.from).toEqual(signer.address)
+        expect(parsed.chainId).toEqual(BigInt(1))
+
+        // eth_sign 加 EIP-191 前缀，不直接签原始哈希
+        const ethSigned = await dispatch("eth_sign", [signer.address, "0x1234"])
+        expect(verifyMessage(getBytes("0x1234"), ethSigned!.result)).toEqual(signer.address)
+        expect((await dispatch("eth_sign", [signer.address, "hello"]))!.error!.code)
+            .toEqual(SessionErrorCode.INVALID_PARAMS)
+        expect((await dispatch("personal_sign", ["hello", "0x0000000000000000000000000000000000000001"]))!.error!.code)
+            .toEqual(SessionErrorCode.UNSUPPORTED_ACCOUNTS)
+
+        signer.lock()
+        expect(signer.isUnlocked()).toBeFalsy()
+    })
+
+    it("sign typed data for the requested primaryType only", async () => {
+        const identity = await createIdentity(template, password)
+        const signer = new IdentitySigner(identity)
+        await signer.unlock(password)
+
+        // EIP-712 规范中的 Mail 示例
+        const typedData = {
+            types: {
+                EIP712Domain: [
+                    { name: "name", type: "string" },
+                    { name: "version", type: "string" },
+                    { name: "chainId", type: "uint256" },
+                    { name: "verifyingContract", type: "address" }
+                ],
+                Person: [{ name: "name", type: "string" }, { name: "wallet", type: "address" }],
+                Mail: [
+                    { name: "from", type: "Person" },
+                    { name: "to", type: "Person" },
+                    { name: "contents", type: "string" }
+                ],
+                // 与 primaryType 无关的根类型
+                Permit: [{ name: "spender", type: "address" }, { name: "value", type: "uint256" }]
+            },
+            primaryType: "Mail",
+            domain: {
+                name: "Ether Mail",
+                version: "1",
+                chainId: 1,
+                verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
+            },
+            message: {
+                from: { name: "Cow", wallet: "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826" },
+                to: { name: "Bob", wallet: "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB" },
+                contents: "Hello, Bob!"
+            }
+        }
+        const { EIP712Domain, Permit, ...types } = typedData.types
+        const digest = "0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2"
+        expect(TypedDataEncoder.hash(typedData.domain, types, typedData.message)).toEqual(digest)
+
+        const signature = await signer.signTypedData([signer.address, JSON.stringify(typedData)])
+        expect(recoverAddress(digest, signature)).toEqual(signer.address)
+
+        // 声明的 EIP712Domain 与 domain 不一致
+        const mismatched = { ...typedData, types: { ...typedData.types, EIP712Domain: EIP712Domain.slice(1) } }
+        await expect(signer.signTypedData([signer.address, mismatched])).rejects.toMatchObject({
+            code: SessionErrorCode.INVALID_PARAMS
+        })
+        await expect(signer.signTypedData([signer.address, { ...typedData, primaryType: "Unknown" }])).rejects.toMatchObject({
+            code: SessionErrorCode.INVALID_PARAMS
+        })
+    })
+})